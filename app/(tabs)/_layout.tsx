@@ -7,7 +7,13 @@ import { ActivityIndicator, Text, View, useColorScheme } from 'react-native';
 
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { useDeliveryReceipts } from '@/hooks/use-delivery-receipts';
+import { useOutbox } from '@/hooks/use-outbox';
+import { usePresenceHeartbeat } from '@/hooks/use-presence';
+import { usePrivacyPrefs } from '@/hooks/use-privacy-prefs';
 import { useProfile } from '@/hooks/use-profile';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
+import { getChatListState, isChatMuted, isChatUnread } from '@/lib/chat-list';
 import { db } from '@/lib/firebase';
 
 export default function TabsLayout() {
@@ -19,18 +25,21 @@ export default function TabsLayout() {
   const [interestsUnread, setInterestsUnread] = useState(0);
   const [tapResponsesUnread, setTapResponsesUnread] = useState(0);
 
+  usePushNotifications(profile ? user?.uid : null);
+  useOutbox(user?.uid);
+  useDeliveryReceipts(user?.uid);
+  const privacyPrefs = usePrivacyPrefs(user?.uid);
+  usePresenceHeartbeat(user?.uid, privacyPrefs.hideLastSeen);
+
   useEffect(() => {
     if (!user?.uid) return;
     const q = query(collection(db, 'chats'), where('participants', 'array-contains', user.uid));
     const unsub = onSnapshot(q, (snap) => {
       const items = snap.docs.map((d) => d.data() as any);
-      const count = items.filter((c) => {
-        if (!c.lastSender || c.lastSender === user.uid) return false;
-        const updated = c.updatedAt?.toDate ? c.updatedAt.toDate().getTime() : 0;
-        const read = c.readBy?.[user.uid]?.toDate ? c.readBy[user.uid].toDate().getTime() : 0;
-        if (!updated) return true;
-        return updated > read;
-      }).length;
+      // Le chat silenziate restano fuori dal badge
+      const count = items.filter(
+        (c) => isChatUnread(c, user.uid) && !isChatMuted(getChatListState(c, user.uid))
+      ).length;
       setUnreadCount(count);
     });
     return unsub;
@@ -10,7 +10,6 @@ import {
   query,
   serverTimestamp,
   setDoc,
-  where,
 } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -33,13 +32,19 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 
+import { MessageActionsSheet } from '@/components/messages/MessageActionsSheet';
+import { ReactionChips } from '@/components/messages/ReactionChips';
+import { ReportSheet } from '@/components/report-sheet';
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { useBlockedIds } from '@/hooks/use-blocked-ids';
 import { useProfile } from '@/hooks/use-profile';
 import { db, functions } from '@/lib/firebase';
+import { getGroupPresence } from '@/lib/group-presence';
+import { toggleReaction, type ReactionMap } from '@/lib/reactions';
+import { HIDDEN_CONTENT_LABEL, type ReportTarget } from '@/lib/reports';
 
-const PRESENCE_ACTIVE_MS = 2 * 60 * 1000;
-const LIVE_PRESENCE_ACTIVE_MS = 2 * 60 * 1000;
+const PRESENCE_REFRESH_MS = 30 * 1000;
 
 type GroupMessage = {
   id: string;
@@ -47,6 +52,8 @@ type GroupMessage = {
   senderId: string;
   senderName?: string;
   createdAt?: { toDate?: () => Date } | Date;
+  reactions?: ReactionMap;
+  moderationHidden?: boolean;
 };
 
 type GroupMeta = {
@@ -79,6 +86,7 @@ export default function GroupChatScreen() {
 
   const { user } = useAuth();
   const { profile } = useProfile(user?.uid);
+  const blockedIds = useBlockedIds(user?.uid);
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
 
@@ -94,6 +102,8 @@ export default function GroupChatScreen() {
   const [participants, setParticipants] = useState<GroupParticipant[]>([]);
   const [liveHostIds, setLiveHostIds] = useState<string[]>([]);
   const [deleting, setDeleting] = useState(false);
+  const [actionTarget, setActionTarget] = useState<GroupMessage | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const flatListRef = useRef<FlatList<GroupMessage>>(null);
 
   const groupTitle = groupMeta?.title || title || 'Gruppo';
@@ -167,57 +177,34 @@ export default function GroupChatScreen() {
     return unsub;
   }, [groupId, joined]);
 
-  const toMillis = (value: any) => {
-    if (!value) return 0;
-    if (typeof value === 'number') return value;
-    if (value.toMillis) return value.toMillis();
-    if (value.toDate) return value.toDate().getTime();
-    if (typeof value.seconds === 'number') return value.seconds * 1000;
-    return 0;
-  };
-
+  // presence e livePresence non sono leggibili dal client: li filtra getGroupPresence
   useEffect(() => {
     if (!groupId || !joined) {
       setParticipants([]);
-      return;
-    }
-    const q = query(collection(db, 'groupRooms', groupId, 'presence'));
-    const unsub = onSnapshot(q, (snap) => {
-      const now = Date.now();
-      const items = snap.docs.map((d) => {
-        const data = d.data() as any;
-        return {
-          id: d.id,
-          name: data.name || 'Utente',
-          photo: data.photo || '',
-          activeAt: data.activeAt,
-        } as GroupParticipant;
-      });
-      const active = items
-        .filter((item) => now - toMillis(item.activeAt) <= PRESENCE_ACTIVE_MS)
-        .sort((a, b) => toMillis(b.activeAt) - toMillis(a.activeAt));
-      setParticipants(active);
-    });
-    return unsub;
-  }, [groupId, joined]);
-
-  useEffect(() => {
-    if (!groupId || !joined) {
       setLiveHostIds([]);
       return;
     }
-    const q = query(collection(db, 'groupRooms', groupId, 'livePresence'));
-    const unsub = onSnapshot(q, (snap) => {
-      const now = Date.now();
-      const activeHosts = snap.docs
-        .map((d) => ({ id: d.id, ...(d.data() as any) }))
-        .filter((item) => now - toMillis(item.activeAt) <= LIVE_PRESENCE_ACTIVE_MS)
-        .filter((item) => (item.role || 'host') === 'host')
-        .map((item) => item.id);
-      setLiveHostIds(activeHosts);
-    });
-    return unsub;
-  }, [groupId, joined]);
+    let active = true;
+
+    const loadPresence = async () => {
+      try {
+        const presence = await getGroupPresence(groupId);
+        if (!active) return;
+        setParticipants(presence.participants.filter((item) => !blockedIds.has(item.id)));
+        setLiveHostIds(presence.liveHostIds);
+      } catch {
+        // best effort: resta l'ultima lista
+      }
+    };
+
+    void loadPresence();
+    const intervalId = setInterval(loadPresence, PRESENCE_REFRESH_MS);
+
+    return () => {
+      active = false;
+      clearInterval(intervalId);
+    };
+  }, [groupId, joined, blockedIds]);
 
   useEffect(() => {
     if (!groupId || !user?.uid || !joined) return;
@@ -255,25 +242,6 @@ export default function GroupChatScreen() {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const refreshMembersCount = useCallback(async () => {
-    if (!groupId) return;
-    try {
-      const cutoff = new Date(Date.now() - PRESENCE_ACTIVE_MS);
-      const q = query(
-        collection(db, 'groupRooms', groupId, 'presence'),
-        where('activeAt', '>', cutoff)
-      );
-      const snap = await getDocs(q);
-      await setDoc(
-        doc(db, 'groupRooms', groupId),
-        { membersCount: snap.size },
-        { merge: true }
-      );
-    } catch {
-      // best effort
-    }
-  }, [groupId]);
-
   const handleJoin = useCallback(async () => {
     if (!groupId || !user?.uid || joining) return;
     setJoining(true);
@@ -286,14 +254,13 @@ export default function GroupChatScreen() {
         { activeAt: serverTimestamp(), name, photo },
         { merge: true }
       );
-      await refreshMembersCount();
       setJoined(true);
     } catch (e) {
       Alert.alert('Errore', 'Non sono riuscito a entrare nel gruppo.');
     } finally {
       setJoining(false);
     }
-  }, [groupId, user?.uid, joining, profile?.name, user?.displayName, refreshMembersCount]);
+  }, [groupId, user?.uid, joining, profile?.name, user?.displayName]);
 
   const handleLeave = useCallback(async () => {
     if (!groupId || !user?.uid || leaving) {
@@ -304,7 +271,6 @@ export default function GroupChatScreen() {
     const presenceRef = doc(db, 'groupRooms', groupId, 'presence', user.uid);
     try {
       await deleteDoc(presenceRef);
-      await refreshMembersCount();
     } catch (e) {
       Alert.alert('Errore', 'Non sono riuscito a uscire correttamente dal gruppo.');
     } finally {
@@ -312,7 +278,7 @@ export default function GroupChatScreen() {
       setJoined(false);
       router.back();
     }
-  }, [groupId, user?.uid, leaving, refreshMembersCount, router]);
+  }, [groupId, user?.uid, leaving, router]);
 
   const handleLivePress = useCallback(() => {
     if (!groupId || !user?.uid) return;
@@ -482,6 +448,38 @@ export default function GroupChatScreen() {
     });
   };
 
+  // Nomi per "chi ha reagito": mittenti dei messaggi e presenti nella stanza
+  const userNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    messages.forEach((m) => {
+      if (m.senderId && m.senderName) names[m.senderId] = m.senderName;
+    });
+    participants.forEach((p) => {
+      names[p.id] = p.name;
+    });
+    return names;
+  }, [messages, participants]);
+
+  const getUserName = useCallback(
+    (userId: string) => (userId === user?.uid ? 'Tu' : userNames[userId] || 'Utente'),
+    [user?.uid, userNames]
+  );
+
+  const handleToggleReaction = useCallback(
+    (message: GroupMessage, emoji: string) => {
+      if (!groupId || !user?.uid) return;
+      toggleReaction(
+        doc(db, 'groupRooms', groupId, 'messages', message.id),
+        user.uid,
+        emoji,
+        message.reactions
+      ).catch(() => {
+        Alert.alert('Errore', 'Non sono riuscito a salvare la reazione.');
+      });
+    },
+    [groupId, user?.uid]
+  );
+
   const renderItem = ({ item }: { item: GroupMessage }) => {
     const isMine = item.senderId === user?.uid;
     const senderLabel = isMine ? 'Tu' : item.senderName || 'Utente';
@@ -504,7 +502,19 @@ export default function GroupChatScreen() {
         >
           {senderLabel}
         </Text>
-        <Text style={[styles.text, { color: isMine ? '#fff' : palette.text }]}>{item.text}</Text>
+        {item.moderationHidden ? (
+          <Text
+            style={[
+              styles.text,
+              styles.hiddenText,
+              { color: isMine ? 'rgba(255,255,255,0.8)' : palette.muted },
+            ]}
+          >
+            {HIDDEN_CONTENT_LABEL}
+          </Text>
+        ) : (
+          <Text style={[styles.text, { color: isMine ? '#fff' : palette.text }]}>{item.text}</Text>
+        )}
         <View style={styles.timeRow}>
           <Text style={[styles.time, { color: isMine ? 'rgba(255,255,255,0.8)' : palette.muted }]}>
             {formatTime(item.createdAt)}
@@ -513,24 +523,34 @@ export default function GroupChatScreen() {
       </View>
     );
     return (
-      <View style={[styles.messageRow, isMine ? styles.messageRowMine : styles.messageRowOther]}>
-        {canOpenPrivate ? (
+      <View>
+        <View style={[styles.messageRow, isMine ? styles.messageRowMine : styles.messageRowOther]}>
           <Pressable
-            onPress={() =>
+            onLongPress={() => {
+              if (!item.moderationHidden) setActionTarget(item);
+            }}
+            onPress={() => {
+              if (!canOpenPrivate) return;
               Alert.alert(senderLabel, 'Vuoi scrivere in privato?', [
                 { text: 'Annulla', style: 'cancel' },
                 {
                   text: 'Messaggio privato',
                   onPress: () => handleOpenPrivate(item.senderId, senderLabel),
                 },
-              ])
-            }
+              ]);
+            }}
           >
             {bubble}
           </Pressable>
-        ) : (
-          bubble
-        )}
+        </View>
+        <ReactionChips
+          reactions={item.reactions}
+          myId={user?.uid}
+          alignEnd={isMine}
+          palette={palette}
+          getUserName={getUserName}
+          onToggle={(emoji) => handleToggleReaction(item, emoji)}
+        />
       </View>
     );
   };
@@ -701,6 +721,41 @@ export default function GroupChatScreen() {
         )}
       </KeyboardAvoidingView>
 
+      <MessageActionsSheet
+        visible={!!actionTarget}
+        palette={palette}
+        selectedEmoji={user?.uid ? actionTarget?.reactions?.[user.uid] : null}
+        actions={
+          groupId && actionTarget && actionTarget.senderId !== user?.uid
+            ? [
+                {
+                  key: 'report',
+                  label: 'Segnala',
+                  icon: 'flag-outline',
+                  destructive: true,
+                  onPress: () =>
+                    setReportTarget({
+                      targetType: 'groupMessage',
+                      groupId,
+                      messageId: actionTarget.id,
+                    }),
+                },
+              ]
+            : []
+        }
+        onReact={(emoji) => {
+          if (actionTarget) handleToggleReaction(actionTarget, emoji);
+        }}
+        onClose={() => setActionTarget(null)}
+      />
+
+      <ReportSheet
+        target={reportTarget}
+        title="Segnala messaggio"
+        palette={palette}
+        onClose={() => setReportTarget(null)}
+      />
+
       <Modal
         visible={membersOpen}
         transparent
@@ -1118,6 +1173,9 @@ const styles = StyleSheet.create({
     fontSize: 15,
     lineHeight: 21,
   },
+  hiddenText: {
+    fontStyle: 'italic',
+  },
   empty: {
     alignItems: 'center',
     gap: 8,
@@ -28,9 +28,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Track } from 'livekit-client';
 
+import { ReportSheet } from '@/components/report-sheet';
+import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
 import { useProfile } from '@/hooks/use-profile';
 import { db, functions } from '@/lib/firebase';
+import type { ReportTarget } from '@/lib/reports';
 
 if (Platform.OS === 'web') {
   require('@livekit/components-styles');
@@ -189,6 +192,7 @@ export default function GroupLiveScreen() {
   const [chatOpen, setChatOpen] = useState(true);
   const [liveCreatorId, setLiveCreatorId] = useState<string | null>(null);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const stopRequested = useRef(false);
   const messagesRef = useRef<any>(null);
   const autoScrollRef = useRef(true);
@@ -244,6 +248,8 @@ export default function GroupLiveScreen() {
         const message =
           code === 'functions/unauthenticated'
             ? 'Devi essere loggato per vedere la live.'
+            : err?.message?.includes('live-hidden')
+            ? 'Questa live è stata nascosta in attesa di revisione.'
             : code === 'functions/permission-denied' || err?.message?.includes('not-in-group')
             ? 'Entra nel gruppo per vedere la live.'
             : code === 'functions/failed-precondition' || err?.message?.includes('live-not-active')
@@ -449,7 +455,17 @@ export default function GroupLiveScreen() {
             <Text style={styles.endButtonText}>Esci</Text>
           </Pressable>
         ) : (
-          <View style={styles.headerButton} />
+          <Pressable
+            style={styles.headerButton}
+            onPress={() => {
+              if (groupId && targetHostId) {
+                setReportTarget({ targetType: 'live', groupId, hostId: targetHostId });
+              }
+            }}
+            accessibilityLabel="Segnala live"
+          >
+            <Ionicons name="flag-outline" size={20} color="#1f1f1f" />
+          </Pressable>
         )}
       </View>
 
@@ -574,6 +590,12 @@ export default function GroupLiveScreen() {
           </Pressable>
         </View>
       </KeyboardAvoidingView>
+      <ReportSheet
+        target={reportTarget}
+        title="Segnala live"
+        palette={Colors.light}
+        onClose={() => setReportTarget(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -18,7 +18,8 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
-import { useProfiles } from '@/hooks/use-profiles';
+import { useMyLocation } from '@/hooks/use-location';
+import { useProfiles, type ProfileQueryFilters } from '@/hooks/use-profiles';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 
@@ -31,7 +32,7 @@ export default function CompactGridScreen() {
   const [actionsOpen, setActionsOpen] = useState(false);
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
-  const { data, loading, error, refresh, refreshing } = useProfiles();
+  const { location: myLocation } = useMyLocation(user?.uid);
   const [blockedIds, setBlockedIds] = useState<string[]>([]);
   const [blockedByIds, setBlockedByIds] = useState<string[]>([]);
   const [filterMinAge, setFilterMinAge] = useState('');
@@ -43,6 +44,22 @@ export default function CompactGridScreen() {
   const [filterRole, setFilterRole] = useState<string | null>(null);
   const [filterIntent, setFilterIntent] = useState<string | null>(null);
   const [filterInterests, setFilterInterests] = useState<string[]>([]);
+  const queryFilters = useMemo<ProfileQueryFilters>(() => {
+    const minAge = Number.parseInt(filterMinAge, 10);
+    const maxAge = Number.parseInt(filterMaxAge, 10);
+    const maxDistance = Number.parseInt(filterMaxDistance, 10);
+    return {
+      minAge: Number.isNaN(minAge) ? undefined : minAge,
+      maxAge: Number.isNaN(maxAge) ? undefined : maxAge,
+      maxDistanceKm: Number.isNaN(maxDistance) || maxDistance <= 0 ? undefined : maxDistance,
+      role: filterRole,
+      intent: filterIntent,
+    };
+  }, [filterMinAge, filterMaxAge, filterMaxDistance, filterRole, filterIntent]);
+  const { data, loading, error, refresh, refreshing, loadMore, loadingMore } = useProfiles(
+    myLocation,
+    queryFilters
+  );
 
   useEffect(() => {
     let active = true;
@@ -79,6 +96,7 @@ export default function CompactGridScreen() {
     if (!user?.uid) return base;
     return base.filter((p) => {
       if (p.id === user.uid) return false;
+      if (p.moderationHidden) return false;
       const targetBlockedBy = Array.isArray((p as any).blockedBy) ? (p as any).blockedBy : [];
       const targetBlocked = Array.isArray((p as any).blocked) ? (p as any).blocked : [];
       if (blockedIds.includes(p.id)) return false;
@@ -89,21 +107,10 @@ export default function CompactGridScreen() {
     });
   }, [data, user?.uid, blockedIds, blockedByIds]);
   const filtered = useMemo(() => {
+    // Età, distanza, ruolo e intento sono già applicati dalla query in useProfiles
     let next = profiles;
-    const minAge = Number.parseInt(filterMinAge, 10);
-    const maxAge = Number.parseInt(filterMaxAge, 10);
-    const maxDistance = Number.parseInt(filterMaxDistance, 10);
     const cityTerm = filterCity.trim().toLowerCase();
 
-    if (!Number.isNaN(minAge)) {
-      next = next.filter((p) => (p.age ?? 0) >= minAge);
-    }
-    if (!Number.isNaN(maxAge)) {
-      next = next.filter((p) => (p.age ?? 0) <= maxAge);
-    }
-    if (!Number.isNaN(maxDistance)) {
-      next = next.filter((p) => (p.distanceKm ?? 0) <= maxDistance);
-    }
     if (cityTerm) {
       next = next.filter((p) => (p.city ?? '').toLowerCase().includes(cityTerm));
     }
@@ -133,12 +140,6 @@ export default function CompactGridScreen() {
         return photos.some((uri: string) => uri && uri !== FALLBACK_PHOTO);
       });
     }
-    if (filterRole) {
-      next = next.filter((p: any) => (p.role ?? '').toLowerCase() === filterRole);
-    }
-    if (filterIntent) {
-      next = next.filter((p: any) => (p.intent ?? '').toLowerCase() === filterIntent);
-    }
     if (filterInterests.length > 0) {
       next = next.filter((p) =>
         filterInterests.some((interest) => (p.interests ?? []).includes(interest))
@@ -147,14 +148,9 @@ export default function CompactGridScreen() {
     return next;
   }, [
     profiles,
-    filterMinAge,
-    filterMaxAge,
-    filterMaxDistance,
     filterCity,
     filterOnline,
     filterWithPhoto,
-    filterRole,
-    filterIntent,
     filterInterests,
   ]);
 
@@ -338,7 +334,7 @@ export default function CompactGridScreen() {
 
           <View style={styles.chipsRow}>
             {roleOptions.map((opt) => {
-              const selected = filterRole === opt.toLowerCase();
+              const selected = filterRole === opt;
               return (
                 <Pressable
                   key={opt}
@@ -349,7 +345,7 @@ export default function CompactGridScreen() {
                       backgroundColor: selected ? `${palette.tint}18` : palette.card,
                     },
                   ]}
-                  onPress={() => setFilterRole(selected ? null : opt.toLowerCase())}
+                  onPress={() => setFilterRole(selected ? null : opt)}
                 >
                   <Text style={[styles.chipText, { color: selected ? palette.tint : palette.text }]}>
                     {opt}
@@ -361,7 +357,7 @@ export default function CompactGridScreen() {
 
           <View style={styles.chipsRow}>
             {intentOptions.map((opt) => {
-              const selected = filterIntent === opt.toLowerCase();
+              const selected = filterIntent === opt;
               return (
                 <Pressable
                   key={opt}
@@ -372,7 +368,7 @@ export default function CompactGridScreen() {
                       backgroundColor: selected ? `${palette.accent}18` : palette.card,
                     },
                   ]}
-                  onPress={() => setFilterIntent(selected ? null : opt.toLowerCase())}
+                  onPress={() => setFilterIntent(selected ? null : opt)}
                 >
                   <Text
                     style={[styles.chipText, { color: selected ? palette.accent : palette.text }]}
@@ -433,6 +429,15 @@ export default function CompactGridScreen() {
             colors={[palette.tint]}
           />
         }
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.6}
+        ListFooterComponent={
+          loadingMore ? (
+            <View style={styles.listFooter}>
+              <ActivityIndicator color={palette.tint} />
+            </View>
+          ) : null
+        }
         ListEmptyComponent={
           !loading && !refreshing ? (
             <View style={styles.emptyState}>
@@ -482,7 +487,9 @@ export default function CompactGridScreen() {
                   <View style={styles.metaRow}>
                     <Ionicons name="location" size={12} color="#f3f4f6" />
                     <Text style={styles.meta} numberOfLines={1}>
-                      {item.city ?? ''}
+                      {typeof item.distanceKm === 'number'
+                        ? `${item.distanceKm} km${item.city ? ` · ${item.city}` : ''}`
+                        : item.city ?? ''}
                     </Text>
                   </View>
                 </View>
@@ -731,6 +738,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 4,
   },
+  listFooter: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
   emptyState: {
     paddingVertical: 40,
     alignItems: 'center',
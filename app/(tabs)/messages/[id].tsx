@@ -7,18 +7,12 @@ import * as Location from 'expo-location';
 import { router, useLocalSearchParams } from 'expo-router';
 import {
   addDoc,
-  collection,
   deleteDoc,
-  deleteField,
   doc,
-  arrayUnion,
-  arrayRemove,
   limit as firestoreLimit,
   getDoc,
-  getDocs,
   onSnapshot,
   orderBy,
-  query,
   serverTimestamp,
   setDoc,
   Timestamp,
@@ -32,6 +26,8 @@ import {
   FlatList,
   KeyboardAvoidingView,
   Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   Platform,
   Pressable,
   Switch,
@@ -48,11 +44,46 @@ import { useAudioPlayer } from '@/hooks/useAudioPlayer';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
 import { useAuth } from '@/hooks/use-auth';
 import { useChatMessages } from '@/hooks/useChatMessages';
+import { useMessageSearch } from '@/hooks/use-message-search';
+import { useUserPresence } from '@/hooks/use-presence';
+import { usePrivacyPrefs } from '@/hooks/use-privacy-prefs';
+import { useTranslationPrefs } from '@/hooks/use-translation-prefs';
+import { useTypingIndicator } from '@/hooks/use-typing-indicator';
+import { blockUser, getBlockErrorAlert, unblockUser } from '@/lib/blocking';
+import { clearChatForUser, getChatListState, setChatMarkedUnread } from '@/lib/chat-list';
 import { db } from '@/lib/firebase';
+import type { OutboxState } from '@/lib/outbox';
+import {
+  canEditMessage,
+  canUnsendMessage,
+  editMessage,
+  getMessageEditErrorAlert,
+  unsendMessage,
+} from '@/lib/message-edits';
+import {
+  parseDisappearingTimer,
+  setChatDisappearingTimer,
+  type DisappearingTimer,
+} from '@/lib/disappearing';
+import { markMessagesDelivered, markMessagesRead } from '@/lib/receipts';
+import {
+  getLanguageLabel,
+  translateChatMessage,
+  translatePlainText,
+  type CachedTranslation,
+} from '@/lib/translation';
+import { toggleReaction } from '@/lib/reactions';
+import { buildReplySnapshot, type ReplyTo } from '@/lib/replies';
+import type { ReportTarget } from '@/lib/reports';
 import { analyzeImageSensitivity } from '@/lib/sensitivity';
 
 import { ChatMessageItem } from '@/components/messages/ChatMessageItem';
+import { LanguageChips } from '@/components/language-chips';
+import { ReportSheet } from '@/components/report-sheet';
+import { DisappearingTimerSheet } from '@/components/messages/DisappearingTimerSheet';
+import { MessageActionsSheet, type MessageAction } from '@/components/messages/MessageActionsSheet';
 import { ParticleEffect } from '@/components/messages/ParticleEffect';
+import { ReplyQuote } from '@/components/messages/ReplyQuote';
 
 type ChatMessage = {
   id: string;
@@ -63,32 +94,49 @@ type ChatMessage = {
   imagePath?: string;
   sensitive?: boolean;
   audio?: string;
+  audioPath?: string;
   audioDuration?: number;
   expiresAfterView?: boolean;
   expiresAt?: Timestamp | Date;
+  deliveredAt?: Timestamp | null;
+  readAt?: Timestamp | null;
+  reactions?: Record<string, string>;
+  translations?: Record<string, CachedTranslation>;
   location?: {
     lat: number;
     lng: number;
   };
+  replyTo?: ReplyTo;
+  editedAt?: Timestamp | null;
+  unsent?: boolean;
+  moderationHidden?: boolean;
+  deliveryState?: OutboxState;
 };
 
 type TranslationEntry = {
   text: string | null;
   target: string;
+  // Testo originale tradotto: dopo una modifica la traduzione va rifatta
+  source?: string;
+  detectedSource?: string | null;
 };
 
 const FALLBACK_PHOTO = 'https://images.unsplash.com/photo-1524504388940-b1c1722653e1?auto=format&fit=crop&w=900&q=80';
 const SECRET_EXPIRY_MS = 10_000;
-const INITIAL_MESSAGES_LIMIT = 30;
-const TRANSLATION_LANG_OPTIONS = ['en', 'es', 'fr', 'de', 'it'];
-const DEFAULT_INCOMING_TRANSLATION_LANG = 'it';
-const MAX_DATA_URL_LENGTH = 900_000;
-const RESIZE_STEPS = [1280, 1024, 800, 640, 512];
-const QUALITY_STEPS = [0.8, 0.7, 0.6, 0.5];
-
-const buildDataUrl = (base64: string, mime: string) => `data:${mime};base64,${base64}`;
-
-const isDataUrlWithinLimit = (dataUrl: string) => dataUrl.length <= MAX_DATA_URL_LENGTH;
+const LOAD_OLDER_THRESHOLD = 80;
+const REPLY_HIGHLIGHT_MS = 1600;
+
+const formatLastSeen = (date: Date) => {
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const today = new Date();
+  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+  if (date.toDateString() === today.toDateString()) return `Ultimo accesso oggi alle ${time}`;
+  if (date.toDateString() === yesterday.toDateString()) return `Ultimo accesso ieri alle ${time}`;
+  return `Ultimo accesso il ${date.toLocaleDateString([], { day: '2-digit', month: '2-digit' })}`;
+};
+const NEAR_BOTTOM_THRESHOLD = 120;
+const MAX_IMAGE_SIZE = 1280;
+const IMAGE_QUALITY = 0.8;
 
 const getAssetMime = (asset: ImagePicker.ImagePickerAsset) => {
   const mime =
@@ -109,33 +157,34 @@ const getResizeActions = (asset: ImagePicker.ImagePickerAsset, maxSize: number)
   return [{ resize: { height: maxSize } }];
 };
 
-const buildCompressedDataUrl = async (asset: ImagePicker.ImagePickerAsset) => {
-  const mime = getAssetMime(asset);
-  if (asset.base64) {
-    const dataUrl = buildDataUrl(asset.base64, mime);
-    if (isDataUrlWithinLimit(dataUrl)) return dataUrl;
-  }
-
-  for (const size of RESIZE_STEPS) {
-    const actions = getResizeActions(asset, size);
-    for (const quality of QUALITY_STEPS) {
-      const result = await ImageManipulator.manipulateAsync(
-        asset.uri,
-        actions,
-        { compress: quality, format: ImageManipulator.SaveFormat.JPEG, base64: true }
-      );
-      if (!result.base64) continue;
-      const dataUrl = buildDataUrl(result.base64, 'image/jpeg');
-      if (isDataUrlWithinLimit(dataUrl)) return dataUrl;
-    }
+// Ridimensiona e comprime in un file locale: il caricamento su Storage avviene all'invio
+const prepareImageForUpload = async (asset: ImagePicker.ImagePickerAsset) => {
+  try {
+    const result = await ImageManipulator.manipulateAsync(
+      asset.uri,
+      getResizeActions(asset, MAX_IMAGE_SIZE),
+      { compress: IMAGE_QUALITY, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    return result.uri;
+  } catch {
+    return asset.uri || null;
   }
-
-  return null;
 };
 
 export default function ChatScreen() {
-  const { id: otherId, name: initialName, photo: initialPhoto, chatId: chatIdParam } =
-    useLocalSearchParams<{ id: string; name?: string; photo?: string; chatId?: string }>();
+  const {
+    id: otherId,
+    name: initialName,
+    photo: initialPhoto,
+    chatId: chatIdParam,
+    messageId: messageIdParam,
+  } = useLocalSearchParams<{
+    id: string;
+    name?: string;
+    photo?: string;
+    chatId?: string;
+    messageId?: string;
+  }>();
   const { user } = useAuth();
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
@@ -149,25 +198,53 @@ export default function ChatScreen() {
   // Stati base
   const [otherName, setOtherName] = useState<string>(initialName ?? '');
   const [otherPhoto, setOtherPhoto] = useState<string | undefined>(initialPhoto ?? FALLBACK_PHOTO);
+  // undefined finché il documento della chat non arriva, null se non esiste ancora
+  const [chatMeta, setChatMeta] = useState<any | null | undefined>(undefined);
+  const clearedAt =
+    chatMeta === undefined ? undefined : getChatListState(chatMeta ?? {}, user?.uid).clearedAt;
   
   const {
     messages: chatData,
     messagesLoading,
     initialLoadDone,
-    sending,
+    loadingOlder,
+    hasMoreOlder,
+    loadOlderMessages,
+    mediaUpload,
+    cancelMediaUpload,
+    retryMessage,
+    discardMessage,
     handleSendMessage,
-  } = useChatMessages(chatId, otherId, otherName, otherPhoto);
+  } = useChatMessages(chatId, otherId, otherName, otherPhoto, clearedAt);
   
+  const [replyingTo, setReplyingTo] = useState<ReplyTo | null>(null);
+  const replyingToRef = useRef<ReplyTo | null>(null);
+  replyingToRef.current = replyingTo;
+
+  // Qualsiasi invio (testo, foto, vocale, posizione) porta con sé la risposta in corso
+  const sendMessageWithReply = useCallback(
+    (...[messageData, isSecret, options]: Parameters<typeof handleSendMessage>) => {
+      const replyTo = replyingToRef.current;
+      if (replyTo) setReplyingTo(null);
+      return handleSendMessage(replyTo ? { ...messageData, replyTo } : messageData, isSecret, options);
+    },
+    [handleSendMessage]
+  );
+
   const [input, setInput] = useState('');
   const [actionsOpen, setActionsOpen] = useState(false);
   const [secretMode, setSecretMode] = useState(false);
-  const [translateAllEnabled, setTranslateAllEnabled] = useState(false);
   const [translatingAll, setTranslatingAll] = useState(false);
-  const [outgoingTargetLang, setOutgoingTargetLang] = useState<string>('en');
-  const [incomingTargetLang, setIncomingTargetLang] = useState<string>(
-    DEFAULT_INCOMING_TRANSLATION_LANG
+  // Salvate per chat, con ripiego sul predefinito delle Impostazioni
+  const { prefs: translationPrefs, updatePrefs: updateTranslationPrefs } = useTranslationPrefs(
+    user?.uid,
+    chatId
   );
+  const translateAllEnabled = translationPrefs.autoTranslate;
+  const incomingTargetLang = translationPrefs.incoming;
+  const outgoingTargetLang = translationPrefs.outgoing;
   const [translationSettingsVisible, setTranslationSettingsVisible] = useState(false);
+  const [langPicker, setLangPicker] = useState<'incoming' | 'outgoing' | null>(null);
   const [translations, setTranslations] = useState<Record<string, TranslationEntry | undefined>>(
     {}
   );
@@ -184,6 +261,22 @@ export default function ChatScreen() {
   const [imageTimed, setImageTimed] = useState(false);
   const [previewSensitive, setPreviewSensitive] = useState(false);
   const [imageSourceSheetVisible, setImageSourceSheetVisible] = useState(false);
+  const [actionTarget, setActionTarget] = useState<ChatMessage | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [timerSheetVisible, setTimerSheetVisible] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  // Messaggio da raggiungere (citato o trovato con la ricerca): si caricano pagine più vecchie finché non compare
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const openedMessageIdRef = useRef<string | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState(0);
+  const { results: searchResults, loading: searching } = useMessageSearch(
+    user?.uid,
+    searchOpen ? searchQuery : '',
+    chatId
+  );
   const [viewImage, setViewImage] = useState<string | null>(null);
   const [viewImageVisible, setViewImageVisible] = useState(false);
   const [viewImageTimed, setViewImageTimed] = useState(false);
@@ -199,14 +292,20 @@ export default function ChatScreen() {
     pauseRecording,
     resumeRecording,
     cancelRecording,
-  } = useAudioRecorder(chatId, otherId, secretMode, handleSendMessage);
+  } = useAudioRecorder(chatId, otherId, secretMode, sendMessageWithReply);
 
   const { playingId, playbackStatus, handlePlayAudio, soundRef } = useAudioPlayer();
   
   const flatListRef = useRef<FlatList<ChatMessage>>(null);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const [chatMeta, setChatMeta] = useState<any | null>(null);
+  const scrollOffsetRef = useRef(0);
+  const contentHeightRef = useRef(0);
+  const nearBottomRef = useRef(true);
+  // Altezza e offset prima di caricare lo storico, per non far saltare la lista
+  const prependAnchorRef = useRef<{ height: number; offset: number } | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
   const readInFlightRef = useRef(false);
+  const receiptsInFlightRef = useRef(false);
   const lastMarkedRef = useRef(0);
   const expiryStartedRef = useRef<Set<string>>(new Set());
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
@@ -353,23 +452,111 @@ export default function ChatScreen() {
     }
   }, [chatBlocked]);
 
+  // Scorre in fondo solo quando arriva un messaggio nuovo, non quando si carica lo storico
+  const newestMessageId = chatData.length ? chatData[chatData.length - 1].id : null;
   useEffect(() => {
-    if (initialLoadDone) {
-        scheduleScroll(50);
+    if (!initialLoadDone || !newestMessageId) return;
+    if (newestMessageId === lastMessageIdRef.current) return;
+    lastMessageIdRef.current = newestMessageId;
+    scheduleScroll(50);
+  }, [newestMessageId, initialLoadDone, scheduleScroll]);
+
+  const handleListScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+      scrollOffsetRef.current = contentOffset.y;
+      nearBottomRef.current =
+        contentSize.height - (contentOffset.y + layoutMeasurement.height) < NEAR_BOTTOM_THRESHOLD;
+      if (contentOffset.y > LOAD_OLDER_THRESHOLD || !hasMoreOlder || loadingOlder) return;
+      if (prependAnchorRef.current) return;
+      prependAnchorRef.current = { height: contentSize.height, offset: contentOffset.y };
+      loadOlderMessages();
+    },
+    [hasMoreOlder, loadingOlder, loadOlderMessages]
+  );
+
+  const handleContentSizeChange = useCallback(
+    (_width: number, height: number) => {
+      const previousHeight = contentHeightRef.current;
+      contentHeightRef.current = height;
+      const pending = prependAnchorRef.current;
+      if (pending) {
+        if (height <= pending.height) return;
+        prependAnchorRef.current = null;
+        flatListRef.current?.scrollToOffset({
+          offset: pending.offset + (height - pending.height),
+          animated: false,
+        });
+        return;
+      }
+      if (nearBottomRef.current && height !== previousHeight) scheduleScroll(100);
+    },
+    [scheduleScroll]
+  );
+
+  useEffect(() => {
+    // Pagina vuota o errore: nessuna altezza nuova da compensare
+    if (!loadingOlder) {
+      const timeout = setTimeout(() => {
+        prependAnchorRef.current = null;
+      }, 1000);
+      return () => clearTimeout(timeout);
     }
-  }, [chatData.length, initialLoadDone, scheduleScroll]);
+  }, [loadingOlder]);
 
   // Carica metadata chat in background
   useEffect(() => {
     if (!chatId) return;
-    const unsub = onSnapshot(doc(db, 'chats', chatId), (snap) => {
-      setChatMeta(snap.exists() ? (snap.data() as any) : null);
-    });
+    const unsub = onSnapshot(
+      doc(db, 'chats', chatId),
+      (snap) => {
+        setChatMeta(snap.exists() ? (snap.data() as any) : null);
+      },
+      () => setChatMeta(null)
+    );
     return unsub;
   }, [chatId]);
 
+  const privacyPrefs = usePrivacyPrefs(user?.uid);
+  // Chi nasconde il proprio ultimo accesso non vede quello degli altri
+  const otherPresence = useUserPresence(otherId, !privacyPrefs.hideLastSeen);
+  const { otherTyping, notifyTyping, stopTyping } = useTypingIndicator(chatId, user?.uid, otherId);
+  const headerStatus = otherTyping
+    ? 'sta scrivendo…'
+    : otherPresence.online
+    ? 'Online'
+    : otherPresence.lastSeenAt
+    ? formatLastSeen(otherPresence.lastSeenAt)
+    : null;
+  const hasPendingReceipts = useMemo(
+    () =>
+      chatData.some(
+        (m) =>
+          m.senderId === otherId &&
+          (m.deliveredAt === null || (privacyPrefs.readReceipts && m.readAt === null))
+      ),
+    [chatData, otherId, privacyPrefs.readReceipts]
+  );
+
+  // Conferme per messaggio: lettura solo se l'utente non le ha disattivate
+  const sendReceiptsIfNeeded = useCallback(() => {
+    if (!chatId || !otherId || !hasPendingReceipts || receiptsInFlightRef.current) return;
+    receiptsInFlightRef.current = true;
+    const acknowledge = privacyPrefs.readReceipts ? markMessagesRead : markMessagesDelivered;
+    acknowledge(chatId, otherId)
+      .catch(() => {})
+      .finally(() => {
+        receiptsInFlightRef.current = false;
+      });
+  }, [chatId, otherId, hasPendingReceipts, privacyPrefs.readReceipts]);
+
   const markChatReadIfNeeded = useCallback(() => {
     if (!chatId || !user?.uid || !initialLoadDone) return;
+    sendReceiptsIfNeeded();
+    // Segnata come non letta dalla lista: aprirla la rimette a posto
+    if (getChatListState(chatMeta ?? {}, user.uid).markedUnread) {
+      setChatMarkedUnread(chatId, user.uid, false).catch(() => {});
+    }
     const lastMessage = [...chatData].reverse().find((m) => m.senderId);
     if (!lastMessage || lastMessage.senderId === user.uid) return;
     const lastTime =
@@ -391,12 +578,8 @@ export default function ChatScreen() {
       readInFlightRef.current = false;
       lastMarkedRef.current = lastTime;
     });
-  }, [chatId, user?.uid, chatData, chatMeta, initialLoadDone]);
+  }, [chatId, user?.uid, chatData, chatMeta, initialLoadDone, sendReceiptsIfNeeded]);
 
-  const cycleLang = useCallback((current: string) => {
-    const idx = TRANSLATION_LANG_OPTIONS.indexOf(current);
-    return TRANSLATION_LANG_OPTIONS[(idx + 1) % TRANSLATION_LANG_OPTIONS.length];
-  }, []);
 
   const getTargetLangForMessage = useCallback(
     (message: ChatMessage) =>
@@ -409,32 +592,46 @@ export default function ChatScreen() {
       if (!message.text || !message.id) return;
       if (translatingMap[message.id]) return;
       const targetLang = getTargetLangForMessage(message);
+      const sourceText = message.text;
+      // Traduzione già in cache sul documento: niente chiamata al server
+      const cached = message.translations?.[targetLang];
+      if (cached && cached.sourceText === sourceText.trim()) {
+        setTranslations((prev) => ({
+          ...prev,
+          [message.id]: {
+            text: cached.text,
+            target: targetLang,
+            source: sourceText,
+            detectedSource: cached.detectedSource,
+          },
+        }));
+        return;
+      }
       setTranslatingMap((prev) => ({ ...prev, [message.id]: true }));
       try {
-        const res = await fetch(
-          `https://translate.googleapis.com/translate_a/single?client=gtx&sl=auto&tl=${targetLang}&dt=t&q=${encodeURIComponent(
-            message.text
-          )}`
-        );
-        const data = await res.json();
-        const translated =
-          Array.isArray(data) && Array.isArray(data[0])
-            ? data[0].map((part: any) => part[0]).join('')
-            : null;
+        // I messaggi ancora in coda non hanno un documento: si traduce il solo testo
+        const result = message.deliveryState
+          ? await translatePlainText(sourceText, targetLang)
+          : await translateChatMessage(chatId!, message.id, targetLang);
         setTranslations((prev) => ({
           ...prev,
-          [message.id]: { text: translated, target: targetLang },
+          [message.id]: {
+            text: result.text,
+            target: targetLang,
+            source: sourceText,
+            detectedSource: result.detectedSource,
+          },
         }));
-      } catch (e) {
+      } catch {
         setTranslations((prev) => ({
           ...prev,
-          [message.id]: { text: null, target: targetLang },
+          [message.id]: { text: null, target: targetLang, source: message.text },
         }));
       } finally {
         setTranslatingMap((prev) => ({ ...prev, [message.id]: false }));
       }
     },
-    [translatingMap, getTargetLangForMessage]
+    [chatId, translatingMap, getTargetLangForMessage]
   );
 
   const translateAllMessages = useCallback(
@@ -445,7 +642,7 @@ export default function ChatScreen() {
           if (!m.text) return false;
           const desiredTarget = getTargetLangForMessage(m);
           const existing = translations[m.id];
-          return !existing || existing.target !== desiredTarget;
+          return !existing || existing.target !== desiredTarget || existing.source !== m.text;
         });
         for (const m of toTranslate) {
           // sequenziale per evitare rate limit
@@ -459,15 +656,12 @@ export default function ChatScreen() {
     [chatData, translations, translateText, getTargetLangForMessage]
   );
 
+  // All'attivazione ci pensa l'effetto di traduzione automatica qui sotto
   const handleToggleTranslateAll = useCallback(() => {
-    setTranslateAllEnabled((prev) => {
-      const next = !prev;
-      if (next) {
-        translateAllMessages();
-      }
-      return next;
+    updateTranslationPrefs({ autoTranslate: !translateAllEnabled }).catch(() => {
+      Alert.alert('Errore', 'Non sono riuscito a salvare la preferenza.');
     });
-  }, [translateAllMessages]);
+  }, [translateAllEnabled, updateTranslationPrefs]);
 
   useEffect(() => {
     if (initialLoadDone) {
@@ -482,7 +676,7 @@ export default function ChatScreen() {
       if (!m.text) return false;
       const desiredTarget = getTargetLangForMessage(m);
       const existing = translations[m.id];
-      return !existing || existing.target !== desiredTarget;
+      return !existing || existing.target !== desiredTarget || existing.source !== m.text;
     });
     if (!toTranslate.length) return;
     translateAllMessages();
@@ -490,18 +684,11 @@ export default function ChatScreen() {
 
   const translateOutgoingText = useCallback(async (text: string, target: string) => {
     try {
-      const res = await fetch(
-        `https://translate.googleapis.com/translate_a/single?client=gtx&sl=auto&tl=${target}&dt=t&q=${encodeURIComponent(
-          text
-        )}`
-      );
-      const data = await res.json();
-      const translated =
-        Array.isArray(data) && Array.isArray(data[0])
-          ? data[0].map((part: any) => part[0]).join('')
-          : null;
-      return translated || null;
-    } catch (e) {
+      const result = await translatePlainText(text, target);
+      // Già nella lingua di invio: si manda il testo così com'è
+      if (result.detectedSource === target) return null;
+      return result.text || null;
+    } catch {
       return null;
     }
   }, []);
@@ -526,6 +713,20 @@ export default function ChatScreen() {
     }
     const trimmed = input.trim();
     if (!trimmed) return;
+    if (editingMessage) {
+      const target = editingMessage;
+      setEditingMessage(null);
+      setInput('');
+      stopTyping();
+      if (!chatId || trimmed === target.text) return;
+      try {
+        await editMessage(chatId, target.id, trimmed);
+      } catch (e: any) {
+        const alert = getMessageEditErrorAlert(e, 'Non sono riuscito a modificare il messaggio.');
+        Alert.alert(alert.title, alert.message);
+      }
+      return;
+    }
     let textToSend = trimmed;
     if (translateAllEnabled) {
       const translated = await translateOutgoingText(trimmed, outgoingTargetLang);
@@ -534,7 +735,8 @@ export default function ChatScreen() {
       }
     }
     setInput('');
-    handleSendMessage({ text: textToSend }, secretMode);
+    stopTyping();
+    sendMessageWithReply({ text: textToSend }, secretMode);
   };
 
   const openImageSourceSheet = useCallback(() => {
@@ -565,9 +767,9 @@ export default function ChatScreen() {
   );
 
   const processImageAsset = useCallback(async (asset: ImagePicker.ImagePickerAsset) => {
-    const dataUrl = await buildCompressedDataUrl(asset);
-    if (!dataUrl) {
-      Alert.alert('Foto troppo grande', 'Riduci la dimensione o scatta una foto meno pesante.');
+    const imageUri = await prepareImageForUpload(asset);
+    if (!imageUri) {
+      Alert.alert('Errore', 'Non sono riuscito a leggere la foto.');
       return;
     }
     let sensitive = false;
@@ -582,7 +784,7 @@ export default function ChatScreen() {
       sensitive = false;
     }
     setImageTimed(false);
-    setPreviewImage(dataUrl);
+    setPreviewImage(imageUri);
     setPreviewSensitive(sensitive);
     setPreviewVisible(true);
   }, []);
@@ -642,7 +844,7 @@ export default function ChatScreen() {
     setSendingImage(true);
 
     try {
-      await handleSendMessage(
+      await sendMessageWithReply(
         { image: imageUri, sensitive },
         timed || secretMode
       );
@@ -679,7 +881,7 @@ export default function ChatScreen() {
         lat: pos.coords.latitude,
         lng: pos.coords.longitude,
       };
-      await handleSendMessage(
+      await sendMessageWithReply(
         {
           location: coords,
         },
@@ -693,10 +895,11 @@ export default function ChatScreen() {
   };
 
   const handleDeleteChat = async () => {
-    if (!chatId) return;
+    if (!chatId || !user?.uid) return;
+    const userId = user.uid;
     Alert.alert(
       'Elimina chat',
-      'Vuoi eliminare tutta la conversazione? L\'operazione non può essere annullata.',
+      "Vuoi eliminare la conversazione? Sparisce solo per te: l'altra persona continua a vedere tutti i messaggi.",
       [
         { text: 'Annulla', style: 'cancel' },
         {
@@ -705,13 +908,9 @@ export default function ChatScreen() {
           onPress: async () => {
             setDeletingChat(true);
             try {
-              const msgsSnap = await getDocs(collection(db, 'chats', chatId, 'messages'));
-              await Promise.all(
-                msgsSnap.docs.map((d) => deleteDoc(doc(db, 'chats', chatId, 'messages', d.id)))
-              );
-              await deleteDoc(doc(db, 'chats', chatId));
+              await clearChatForUser(chatId, userId);
               router.back();
-            } catch (e) {
+            } catch {
               Alert.alert('Errore', 'Non sono riuscito a eliminare la chat. Riprova.');
             } finally {
               setDeletingChat(false);
@@ -722,6 +921,20 @@ export default function ChatScreen() {
     );
   };
 
+  const disappearingAfter = parseDisappearingTimer(chatMeta?.disappearingAfter);
+
+  const handleSelectDisappearingTimer = useCallback(
+    (value: DisappearingTimer) => {
+      if (!chatId || !user?.uid || !otherId) return;
+      // Stessa durata: niente messaggio di sistema da annunciare
+      if (value === disappearingAfter) return;
+      setChatDisappearingTimer(chatId, user.uid, otherId, value).catch(() => {
+        Alert.alert('Errore', 'Non sono riuscito a cambiare i messaggi effimeri.');
+      });
+    },
+    [chatId, user?.uid, otherId, disappearingAfter]
+  );
+
   const handleToggleBlock = useCallback(() => {
     if (!chatId || !user?.uid || !otherId) return;
     if (blockingUser) return;
@@ -738,36 +951,13 @@ export default function ChatScreen() {
         onPress: async () => {
           setBlockingUser(true);
           try {
-            await Promise.all([
-              setDoc(
-                doc(db, 'chats', chatId),
-                {
-                  blockedBy: {
-                    [user.uid]: nextBlocked ? serverTimestamp() : deleteField(),
-                  },
-                },
-                { merge: true }
-              ),
-              setDoc(
-                doc(db, 'profiles', user.uid),
-                {
-                  blocked: nextBlocked ? arrayUnion(otherId) : arrayRemove(otherId),
-                },
-                { merge: true }
-              ),
-              setDoc(
-                doc(db, 'profiles', otherId),
-                {
-                  blockedBy: nextBlocked ? arrayUnion(user.uid) : arrayRemove(user.uid),
-                },
-                { merge: true }
-              ),
-            ]);
+            await (nextBlocked ? blockUser(otherId) : unblockUser(otherId));
             if (nextBlocked) {
               router.back();
             }
-          } catch (e) {
-            Alert.alert('Errore', 'Operazione non riuscita, riprova.');
+          } catch (error) {
+            const alert = getBlockErrorAlert(error, 'Operazione non riuscita, riprova.');
+            Alert.alert(alert.title, alert.message);
           } finally {
             setBlockingUser(false);
           }
@@ -789,7 +979,7 @@ export default function ChatScreen() {
       if (!chatId || !user?.uid) return;
       if (!message.expiresAfterView) return;
       if (message.senderId === user.uid) return;
-      if (message.id.startsWith('local-')) return;
+      if (message.deliveryState) return;
       if (expiryStartedRef.current.has(message.id)) return;
 
       expiryStartedRef.current.add(message.id);
@@ -891,12 +1081,162 @@ export default function ChatScreen() {
     }
   }, [viewImageVisible, viewImageTimed, viewImageCountdown]);
 
-  const handleDeleteMessage = useCallback(
+  // Annulla l'invio per entrambi: al posto del messaggio resta una bolla "eliminato"
+  const handleUnsendMessage = useCallback(
     (message: ChatMessage) => {
-      if (!chatId || message.id.startsWith('local-')) return;
-      deleteDoc(doc(db, 'chats', chatId, 'messages', message.id)).catch(() => {});
+      if (!chatId) return;
+      if (message.deliveryState) {
+        discardMessage(message.id);
+        return;
+      }
+      Alert.alert('Annullare l\'invio?', 'Il messaggio verrà eliminato per entrambi.', [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina per tutti',
+          style: 'destructive',
+          onPress: () => {
+            unsendMessage(chatId, message.id).catch((e) => {
+              const alert = getMessageEditErrorAlert(e, 'Non sono riuscito a eliminare il messaggio.');
+              Alert.alert(alert.title, alert.message);
+            });
+          },
+        },
+      ]);
+    },
+    [chatId, discardMessage]
+  );
+
+  const handleStartEditMessage = useCallback((message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInput(message.text ?? '');
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingMessage(null);
+    setInput('');
+  }, []);
+
+  const handleLongPressMessage = useCallback((message: ChatMessage) => {
+    setActionTarget(message);
+  }, []);
+
+  const handleToggleReaction = useCallback(
+    (message: ChatMessage, emoji: string) => {
+      if (!chatId || !user?.uid) return;
+      toggleReaction(
+        doc(db, 'chats', chatId, 'messages', message.id),
+        user.uid,
+        emoji,
+        message.reactions
+      ).catch(() => {
+        Alert.alert('Errore', 'Non sono riuscito a salvare la reazione.');
+      });
+    },
+    [chatId, user?.uid]
+  );
+
+  const getUserName = useCallback(
+    (userId: string) => (userId === user?.uid ? 'Tu' : otherName || 'Utente'),
+    [user?.uid, otherName]
+  );
+
+  const handleReplyToMessage = useCallback((message: ChatMessage) => {
+    setEditingMessage(null);
+    setReplyingTo(buildReplySnapshot(message));
+  }, []);
+
+  const jumpToMessage = useCallback((messageId: string) => {
+    // Si ferma l'aggancio al fondo: la lista deve restare sul messaggio cercato
+    nearBottomRef.current = false;
+    setJumpTargetId(messageId);
+  }, []);
+
+  const handlePressReply = useCallback(
+    (replyTo: ReplyTo) => jumpToMessage(replyTo.id),
+    [jumpToMessage]
+  );
+
+  // Aperta da un risultato della ricerca nella lista chat
+  useEffect(() => {
+    if (!initialLoadDone || !messageIdParam) return;
+    if (openedMessageIdRef.current === messageIdParam) return;
+    openedMessageIdRef.current = messageIdParam;
+    jumpToMessage(String(messageIdParam));
+  }, [initialLoadDone, messageIdParam, jumpToMessage]);
+
+  // Risultati dal più recente: a ogni nuova ricerca si parte dal primo
+  useEffect(() => {
+    setSearchIndex(0);
+    if (searchResults.length) jumpToMessage(searchResults[0].messageId);
+  }, [searchResults, jumpToMessage]);
+
+  const goToSearchResult = useCallback(
+    (index: number) => {
+      const result = searchResults[index];
+      if (!result) return;
+      setSearchIndex(index);
+      jumpToMessage(result.messageId);
     },
-    [chatId]
+    [searchResults, jumpToMessage]
+  );
+
+  const closeSearch = useCallback(() => {
+    setSearchOpen(false);
+    setSearchQuery('');
+  }, []);
+
+  useEffect(() => {
+    if (!jumpTargetId) return;
+    const index = chatData.findIndex((m) => m.id === jumpTargetId);
+    if (index >= 0) {
+      setJumpTargetId(null);
+      setHighlightedId(jumpTargetId);
+      // Dopo il layout della pagina appena caricata
+      setTimeout(() => {
+        flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      }, 80);
+      return;
+    }
+    if (loadingOlder) return;
+    if (!hasMoreOlder) {
+      setJumpTargetId(null);
+      Alert.alert('Messaggio non disponibile', 'Il messaggio è stato eliminato o non è più visibile.');
+      return;
+    }
+    // Nessuna compensazione: alla fine si scorre comunque fino al messaggio trovato
+    loadOlderMessages();
+  }, [jumpTargetId, chatData, loadingOlder, hasMoreOlder, loadOlderMessages]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), REPLY_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Altezze variabili: prima ci si avvicina con una stima, poi si riprova con l'indice
+  const handleScrollToIndexFailed = useCallback(
+    (info: { index: number; averageItemLength: number }) => {
+      flatListRef.current?.scrollToOffset({
+        offset: info.averageItemLength * info.index,
+        animated: false,
+      });
+      setTimeout(() => {
+        flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+      }, 120);
+    },
+    []
+  );
+
+  const handleRetryMessage = useCallback(
+    (message: ChatMessage) => {
+      Alert.alert('Messaggio non inviato', 'Vuoi riprovare a inviarlo?', [
+        { text: 'Annulla', style: 'cancel' },
+        { text: 'Elimina', style: 'destructive', onPress: () => discardMessage(message.id) },
+        { text: 'Riprova', onPress: () => retryMessage(message.id) },
+      ]);
+    },
+    [discardMessage, retryMessage]
   );
 
   const openImageWithExpiry = (message: ChatMessage) => {
@@ -929,6 +1269,53 @@ export default function ChatScreen() {
     openImageWithExpiry(message);
   };
 
+  const messageActions = useMemo<MessageAction[]>(() => {
+    if (!actionTarget) return [];
+    const actions: MessageAction[] = [
+      {
+        key: 'reply',
+        label: 'Rispondi',
+        icon: 'arrow-undo-outline',
+        onPress: () => handleReplyToMessage(actionTarget),
+      },
+    ];
+    if (canEditMessage(actionTarget, user?.uid)) {
+      actions.push({
+        key: 'edit',
+        label: 'Modifica',
+        icon: 'create-outline',
+        onPress: () => handleStartEditMessage(actionTarget),
+      });
+    }
+    if (canUnsendMessage(actionTarget, user?.uid)) {
+      actions.push({
+        key: 'unsend',
+        label: 'Elimina per tutti',
+        icon: 'trash-outline',
+        destructive: true,
+        onPress: () => handleUnsendMessage(actionTarget),
+      });
+    }
+    if (chatId && actionTarget.senderId !== user?.uid && !actionTarget.deliveryState) {
+      actions.push({
+        key: 'report',
+        label: 'Segnala',
+        icon: 'flag-outline',
+        destructive: true,
+        onPress: () =>
+          setReportTarget({ targetType: 'chatMessage', chatId, messageId: actionTarget.id }),
+      });
+    }
+    return actions;
+  }, [
+    actionTarget,
+    chatId,
+    user?.uid,
+    handleReplyToMessage,
+    handleStartEditMessage,
+    handleUnsendMessage,
+  ]);
+
   const renderItem = ({ item }: { item: ChatMessage }) => {
     const isMine = item.senderId === user?.uid;
     return (
@@ -937,6 +1324,8 @@ export default function ChatScreen() {
         isMine={isMine}
         chatMeta={chatMeta}
         otherId={otherId}
+        myId={user?.uid}
+        readReceiptsEnabled={privacyPrefs.readReceipts}
         palette={palette}
         translations={translations}
         translatingMap={translatingMap}
@@ -951,6 +1340,13 @@ export default function ChatScreen() {
         getTargetLangForMessage={getTargetLangForMessage}
         handlePlayAudio={handlePlayAudio}
         handleOpenImageMessage={handleOpenImageMessage}
+        handleRetryMessage={handleRetryMessage}
+        handleLongPressMessage={handleLongPressMessage}
+        handleToggleReaction={handleToggleReaction}
+        getUserName={getUserName}
+        handleReplyToMessage={handleReplyToMessage}
+        handlePressReply={handlePressReply}
+        highlighted={highlightedId === item.id}
         translateAllEnabled={translateAllEnabled}
         ParticleEffect={ParticleEffect}
       />
@@ -985,9 +1381,16 @@ export default function ChatScreen() {
             <Text style={[styles.headerTitle, { color: palette.text }]}>
               {otherName || 'Chat'}
             </Text>
-            <Text style={[styles.headerSubtitle, { color: palette.muted }]}>
-              Online
-            </Text>
+            {headerStatus ? (
+              <Text
+                style={[
+                  styles.headerSubtitle,
+                  { color: otherTyping ? palette.tint : palette.muted },
+                ]}
+              >
+                {headerStatus}
+              </Text>
+            ) : null}
           </View>
         </View>
       </View>
@@ -1017,6 +1420,32 @@ export default function ChatScreen() {
           )}
         </Pressable>
 
+        <Pressable
+          style={[
+            styles.iconButton,
+            { backgroundColor: searchOpen ? `${palette.tint}22` : palette.card },
+          ]}
+          onPress={() => (searchOpen ? closeSearch() : setSearchOpen(true))}
+          accessibilityLabel="Cerca nella chat"
+        >
+          <Ionicons name="search" size={20} color={searchOpen ? palette.tint : palette.text} />
+        </Pressable>
+
+        <Pressable
+          style={[
+            styles.iconButton,
+            { backgroundColor: disappearingAfter ? `${palette.tint}22` : palette.card },
+          ]}
+          onPress={() => setTimerSheetVisible(true)}
+          accessibilityLabel="Messaggi effimeri"
+        >
+          <Ionicons
+            name="timer-outline"
+            size={20}
+            color={disappearingAfter ? palette.tint : palette.text}
+          />
+        </Pressable>
+
         <Pressable
           style={[styles.iconButton, { backgroundColor: palette.card }]}
           onPress={handleDeleteChat}
@@ -1039,6 +1468,65 @@ export default function ChatScreen() {
     >
       {renderHeader()}
 
+      {searchOpen && (
+        <View
+          style={[
+            styles.searchBar,
+            { backgroundColor: palette.background, borderBottomColor: palette.border },
+          ]}
+        >
+          <View
+            style={[
+              styles.searchField,
+              { backgroundColor: palette.card, borderColor: palette.border },
+            ]}
+          >
+            <Ionicons name="search" size={16} color={palette.muted} />
+            <TextInput
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Cerca nei messaggi"
+              placeholderTextColor={palette.muted}
+              style={[styles.searchInput, { color: palette.text }]}
+              autoFocus
+              autoCorrect={false}
+              autoCapitalize="none"
+              returnKeyType="search"
+            />
+            {searching ? <ActivityIndicator size="small" color={palette.muted} /> : null}
+          </View>
+          <Text style={[styles.searchCount, { color: palette.muted }]}>
+            {searchResults.length ? `${searchIndex + 1}/${searchResults.length}` : '0/0'}
+          </Text>
+          {/* Su: messaggio più vecchio, giù: più recente */}
+          <Pressable
+            onPress={() => goToSearchResult(searchIndex + 1)}
+            disabled={searchIndex >= searchResults.length - 1}
+            hitSlop={6}
+          >
+            <Ionicons
+              name="chevron-up"
+              size={22}
+              color={searchIndex >= searchResults.length - 1 ? palette.border : palette.text}
+            />
+          </Pressable>
+          <Pressable
+            onPress={() => goToSearchResult(searchIndex - 1)}
+            disabled={searchIndex <= 0}
+            hitSlop={6}
+          >
+            <Ionicons
+              name="chevron-down"
+              size={22}
+              color={searchIndex <= 0 ? palette.border : palette.text}
+            />
+          </Pressable>
+          <Pressable onPress={closeSearch} hitSlop={6}>
+            <Text style={[styles.searchClose, { color: palette.tint }]}>Fine</Text>
+          </Pressable>
+        </View>
+      )}
+
       <KeyboardAvoidingView
         style={styles.flex}
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -1055,7 +1543,18 @@ export default function ChatScreen() {
           ]}
           style={styles.flex}
           showsVerticalScrollIndicator={false}
-          onContentSizeChange={() => scheduleScroll(100)}
+          onContentSizeChange={handleContentSizeChange}
+          onScroll={handleListScroll}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
+          scrollEventThrottle={100}
+          ListHeaderComponent={
+            hasMoreOlder || loadingOlder ? (
+              // Altezza fissa: lo spinner non deve spostare la lista mentre si compensa lo scroll
+              <View style={styles.olderLoader}>
+                {loadingOlder ? <ActivityIndicator size="small" color={palette.muted} /> : null}
+              </View>
+            ) : null
+          }
           initialNumToRender={15}
           maxToRenderPerBatch={10}
           windowSize={7}
@@ -1193,6 +1692,95 @@ export default function ChatScreen() {
               </View>
             )}
 
+            {mediaUpload && (
+              <View
+                style={[
+                  styles.secretBanner,
+                  {
+                    backgroundColor: `${palette.tint}12`,
+                    borderColor: palette.tint,
+                  },
+                ]}
+              >
+                <Ionicons
+                  name={mediaUpload.kind === 'image' ? 'image-outline' : 'mic-outline'}
+                  size={16}
+                  color={palette.tint}
+                />
+                <View style={styles.uploadInfo}>
+                  <Text style={[styles.secretBannerText, { color: palette.text }]}>
+                    {`Invio ${mediaUpload.kind === 'image' ? 'foto' : 'audio'}… ${Math.round(mediaUpload.progress * 100)}%`}
+                  </Text>
+                  <View style={[styles.uploadTrack, { backgroundColor: `${palette.tint}25` }]}>
+                    <View
+                      style={[
+                        styles.uploadFill,
+                        {
+                          width: `${Math.round(mediaUpload.progress * 100)}%`,
+                          backgroundColor: palette.tint,
+                        },
+                      ]}
+                    />
+                  </View>
+                </View>
+                <Pressable onPress={cancelMediaUpload} hitSlop={8}>
+                  <Ionicons name="close" size={18} color={palette.muted} />
+                </Pressable>
+              </View>
+            )}
+
+            {editingMessage && (
+              <View
+                style={[
+                  styles.secretBanner,
+                  {
+                    backgroundColor: palette.card,
+                    borderColor: palette.border,
+                  },
+                ]}
+              >
+                <Ionicons name="create-outline" size={16} color={palette.tint} />
+                <View style={styles.uploadInfo}>
+                  <Text style={[styles.secretBannerText, { color: palette.tint }]}>
+                    Modifica messaggio
+                  </Text>
+                  <Text style={[styles.secretBannerText, { color: palette.muted }]} numberOfLines={1}>
+                    {editingMessage.text}
+                  </Text>
+                </View>
+                <Pressable onPress={handleCancelEdit} hitSlop={8}>
+                  <Ionicons name="close" size={18} color={palette.muted} />
+                </Pressable>
+              </View>
+            )}
+
+            {replyingTo && (
+              <View
+                style={[
+                  styles.secretBanner,
+                  {
+                    backgroundColor: palette.card,
+                    borderColor: palette.border,
+                  },
+                ]}
+              >
+                <Ionicons name="arrow-undo" size={16} color={palette.tint} />
+                <View style={styles.uploadInfo}>
+                  <ReplyQuote
+                    replyTo={replyingTo}
+                    authorName={getUserName(replyingTo.senderId)}
+                    accentColor={palette.tint}
+                    textColor={palette.muted}
+                    backgroundColor={`${palette.tint}12`}
+                    onPress={() => handlePressReply(replyingTo)}
+                  />
+                </View>
+                <Pressable onPress={() => setReplyingTo(null)} hitSlop={8}>
+                  <Ionicons name="close" size={18} color={palette.muted} />
+                </Pressable>
+              </View>
+            )}
+
             <View style={styles.inputRow}>
               <Pressable
                 style={[styles.menuButton, { 
@@ -1210,7 +1798,10 @@ export default function ChatScreen() {
 
               <TextInput
                 value={input}
-                onChangeText={setInput}
+                onChangeText={(text) => {
+                  setInput(text);
+                  notifyTyping(text);
+                }}
                 placeholder={isRecording ? '' : 'messaggio..'}
                 placeholderTextColor={palette.muted}
                 style={[styles.textInput, { 
@@ -1251,14 +1842,9 @@ export default function ChatScreen() {
                     pressed && styles.sendButtonPressed,
                   ]}
                   onPress={handleSend}
-                  disabled={sending}
                 >
                   <View style={[styles.sendButtonInner, { backgroundColor: palette.tint }]}>
-                    {sending ? (
-                      <ActivityIndicator color="#fff" size="small" />
-                    ) : (
-                      <Ionicons name="send" size={20} color="#fff" />
-                    )}
+                    <Ionicons name="send" size={20} color="#fff" />
                   </View>
                 </Pressable>
               ) : (
@@ -1320,6 +1906,32 @@ export default function ChatScreen() {
         </View>
       </KeyboardAvoidingView>
 
+      <DisappearingTimerSheet
+        visible={timerSheetVisible}
+        palette={palette}
+        value={disappearingAfter}
+        onSelect={handleSelectDisappearingTimer}
+        onClose={() => setTimerSheetVisible(false)}
+      />
+
+      <MessageActionsSheet
+        visible={!!actionTarget}
+        palette={palette}
+        selectedEmoji={user?.uid ? actionTarget?.reactions?.[user.uid] : null}
+        actions={messageActions}
+        onReact={(emoji) => {
+          if (actionTarget) handleToggleReaction(actionTarget, emoji);
+        }}
+        onClose={() => setActionTarget(null)}
+      />
+
+      <ReportSheet
+        target={reportTarget}
+        title="Segnala messaggio"
+        palette={palette}
+        onClose={() => setReportTarget(null)}
+      />
+
       <Modal
         visible={translationSettingsVisible}
         transparent
@@ -1364,7 +1976,7 @@ export default function ChatScreen() {
 
             <Pressable
               style={styles.translationModalRow}
-              onPress={() => setIncomingTargetLang((prev) => cycleLang(prev))}
+              onPress={() => setLangPicker((prev) => (prev === 'incoming' ? null : 'incoming'))}
             >
               <View style={styles.translationModalLabelWrap}>
                 <Text style={[styles.translationModalLabel, { color: palette.text }]}>
@@ -1381,14 +1993,24 @@ export default function ChatScreen() {
                 ]}
               >
                 <Text style={[styles.translationModalLabel, { color: palette.text }]}>
-                  {incomingTargetLang.toUpperCase()}
+                  {getLanguageLabel(incomingTargetLang)}
                 </Text>
               </View>
             </Pressable>
+            {langPicker === 'incoming' && (
+              <LanguageChips
+                selected={incomingTargetLang}
+                palette={palette}
+                onSelect={(code) => {
+                  updateTranslationPrefs({ incoming: code }).catch(() => {});
+                  setLangPicker(null);
+                }}
+              />
+            )}
 
             <Pressable
               style={styles.translationModalRow}
-              onPress={() => setOutgoingTargetLang((prev) => cycleLang(prev))}
+              onPress={() => setLangPicker((prev) => (prev === 'outgoing' ? null : 'outgoing'))}
             >
               <View style={styles.translationModalLabelWrap}>
                 <Text style={[styles.translationModalLabel, { color: palette.text }]}>
@@ -1405,10 +2027,20 @@ export default function ChatScreen() {
                 ]}
               >
                 <Text style={[styles.translationModalLabel, { color: palette.text }]}>
-                  {outgoingTargetLang.toUpperCase()}
+                  {getLanguageLabel(outgoingTargetLang)}
                 </Text>
               </View>
             </Pressable>
+            {langPicker === 'outgoing' && (
+              <LanguageChips
+                selected={outgoingTargetLang}
+                palette={palette}
+                onSelect={(code) => {
+                  updateTranslationPrefs({ outgoing: code }).catch(() => {});
+                  setLangPicker(null);
+                }}
+              />
+            )}
           </View>
         </View>
       </Modal>
@@ -1700,11 +2332,48 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  searchField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+  searchCount: {
+    fontSize: 12,
+    fontWeight: '600',
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  searchClose: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
   listContent: {
     paddingHorizontal: 12,
     paddingTop: 10,
     paddingBottom: 20,
   },
+  olderLoader: {
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   listContentEmpty: {
     flexGrow: 1,
     justifyContent: 'center',
@@ -1786,6 +2455,19 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     flex: 1,
   },
+  uploadInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  uploadTrack: {
+    height: 3,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  uploadFill: {
+    height: 3,
+    borderRadius: 2,
+  },
   inputRow: {
     flexDirection: 'row',
     alignItems: 'flex-end',
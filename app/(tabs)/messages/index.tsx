@@ -5,24 +5,46 @@ import { useNavigation } from '@react-navigation/native';
 import {
   collection,
   doc,
-  arrayRemove,
-  arrayUnion,
   getDoc,
   onSnapshot,
   query,
-  serverTimestamp,
-  setDoc,
   updateDoc,
   where,
 } from 'firebase/firestore';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { ActivityIndicator, FlatList, Pressable, StyleSheet, Text, View, useColorScheme } from 'react-native';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
-import { useProfile } from '@/hooks/use-profile';
+import { useMessageSearch } from '@/hooks/use-message-search';
+import {
+  compareChatsForList,
+  getChatListState,
+  isChatCleared,
+  isChatMuted,
+  isChatUnread,
+  markChatOpened,
+  MUTE_OPTIONS,
+  setChatArchived,
+  setChatMarkedUnread,
+  setChatMuted,
+  setChatPinned,
+} from '@/lib/chat-list';
 import { db } from '@/lib/firebase';
+import { matchesSearch, normalizeSearchText, type MessageSearchHit } from '@/lib/search';
+import { getTapErrorAlert, respondToTap, type TapResponse } from '@/lib/taps';
+import { SwipeableChatRow } from '@/components/messages/SwipeableChatRow';
 
 type ChatPreview = {
   id: string;
@@ -34,6 +56,7 @@ type ChatPreview = {
   photos?: Record<string, string>;
   blockedBy?: Record<string, any>;
   readBy?: Record<string, any>;
+  listState?: Record<string, any>;
 };
 
 type ProfilePreview = {
@@ -59,7 +82,6 @@ export default function MessagesListScreen() {
   const { user } = useAuth();
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const { profile: myProfile } = useProfile(user?.uid);
   const { tab } = useLocalSearchParams<{ tab?: string }>();
   const navigation = useNavigation();
   const [chats, setChats] = useState<ChatPreview[]>([]);
@@ -79,7 +101,13 @@ export default function MessagesListScreen() {
   const [tapResponsesSeenIds, setTapResponsesSeenIds] = useState<string[]>([]);
   const [respondingInterest, setRespondingInterest] = useState<Record<string, boolean>>({});
   const [isScreenFocused, setIsScreenFocused] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
   const resetGuardRef = useRef(false);
+  const { results: messageHits, loading: searchingMessages } = useMessageSearch(
+    user?.uid,
+    searchText
+  );
 
   useFocusEffect(
     useCallback(() => {
@@ -99,6 +127,8 @@ export default function MessagesListScreen() {
       return () => {
         setIsScreenFocused(false);
         setActiveTab('chats');
+        setSearchText('');
+        setShowArchived(false);
         resetGuardRef.current = false;
       };
     }, [navigation])
@@ -123,16 +153,12 @@ export default function MessagesListScreen() {
         ...doc.data()
       } as ChatPreview));
 
-      // Ordina per data di aggiornamento
-      chatList.sort((a, b) => {
-        const aTime = a.updatedAt?.toDate ? a.updatedAt.toDate().getTime() : 0;
-        const bTime = b.updatedAt?.toDate ? b.updatedAt.toDate().getTime() : 0;
-        return bTime - aTime;
-      });
+      // Fissate in alto, poi per data di aggiornamento
+      chatList.sort((a, b) => compareChatsForList(a, b, user.uid));
 
       const visible = chatList.filter((c) => {
         const blocked = c.blockedBy && Object.keys(c.blockedBy).length > 0;
-        return !blocked;
+        return !blocked && !isChatCleared(c, user.uid);
       });
 
       setChats(visible);
@@ -302,73 +328,52 @@ export default function MessagesListScreen() {
 
   const handleInterestResponse = async (
     target: ProfilePreview,
-    response: 'no' | 'match' | 'maybe'
+    response: TapResponse
   ) => {
     if (!user?.uid) return;
     if (respondingInterest[target.id]) return;
     setRespondingInterest((prev) => ({ ...prev, [target.id]: true }));
     try {
-      const myUpdates: Record<string, any> = {
-        interestedBy: arrayRemove(target.id),
-        interestsSeen: arrayRemove(target.id),
-      };
-      const targetUpdates: Record<string, any> = {
-        interested: arrayRemove(user.uid),
-      };
-      targetUpdates[`tapResponses.${user.uid}`] = response;
-      targetUpdates.tapResponsesSeen = arrayRemove(user.uid);
-      if (response === 'match') {
-        myUpdates.matches = arrayUnion(target.id);
-        targetUpdates.matches = arrayUnion(user.uid);
-      }
-      await Promise.all([
-        updateDoc(doc(db, 'profiles', user.uid), myUpdates),
-        updateDoc(doc(db, 'profiles', target.id), targetUpdates),
-      ]);
-      if (response === 'match') {
-        const chatId = [user.uid, target.id].sort().join('_');
-        const myName = myProfile?.name || user.displayName || 'Utente';
-        const myPhoto = myProfile?.photo || (myProfile as any)?.photos?.[0] || '';
-        const otherName = target.name || 'Utente';
-        const otherPhoto = target.photo || '';
-        const messageText = 'Match confermato!';
-        await setDoc(
-          doc(db, 'chats', chatId),
-          {
-            participants: [user.uid, target.id],
-            updatedAt: serverTimestamp(),
-            lastMessage: messageText,
-            lastSender: user.uid,
-            names: {
-              [target.id]: otherName,
-              [user.uid]: myName,
-            },
-            photos: {
-              [target.id]: otherPhoto,
-              [user.uid]: myPhoto,
-            },
-          },
-          { merge: true }
-        );
-        await setDoc(
-          doc(db, 'chats', chatId, 'messages', `match-${chatId}`),
-          {
-            id: `match-${chatId}`,
-            text: messageText,
-            senderId: user.uid,
-            createdAt: serverTimestamp(),
-          },
-          { merge: true }
-        );
-      }
+      // Profili, chat e messaggio di match vengono aggiornati insieme dal server
+      await respondToTap(target.id, response);
       setInterests((prev) => prev.filter((item) => item.id !== target.id));
     } catch (e) {
-      // noop
+      const { title, message } = getTapErrorAlert(e, 'Non sono riuscito a rispondere al tap.');
+      Alert.alert(title, message);
     } finally {
       setRespondingInterest((prev) => ({ ...prev, [target.id]: false }));
     }
   };
 
+  const runListAction = (action: () => Promise<void>) => {
+    if (!user?.uid) return;
+    action().catch(() => Alert.alert('Errore', 'Non sono riuscito ad aggiornare la chat.'));
+  };
+
+  const toggleUnread = (item: ChatPreview, hasUnread: boolean) => {
+    if (!user?.uid) return;
+    const uid = user.uid;
+    runListAction(() =>
+      hasUnread ? markChatOpened(item.id, uid) : setChatMarkedUnread(item.id, uid, true)
+    );
+  };
+
+  const handleMute = (item: ChatPreview, muted: boolean) => {
+    if (!user?.uid) return;
+    const uid = user.uid;
+    if (muted) {
+      runListAction(() => setChatMuted(item.id, uid, false));
+      return;
+    }
+    Alert.alert('Silenzia chat', 'Non riceverai notifiche per questa conversazione.', [
+      ...MUTE_OPTIONS.map((option) => ({
+        text: option.label,
+        onPress: () => runListAction(() => setChatMuted(item.id, uid, option.value)),
+      })),
+      { text: 'Annulla', style: 'cancel' as const },
+    ]);
+  };
+
   const renderChatItem = ({ item }: { item: ChatPreview }) => {
     const otherId = item.participants.find(id => id !== user?.uid);
     const otherName = item.names?.[otherId || ''] || 'Utente';
@@ -388,105 +393,141 @@ export default function MessagesListScreen() {
       }
     }
 
-    const hasUnread = (() => {
-      if (!item.lastSender || item.lastSender === user?.uid) return false;
-      const updated = item.updatedAt?.toDate ? item.updatedAt.toDate().getTime() : 0;
-      const read = item.readBy?.[user?.uid || '']?.toDate
-        ? item.readBy[user?.uid || ''].toDate().getTime()
-        : 0;
-      if (!updated) return true;
-      return updated > read;
-    })();
+    const hasUnread = isChatUnread(item, user?.uid);
+    const listState = getChatListState(item, user?.uid);
+    const muted = isChatMuted(listState);
 
     return (
-      <Pressable
-        onPress={() => {
-          if (openingChatId === item.id) return;
-          setOpeningChatId(item.id);
-
-          // Segna come letto se non l'hai già fatto
-          if (hasUnread && user?.uid) {
-            setDoc(
-              doc(db, 'chats', item.id),
-              { readBy: { [user.uid]: serverTimestamp() } },
-              { merge: true }
-            );
-          }
-          
-          // Naviga alla chat
-          router.push({
-            pathname: `/messages/${otherId}`,
-            params: { 
-              name: otherName, 
-              photo: otherPhoto, 
-              chatId: item.id 
-            }
-          });
+      <SwipeableChatRow
+        style={styles.chatRow}
+        leadingAction={{
+          key: 'unread',
+          label: hasUnread ? 'Letta' : 'Non letta',
+          icon: hasUnread ? 'mail-open-outline' : 'mail-unread-outline',
+          color: palette.tint,
+          onPress: () => toggleUnread(item, hasUnread),
         }}
+        trailingActions={[
+          {
+            key: 'pin',
+            label: listState.pinned ? 'Non fissare' : 'Fissa',
+            icon: 'pin-outline',
+            color: '#f59e0b',
+            onPress: () => runListAction(() => setChatPinned(item.id, user!.uid, !listState.pinned)),
+          },
+          {
+            key: 'mute',
+            label: muted ? 'Riattiva' : 'Silenzia',
+            icon: muted ? 'notifications-outline' : 'notifications-off-outline',
+            color: '#6366f1',
+            onPress: () => handleMute(item, muted),
+          },
+          {
+            key: 'archive',
+            label: listState.archived ? 'Ripristina' : 'Archivia',
+            icon: listState.archived ? 'arrow-undo-outline' : 'archive-outline',
+            color: '#64748b',
+            onPress: () =>
+              runListAction(() => setChatArchived(item.id, user!.uid, !listState.archived)),
+          },
+        ]}
       >
-        {({ pressed }) => (
-          <View style={[
-            styles.chatCard,
-            {
-              backgroundColor: palette.card,
-              borderColor: palette.border,
-              opacity: pressed ? 0.9 : 1,
-              transform: [{ scale: pressed ? 0.98 : 1 }],
+        <Pressable
+          onPress={() => {
+            if (openingChatId === item.id) return;
+            setOpeningChatId(item.id);
+
+            // Segna come letto se non l'hai già fatto
+            if (hasUnread && user?.uid) {
+              markChatOpened(item.id, user.uid).catch(() => {});
             }
-          ]}>
-            {/* Indicatore non letto laterale */}
-            {hasUnread && (
-              <View style={[styles.unreadSideIndicator, { backgroundColor: palette.tint }]} />
-            )}
+          
+            // Naviga alla chat
+            router.push({
+              pathname: `/messages/${otherId}`,
+              params: { 
+                name: otherName, 
+                photo: otherPhoto, 
+                chatId: item.id 
+              }
+            });
+          }}
+        >
+          {({ pressed }) => (
+            <View style={[
+              styles.chatCard,
+              {
+                backgroundColor: palette.card,
+                borderColor: palette.border,
+                opacity: pressed ? 0.9 : 1,
+                transform: [{ scale: pressed ? 0.98 : 1 }],
+              }
+            ]}>
+              {/* Indicatore non letto laterale */}
+              {hasUnread && (
+                <View style={[styles.unreadSideIndicator, { backgroundColor: palette.tint }]} />
+              )}
 
-            {/* Avatar con bordo più spesso e leggermente più grande */}
-            <View style={[styles.avatarWrapper, { borderColor: palette.border }]}>
-              <Image
-                source={{ uri: otherPhoto }}
-                style={styles.avatar}
-                contentFit="cover"
-              />
-            </View>
+              {/* Avatar con bordo più spesso e leggermente più grande */}
+              <View style={[styles.avatarWrapper, { borderColor: palette.border }]}>
+                <Image
+                  source={{ uri: otherPhoto }}
+                  style={styles.avatar}
+                  contentFit="cover"
+                />
+              </View>
 
-            {/* Contenuto chat */}
-            <View style={styles.chatContent}>
-              <View style={styles.chatHeader}>
-                <Text style={[styles.chatName, { color: palette.text }]}>
-                  {otherName}
-                </Text>
-                {displayTime ? (
-                  <Text style={[styles.time, { color: palette.muted }]}>
-                    {displayTime}
+              {/* Contenuto chat */}
+              <View style={styles.chatContent}>
+                <View style={styles.chatHeader}>
+                  <Text style={[styles.chatName, { color: palette.text }]} numberOfLines={1}>
+                    {otherName}
                   </Text>
-                ) : null}
+                  {listState.pinned ? (
+                    <Ionicons name="pin" size={14} color={palette.muted} style={styles.stateIcon} />
+                  ) : null}
+                  {muted ? (
+                    <Ionicons
+                      name="notifications-off"
+                      size={14}
+                      color={palette.muted}
+                      style={styles.stateIcon}
+                    />
+                  ) : null}
+                  {displayTime ? (
+                    <Text style={[styles.time, { color: palette.muted }]}>
+                      {displayTime}
+                    </Text>
+                  ) : null}
+                </View>
+
+                <Text 
+                  style={[
+                    styles.messagePreview, 
+                    { 
+                      color: palette.muted,
+                      fontWeight: hasUnread ? '600' : '400'
+                    }
+                  ]}
+                  numberOfLines={2}
+                >
+                  {item.lastMessage || 'Inizia la conversazione'}
+                </Text>
               </View>
 
-              <Text 
-                style={[
-                  styles.messagePreview, 
-                  { 
-                    color: palette.muted,
-                    fontWeight: hasUnread ? '600' : '400'
-                  }
-                ]}
-                numberOfLines={2}
-              >
-                {item.lastMessage || 'Inizia la conversazione'}
-              </Text>
+              {/* Badge non letto (se applicabile) - ora è un pallino invece che "Nuovo" */}
+              {hasUnread && (
+                <View style={[styles.unreadDot, { backgroundColor: palette.tint }]} />
+              )}
+              {openingChatId === item.id && (
+                <View style={styles.cardLoader}>
+                  <ActivityIndicator size="small" color={palette.tint} />
+                </View>
+              )}
             </View>
-
-            {/* Badge non letto (se applicabile) - ora è un pallino invece che "Nuovo" */}
-            {hasUnread && (
-              <View style={[styles.unreadDot, { backgroundColor: palette.tint }]} />
-            )}
-            {openingChatId === item.id && (
-              <View style={styles.cardLoader}>
-                <ActivityIndicator size="small" color={palette.tint} />
-              </View>
-            )}
-          </View>
-        )}
-      </Pressable>
+          )}
+        </Pressable>
+      </SwipeableChatRow>
     );
   };
 
@@ -630,6 +671,117 @@ export default function MessagesListScreen() {
     return [...incomingItems, ...responseOnlyItems];
   }, [interests, tapResponses]);
 
+  const isSearching = searchText.trim().length > 0;
+
+  const { activeChats, archivedChats } = useMemo(() => {
+    const active: ChatPreview[] = [];
+    const archived: ChatPreview[] = [];
+    chats.forEach((chat) =>
+      (getChatListState(chat, user?.uid).archived ? archived : active).push(chat)
+    );
+    return { activeChats: active, archivedChats: archived };
+  }, [chats, user?.uid]);
+  const archivedUnread = archivedChats.filter((chat) => isChatUnread(chat, user?.uid)).length;
+
+  // Con la ricerca attiva: chat per nome dell'altra persona, poi i messaggi trovati
+  const searchedChats = useMemo(() => {
+    if (!isSearching) return showArchived ? archivedChats : activeChats;
+    const words = normalizeSearchText(searchText);
+    if (!words.length) return [];
+    return chats.filter((chat) => {
+      const otherId = chat.participants.find((id) => id !== user?.uid) || '';
+      return matchesSearch(chat.names?.[otherId] || '', words);
+    });
+  }, [chats, activeChats, archivedChats, showArchived, isSearching, searchText, user?.uid]);
+
+  // Solo chat ancora visibili in lista: niente risultati da conversazioni bloccate o eliminate
+  const visibleMessageHits = useMemo(() => {
+    if (!isSearching) return [];
+    const chatIds = new Set(chats.map((chat) => chat.id));
+    return messageHits.filter((hit) => chatIds.has(hit.chatId));
+  }, [chats, isSearching, messageHits]);
+
+  const renderMessageHit = (hit: MessageSearchHit) => {
+    const chat = chats.find((item) => item.id === hit.chatId);
+    if (!chat) return null;
+    const otherId = chat.participants.find((id) => id !== user?.uid) || '';
+    const otherName = chat.names?.[otherId] || 'Utente';
+    const otherPhoto = chat.photos?.[otherId] || FALLBACK_PHOTO;
+    const date = hit.createdAt?.toDate ? hit.createdAt.toDate() : null;
+    return (
+      <Pressable
+        key={hit.id}
+        onPress={() =>
+          router.push({
+            pathname: `/messages/${otherId}`,
+            params: { name: otherName, photo: otherPhoto, chatId: chat.id, messageId: hit.messageId },
+          })
+        }
+        style={({ pressed }) => [
+          styles.hitRow,
+          { backgroundColor: palette.card, borderColor: palette.border },
+          pressed && { opacity: 0.85 },
+        ]}
+      >
+        <Image source={{ uri: otherPhoto }} style={styles.hitAvatar} contentFit="cover" />
+        <View style={styles.chatContent}>
+          <View style={styles.chatHeader}>
+            <Text style={[styles.chatName, { color: palette.text }]} numberOfLines={1}>
+              {otherName}
+            </Text>
+            {date ? (
+              <Text style={[styles.time, { color: palette.muted }]}>
+                {date.toLocaleDateString([], { day: 'numeric', month: 'short' })}
+              </Text>
+            ) : null}
+          </View>
+          <Text style={[styles.messagePreview, { color: palette.muted }]} numberOfLines={2}>
+            {hit.senderId === user?.uid ? `Tu: ${hit.preview}` : hit.preview}
+          </Text>
+        </View>
+      </Pressable>
+    );
+  };
+
+  // Accesso alle archiviate in cima alla lista; dentro, il ritorno alle chat
+  const archiveHeader = isSearching ? null : showArchived ? (
+    <Pressable
+      onPress={() => setShowArchived(false)}
+      style={({ pressed }) => [styles.archiveRow, pressed && { opacity: 0.7 }]}
+    >
+      <Ionicons name="chevron-back" size={18} color={palette.text} />
+      <Text style={[styles.archiveLabel, { color: palette.text }]}>Archiviate</Text>
+    </Pressable>
+  ) : archivedChats.length ? (
+    <Pressable
+      onPress={() => setShowArchived(true)}
+      style={({ pressed }) => [styles.archiveRow, pressed && { opacity: 0.7 }]}
+    >
+      <Ionicons name="archive-outline" size={18} color={palette.muted} />
+      <Text style={[styles.archiveLabel, { color: palette.text }]}>Archiviate</Text>
+      <Text style={[styles.archiveCount, { color: archivedUnread ? palette.tint : palette.muted }]}>
+        {archivedUnread || archivedChats.length}
+      </Text>
+    </Pressable>
+  ) : null;
+
+  const searchFooter = isSearching ? (
+    <View>
+      <Text style={[styles.searchSectionTitle, { color: palette.muted }]}>Messaggi</Text>
+      {searchingMessages ? (
+        <ActivityIndicator size="small" color={palette.tint} style={styles.searchLoader} />
+      ) : visibleMessageHits.length ? (
+        visibleMessageHits.map(renderMessageHit)
+      ) : (
+        <Text style={[styles.searchEmpty, { color: palette.muted }]}>
+          {normalizeSearchText(searchText).length
+            ? 'Nessun messaggio trovato'
+            : 'Scrivi almeno 2 caratteri'}
+        </Text>
+      )}
+    </View>
+  ) : null;
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: palette.background }]}>
       {/* Header */}
@@ -677,15 +829,12 @@ export default function MessagesListScreen() {
               Chat
             </Text>
             {(() => {
-              const unreadChatCount = chats.filter((chat) => {
-                if (!chat.lastSender || chat.lastSender === user?.uid) return false;
-                const updated = chat.updatedAt?.toDate ? chat.updatedAt.toDate().getTime() : 0;
-                const read = chat.readBy?.[user?.uid || '']?.toDate
-                  ? chat.readBy[user?.uid || ''].toDate().getTime()
-                  : 0;
-                if (!updated) return true;
-                return updated > read;
-              }).length;
+              // Le chat silenziate non contano
+              const unreadChatCount = chats.filter(
+                (chat) =>
+                  isChatUnread(chat, user?.uid) &&
+                  !isChatMuted(getChatListState(chat, user?.uid))
+              ).length;
               if (!unreadChatCount) return null;
               return (
                 <View style={[styles.segmentBadge, { backgroundColor: palette.accent }]}>
@@ -727,18 +876,53 @@ export default function MessagesListScreen() {
         </View>
       </View>
 
+      {activeTab === 'chats' ? (
+        <View style={styles.searchWrap}>
+          <View
+            style={[
+              styles.searchBar,
+              { backgroundColor: palette.card, borderColor: palette.border },
+            ]}
+          >
+            <Ionicons name="search" size={16} color={palette.muted} />
+            <TextInput
+              value={searchText}
+              onChangeText={setSearchText}
+              placeholder="Cerca persone o messaggi"
+              placeholderTextColor={palette.muted}
+              style={[styles.searchInput, { color: palette.text }]}
+              autoCorrect={false}
+              autoCapitalize="none"
+              returnKeyType="search"
+            />
+            {searchText ? (
+              <Pressable onPress={() => setSearchText('')} hitSlop={8}>
+                <Ionicons name="close-circle" size={18} color={palette.muted} />
+              </Pressable>
+            ) : null}
+          </View>
+        </View>
+      ) : null}
+
       {activeTab === 'chats' ? (
         <FlatList
-          data={chats}
+          data={searchedChats}
           keyExtractor={(item) => item.id}
           renderItem={renderChatItem}
           contentContainerStyle={[
             styles.listContent,
-            chats.length === 0 && styles.listContentEmpty,
+            searchedChats.length === 0 && !isSearching && styles.listContentEmpty,
           ]}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={archiveHeader}
+          ListFooterComponent={searchFooter}
           ListEmptyComponent={
-            loading ? (
+            isSearching ? null : showArchived ? (
+              <Text style={[styles.searchEmpty, { color: palette.muted }]}>
+                Nessuna chat archiviata
+              </Text>
+            ) : loading ? (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={palette.tint} />
                 <Text style={[styles.loadingText, { color: palette.muted }]}>
@@ -865,6 +1049,51 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '700',
   },
+  searchWrap: {
+    paddingHorizontal: 12,
+    paddingBottom: 4,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  searchSectionTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  searchLoader: {
+    paddingVertical: 12,
+  },
+  searchEmpty: {
+    fontSize: 13,
+    paddingVertical: 8,
+  },
+  hitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  hitAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
   listContent: {
     padding: 12,
     paddingBottom: 20,
@@ -874,11 +1103,30 @@ const styles = StyleSheet.create({
     flexGrow: 1,
     justifyContent: 'center',
   },
+  archiveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 4,
+    paddingVertical: 10,
+    marginBottom: 4,
+  },
+  archiveLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  archiveCount: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  chatRow: {
+    marginBottom: 12,
+  },
   chatCard: {
     flexDirection: 'row',
     alignItems: 'center',
     padding: 16,
-    marginBottom: 12,
     borderRadius: 16,
     borderWidth: 1,
     shadowColor: '#000',
@@ -929,6 +1177,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 8,
   },
+  stateIcon: {
+    marginLeft: 6,
+  },
   messagePreview: {
     fontSize: 14,
     lineHeight: 18,
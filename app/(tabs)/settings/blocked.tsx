@@ -1,7 +1,7 @@
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { Image } from 'expo-image';
 import { router } from 'expo-router';
-import { arrayRemove, deleteField, doc, getDoc, setDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -17,6 +17,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { getBlockErrorAlert, unblockUser } from '@/lib/blocking';
 import { db } from '@/lib/firebase';
 
 type ProfilePreview = {
@@ -91,28 +92,12 @@ export default function BlockedUsersScreen() {
         text: 'Sblocca',
         onPress: async () => {
           setUnblockingId(targetId);
-          const chatId = [user.uid, targetId].sort().join('_');
           try {
-            await Promise.all([
-              setDoc(
-                doc(db, 'profiles', user.uid),
-                { blocked: arrayRemove(targetId) },
-                { merge: true }
-              ),
-              setDoc(
-                doc(db, 'profiles', targetId),
-                { blockedBy: arrayRemove(user.uid) },
-                { merge: true }
-              ),
-              setDoc(
-                doc(db, 'chats', chatId),
-                { blockedBy: { [user.uid]: deleteField() } },
-                { merge: true }
-              ),
-            ]);
+            await unblockUser(targetId);
             await loadBlocked(true);
-          } catch (e) {
-            Alert.alert('Errore', 'Non sono riuscito a sbloccare, riprova.');
+          } catch (error) {
+            const alert = getBlockErrorAlert(error, 'Non sono riuscito a sbloccare, riprova.');
+            Alert.alert(alert.title, alert.message);
           } finally {
             setUnblockingId(null);
           }
@@ -1,46 +1,267 @@
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { StyleSheet, Text, View, useColorScheme, Pressable } from 'react-native';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+  useColorScheme,
+} from 'react-native';
 import { signOut } from 'firebase/auth';
+import { doc, onSnapshot, updateDoc } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
 
+import { LanguageChips } from '@/components/language-chips';
 import { Colors } from '@/constants/theme';
-import { auth } from '@/lib/firebase';
+import { useIsAdmin } from '@/hooks/use-admin-claim';
+import { useAuth } from '@/hooks/use-auth';
+import { auth, db } from '@/lib/firebase';
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  NOTIFICATION_CATEGORIES,
+  getPrivateProfileRef,
+  parseNotificationPrefs,
+  saveNotificationPref,
+  unregisterPushToken,
+  type NotificationCategory,
+} from '@/lib/notifications';
+import { DEFAULT_PRIVACY_PREFS, parsePrivacyPrefs, type PrivacyPrefs } from '@/lib/privacy';
+import {
+  DEFAULT_TRANSLATION_PREFS,
+  getLanguageLabel,
+  parseTranslationPrefs,
+  saveDefaultTranslationPrefs,
+  type TranslationPrefs,
+} from '@/lib/translation';
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
+  const { user } = useAuth();
+  const isAdmin = useIsAdmin();
+  const [notificationPrefs, setNotificationPrefs] = useState(DEFAULT_NOTIFICATION_PREFS);
+  const [privacyPrefs, setPrivacyPrefs] = useState(DEFAULT_PRIVACY_PREFS);
+  const [translationPrefs, setTranslationPrefs] = useState(DEFAULT_TRANSLATION_PREFS);
+  const [langPicker, setLangPicker] = useState<'incoming' | 'outgoing' | null>(null);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const unsub = onSnapshot(doc(db, 'profiles', user.uid), (snap) => {
+      setPrivacyPrefs(parsePrivacyPrefs(snap.data()?.privacy));
+      setTranslationPrefs(parseTranslationPrefs(snap.data()?.translationPrefs));
+    });
+    return unsub;
+  }, [user?.uid]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const unsub = onSnapshot(getPrivateProfileRef(user.uid), (snap) => {
+      setNotificationPrefs(parseNotificationPrefs(snap.data()?.notificationPrefs));
+    });
+    return unsub;
+  }, [user?.uid]);
+
+  const handleToggleNotification = async (key: NotificationCategory, value: boolean) => {
+    if (!user?.uid) return;
+    setNotificationPrefs((prev) => ({ ...prev, [key]: value }));
+    try {
+      await saveNotificationPref(user.uid, key, value);
+    } catch {
+      setNotificationPrefs((prev) => ({ ...prev, [key]: !value }));
+      Alert.alert('Errore', 'Non sono riuscito a salvare la preferenza.');
+    }
+  };
+
+  const handleTogglePrivacy = async (key: keyof PrivacyPrefs, value: boolean) => {
+    if (!user?.uid) return;
+    setPrivacyPrefs((prev) => ({ ...prev, [key]: value }));
+    try {
+      await updateDoc(doc(db, 'profiles', user.uid), { [`privacy.${key}`]: value });
+    } catch {
+      setPrivacyPrefs((prev) => ({ ...prev, [key]: !value }));
+      Alert.alert('Errore', 'Non sono riuscito a salvare la preferenza.');
+    }
+  };
+
+  const handleChangeTranslation = async (patch: Partial<TranslationPrefs>) => {
+    if (!user?.uid) return;
+    const previous = translationPrefs;
+    setTranslationPrefs((prev) => ({ ...prev, ...patch }));
+    try {
+      await saveDefaultTranslationPrefs(user.uid, patch);
+    } catch {
+      setTranslationPrefs(previous);
+      Alert.alert('Errore', 'Non sono riuscito a salvare la preferenza.');
+    }
+  };
+
+  const handleSignOut = async () => {
+    if (user?.uid) {
+      await unregisterPushToken(user.uid).catch(() => {});
+    }
+    signOut(auth).catch(() => {});
+  };
 
   return (
     <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]} edges={['top']}>
-      <View style={styles.header}>
-        <Ionicons name="settings-sharp" size={24} color={palette.text} />
-        <Text style={styles.title}>Impostazioni</Text>
-      </View>
-      <Text style={[styles.subtitle, { color: palette.muted }]}>
-        Qui aggiungeremo le opzioni in futuro.
-      </Text>
-
-      <View style={[styles.card, { borderColor: palette.border }]}>
-        <Pressable
-          onPress={() => router.push('/settings/blocked')}
-          style={[styles.rowBtn, { borderColor: palette.border }]}
-        >
-          <View style={styles.rowLeft}>
-            <Ionicons name="ban-outline" size={18} color={palette.text} />
-            <Text style={[styles.rowText, { color: palette.text }]}>Utenti bloccati</Text>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Ionicons name="settings-sharp" size={24} color={palette.text} />
+          <Text style={styles.title}>Impostazioni</Text>
+        </View>
+        <Text style={[styles.subtitle, { color: palette.muted }]}>
+          Qui aggiungeremo le opzioni in futuro.
+        </Text>
+
+        <View style={[styles.card, { borderColor: palette.border }]}>
+          <Text style={[styles.sectionTitle, { color: palette.text }]}>Notifiche</Text>
+          {NOTIFICATION_CATEGORIES.map((item) => (
+            <View key={item.key} style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={[styles.rowText, { color: palette.text }]}>{item.label}</Text>
+                <Text style={[styles.rowHint, { color: palette.muted }]}>{item.hint}</Text>
+              </View>
+              <Switch
+                value={notificationPrefs[item.key]}
+                onValueChange={(value) => handleToggleNotification(item.key, value)}
+                trackColor={{ true: palette.tint }}
+              />
+            </View>
+          ))}
+        </View>
+
+        <View style={[styles.card, { borderColor: palette.border }]}>
+          <Text style={[styles.sectionTitle, { color: palette.text }]}>Privacy</Text>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={[styles.rowText, { color: palette.text }]}>Conferme di lettura</Text>
+              <Text style={[styles.rowHint, { color: palette.muted }]}>
+                Se le disattivi non vedrai nemmeno quelle degli altri
+              </Text>
+            </View>
+            <Switch
+              value={privacyPrefs.readReceipts}
+              onValueChange={(value) => handleTogglePrivacy('readReceipts', value)}
+              trackColor={{ true: palette.tint }}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={[styles.rowText, { color: palette.text }]}>Nascondi online e ultimo accesso</Text>
+              <Text style={[styles.rowHint, { color: palette.muted }]}>
+                Se lo nascondi non vedrai nemmeno quello degli altri
+              </Text>
+            </View>
+            <Switch
+              value={privacyPrefs.hideLastSeen}
+              onValueChange={(value) => handleTogglePrivacy('hideLastSeen', value)}
+              trackColor={{ true: palette.tint }}
+            />
+          </View>
+        </View>
+
+        <View style={[styles.card, { borderColor: palette.border }]}>
+          <Text style={[styles.sectionTitle, { color: palette.text }]}>Traduzione</Text>
+          <Text style={[styles.rowHint, { color: palette.muted }]}>
+            Valori predefiniti per le chat: ognuna può cambiarli dalle sue impostazioni
+          </Text>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={[styles.rowText, { color: palette.text }]}>Traduci automaticamente</Text>
+              <Text style={[styles.rowHint, { color: palette.muted }]}>
+                Attiva la traduzione appena apri una chat
+              </Text>
+            </View>
+            <Switch
+              value={translationPrefs.autoTranslate}
+              onValueChange={(value) => handleChangeTranslation({ autoTranslate: value })}
+              trackColor={{ true: palette.tint }}
+            />
           </View>
-          <Ionicons name="chevron-forward" size={16} color={palette.muted} />
-        </Pressable>
-
-        <Pressable
-          onPress={() => signOut(auth).catch(() => {})}
-          style={[styles.logoutBtn, { backgroundColor: palette.tint }]}
-        >
-          <Ionicons name="log-out-outline" size={18} color="#fff" />
-          <Text style={styles.logoutText}>Esci</Text>
-        </Pressable>
-      </View>
+          <Pressable
+            style={styles.switchRow}
+            onPress={() => setLangPicker((prev) => (prev === 'incoming' ? null : 'incoming'))}
+          >
+            <View style={styles.switchLabel}>
+              <Text style={[styles.rowText, { color: palette.text }]}>Lingua di arrivo</Text>
+              <Text style={[styles.rowHint, { color: palette.muted }]}>Mostra i messaggi ricevuti in</Text>
+            </View>
+            <Text style={[styles.rowText, { color: palette.tint }]}>
+              {getLanguageLabel(translationPrefs.incoming)}
+            </Text>
+          </Pressable>
+          {langPicker === 'incoming' && (
+            <LanguageChips
+              selected={translationPrefs.incoming}
+              palette={palette}
+              onSelect={(code) => {
+                setLangPicker(null);
+                handleChangeTranslation({ incoming: code });
+              }}
+            />
+          )}
+          <Pressable
+            style={styles.switchRow}
+            onPress={() => setLangPicker((prev) => (prev === 'outgoing' ? null : 'outgoing'))}
+          >
+            <View style={styles.switchLabel}>
+              <Text style={[styles.rowText, { color: palette.text }]}>Lingua di invio</Text>
+              <Text style={[styles.rowHint, { color: palette.muted }]}>Traduce quello che scrivi</Text>
+            </View>
+            <Text style={[styles.rowText, { color: palette.tint }]}>
+              {getLanguageLabel(translationPrefs.outgoing)}
+            </Text>
+          </Pressable>
+          {langPicker === 'outgoing' && (
+            <LanguageChips
+              selected={translationPrefs.outgoing}
+              palette={palette}
+              onSelect={(code) => {
+                setLangPicker(null);
+                handleChangeTranslation({ outgoing: code });
+              }}
+            />
+          )}
+        </View>
+
+        <View style={[styles.card, { borderColor: palette.border }]}>
+          <Pressable
+            onPress={() => router.push('/settings/blocked')}
+            style={[styles.rowBtn, { borderColor: palette.border }]}
+          >
+            <View style={styles.rowLeft}>
+              <Ionicons name="ban-outline" size={18} color={palette.text} />
+              <Text style={[styles.rowText, { color: palette.text }]}>Utenti bloccati</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={16} color={palette.muted} />
+          </Pressable>
+
+          {isAdmin ? (
+            <Pressable
+              onPress={() => router.push('/admin')}
+              style={[styles.rowBtn, { borderColor: palette.border }]}
+            >
+              <View style={styles.rowLeft}>
+                <Ionicons name="shield-checkmark-outline" size={18} color={palette.text} />
+                <Text style={[styles.rowText, { color: palette.text }]}>Moderazione</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={16} color={palette.muted} />
+            </Pressable>
+          ) : null}
+
+          <Pressable
+            onPress={handleSignOut}
+            style={[styles.logoutBtn, { backgroundColor: palette.tint }]}
+          >
+            <Ionicons name="log-out-outline" size={18} color="#fff" />
+            <Text style={styles.logoutText}>Esci</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -48,6 +269,8 @@ export default function SettingsScreen() {
 const styles = StyleSheet.create({
   screen: {
     flex: 1,
+  },
+  content: {
     padding: 16,
     gap: 8,
   },
@@ -88,6 +311,23 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '700',
   },
+  rowHint: {
+    fontSize: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    gap: 2,
+  },
   logoutBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2,9 +2,12 @@ import * as ScreenCapture from 'expo-screen-capture';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect, useRef } from 'react';
-import { Alert, Platform, useColorScheme } from 'react-native';
+import { Alert, Platform, StyleSheet, useColorScheme, View } from 'react-native';
 
+import { SuspendedAccountScreen } from '@/components/suspended-account-screen';
 import { Colors } from '@/constants/theme';
+import { useAccountStatus } from '@/hooks/use-account-status';
+import { useAuth } from '@/hooks/use-auth';
 
 export const unstable_settings = {
   initialRouteName: '(tabs)',
@@ -23,6 +26,8 @@ export default function RootLayout() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
   const lastAlertAt = useRef(0);
+  const { user } = useAuth();
+  const { status: accountStatus, restricted } = useAccountStatus(user?.uid);
 
   useEffect(() => {
     let subscription: ReturnType<typeof ScreenCapture.addScreenshotListener> | null = null;
@@ -63,7 +68,14 @@ export default function RootLayout() {
         <Stack.Screen name="auth/index" />
         <Stack.Screen name="profile/[id]" />
         <Stack.Screen name="profile/setup" />
+        <Stack.Screen name="admin" />
       </Stack>
+      {/* Sospensione o ban: lo Stack resta montato (la navigazione funziona), sopra solo spiegazione e ricorso */}
+      {user && restricted ? (
+        <View style={StyleSheet.absoluteFill}>
+          <SuspendedAccountScreen userId={user.uid} status={accountStatus} palette={palette} />
+        </View>
+      ) : null}
       <StatusBar
         style={colorScheme === 'dark' ? 'light' : 'dark'}
         backgroundColor={palette.background}
@@ -0,0 +1,456 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Image } from 'expo-image';
+import { router, useLocalSearchParams } from 'expo-router';
+import { collection, doc, onSnapshot, query, where } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { useAccountStatus } from '@/hooks/use-account-status';
+import { describeAccountStatus } from '@/lib/account-status';
+import { db } from '@/lib/firebase';
+import {
+  MODERATION_ACTIONS,
+  MODERATION_NOTE_MAX_LENGTH,
+  SUSPENSION_DAYS,
+  getModerationErrorAlert,
+  getModerationTargetLabel,
+  getReportReasonLabel,
+  moderateContent,
+  parseModerationQueueEntry,
+  setAccountStatus,
+  type ModerationAction,
+  type ModerationQueueEntry,
+} from '@/lib/moderation';
+
+type ReportItem = {
+  id: string;
+  reporterId: string;
+  reason: string;
+  details: string;
+  createdAt: number;
+};
+
+export default function ModerationDetailScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [entry, setEntry] = useState<ModerationQueueEntry | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reports, setReports] = useState<ReportItem[]>([]);
+  const [note, setNote] = useState('');
+  const [days, setDays] = useState(SUSPENSION_DAYS[1]);
+  const [revealed, setRevealed] = useState(false);
+  const [pendingAction, setPendingAction] = useState<ModerationAction | null>(null);
+  const [reinstating, setReinstating] = useState(false);
+  const { status: authorStatus, restricted: authorRestricted } = useAccountStatus(
+    entry?.reportedUserId
+  );
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(
+      doc(db, 'moderationQueue', id),
+      (snap) => {
+        setEntry(snap.exists() ? parseModerationQueueEntry(snap.id, snap.data()) : null);
+        setStatus(snap.data()?.status ?? null);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+    return unsub;
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    const q = query(
+      collection(db, 'reports'),
+      where('targetKey', '==', id),
+      where('status', '==', 'pending')
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        const next = snap.docs.map((d) => {
+          const data = d.data();
+          return {
+            id: d.id,
+            reporterId: data.reporterId || '',
+            reason: data.reason || '',
+            details: data.details || '',
+            createdAt: data.createdAt?.toMillis ? data.createdAt.toMillis() : 0,
+          };
+        });
+        setReports(next.sort((a, b) => b.createdAt - a.createdAt));
+      },
+      () => setReports([])
+    );
+    return unsub;
+  }, [id]);
+
+  const runAction = async (action: ModerationAction) => {
+    if (!entry) return;
+    setPendingAction(action);
+    try {
+      await moderateContent(entry.id, action, note, days);
+      router.back();
+    } catch (error) {
+      const alert = getModerationErrorAlert(error, 'Azione non riuscita, riprova.');
+      Alert.alert(alert.title, alert.message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleReinstate = () => {
+    const userId = entry?.reportedUserId;
+    if (!userId) return;
+    Alert.alert('Riattiva account', 'La sospensione viene revocata subito.', [
+      { text: 'Annulla', style: 'cancel' },
+      {
+        text: 'Riattiva',
+        onPress: async () => {
+          setReinstating(true);
+          try {
+            await setAccountStatus(userId, 'active', note);
+          } catch (error) {
+            const alert = getModerationErrorAlert(error, 'Azione non riuscita, riprova.');
+            Alert.alert(alert.title, alert.message);
+          } finally {
+            setReinstating(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAction = (action: (typeof MODERATION_ACTIONS)[number]) => {
+    const message =
+      action.key === 'suspend' ? `${action.confirm} (${days} giorni)` : action.confirm;
+    Alert.alert(action.label, message, [
+      { text: 'Annulla', style: 'cancel' },
+      {
+        text: action.label,
+        style: action.destructive ? 'destructive' : 'default',
+        onPress: () => runAction(action.key),
+      },
+    ]);
+  };
+
+  const resolved = status !== 'pending';
+
+  return (
+    <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]}>
+      <View style={[styles.header, { borderBottomColor: palette.border }]}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={22} color={palette.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: palette.text }]}>
+          {entry ? getModerationTargetLabel(entry.targetType) : 'Segnalazione'}
+        </Text>
+        <View style={styles.headerPlaceholder} />
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={palette.tint} />
+        </View>
+      ) : !entry ? (
+        <View style={styles.center}>
+          <Ionicons name="alert-circle-outline" size={32} color={palette.muted} />
+          <Text style={[styles.muted, { color: palette.muted }]}>Segnalazione non trovata</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {entry.image ? (
+            <Pressable onPress={() => setRevealed((prev) => !prev)}>
+              <Image
+                source={{ uri: entry.image }}
+                style={styles.image}
+                contentFit="contain"
+                blurRadius={revealed ? 0 : 40}
+              />
+              {!revealed ? (
+                <View style={styles.revealHint}>
+                  <Ionicons name="eye-outline" size={18} color="#fff" />
+                  <Text style={styles.revealText}>Tocca per mostrare</Text>
+                </View>
+              ) : null}
+            </Pressable>
+          ) : null}
+          {entry.preview ? (
+            <Text style={[styles.preview, { color: palette.text }]}>{entry.preview}</Text>
+          ) : null}
+
+          <View style={[styles.section, { borderColor: palette.border }]}>
+            <Text style={[styles.meta, { color: palette.muted }]}>{entry.targetPath}</Text>
+            {entry.source === 'vision' ? (
+              <Text style={[styles.meta, { color: palette.muted }]}>
+                Segnalata automaticamente da Vision
+              </Text>
+            ) : null}
+            {entry.hidden ? (
+              <Text style={[styles.meta, { color: palette.muted }]}>
+                Già nascosta per troppe segnalazioni
+              </Text>
+            ) : null}
+            {entry.reportedUserId ? (
+              <Pressable
+                style={styles.linkRow}
+                onPress={() =>
+                  router.push({
+                    pathname: '/profile/[id]',
+                    params: { id: entry.reportedUserId as string },
+                  })
+                }
+              >
+                <Ionicons name="person-outline" size={16} color={palette.tint} />
+                <Text style={[styles.link, { color: palette.tint }]}>
+                  {"Apri profilo dell'autore"}
+                </Text>
+              </Pressable>
+            ) : null}
+            {authorRestricted ? (
+              <View style={styles.linkRow}>
+                <Text style={[styles.meta, styles.statusText, { color: palette.muted }]}>
+                  {describeAccountStatus(authorStatus, "L'account")}
+                </Text>
+                <Pressable onPress={handleReinstate} disabled={reinstating}>
+                  {reinstating ? (
+                    <ActivityIndicator size="small" color={palette.tint} />
+                  ) : (
+                    <Text style={[styles.link, { color: palette.tint }]}>Riattiva</Text>
+                  )}
+                </Pressable>
+              </View>
+            ) : null}
+          </View>
+
+          {reports.length ? (
+            <View style={[styles.section, { borderColor: palette.border }]}>
+              <Text style={[styles.sectionTitle, { color: palette.text }]}>
+                Segnalazioni ({reports.length})
+              </Text>
+              {reports.map((report) => (
+                <View key={report.id} style={styles.reportRow}>
+                  <Text style={[styles.reportReason, { color: palette.text }]}>
+                    {getReportReasonLabel(report.reason)}
+                  </Text>
+                  {report.details ? (
+                    <Text style={[styles.meta, { color: palette.muted }]}>{report.details}</Text>
+                  ) : null}
+                </View>
+              ))}
+            </View>
+          ) : null}
+
+          {resolved ? (
+            <Text style={[styles.muted, { color: palette.muted }]}>
+              Questa segnalazione è già stata gestita.
+            </Text>
+          ) : (
+            <>
+              <TextInput
+                value={note}
+                onChangeText={setNote}
+                placeholder="Nota per il registro e per l'utente"
+                placeholderTextColor={palette.muted}
+                style={[styles.input, { color: palette.text, borderColor: palette.border }]}
+                maxLength={MODERATION_NOTE_MAX_LENGTH}
+                multiline
+              />
+              <View style={styles.daysRow}>
+                <Text style={[styles.meta, { color: palette.muted }]}>Sospensione:</Text>
+                {SUSPENSION_DAYS.map((value) => {
+                  const active = value === days;
+                  return (
+                    <Pressable
+                      key={value}
+                      onPress={() => setDays(value)}
+                      style={[
+                        styles.dayChip,
+                        { borderColor: active ? palette.tint : palette.border },
+                        active && { backgroundColor: palette.tint },
+                      ]}
+                    >
+                      <Text style={[styles.dayText, { color: active ? '#fff' : palette.text }]}>
+                        {value === 1 ? '1 giorno' : `${value} giorni`}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <View style={styles.actions}>
+                {MODERATION_ACTIONS.map((action) => {
+                  const needsUser = action.key !== 'approve' && action.key !== 'remove';
+                  const disabled = !!pendingAction || (needsUser && !entry.reportedUserId);
+                  return (
+                    <Pressable
+                      key={action.key}
+                      disabled={disabled}
+                      onPress={() => handleAction(action)}
+                      style={[
+                        styles.actionBtn,
+                        action.destructive
+                          ? { backgroundColor: '#dc2626' }
+                          : { backgroundColor: palette.tint },
+                        disabled && { opacity: 0.5 },
+                      ]}
+                    >
+                      {pendingAction === action.key ? (
+                        <ActivityIndicator size="small" color="#fff" />
+                      ) : (
+                        <Text style={styles.actionText}>{action.label}</Text>
+                      )}
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerBtn: {
+    padding: 6,
+  },
+  headerPlaceholder: {
+    width: 28,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 20,
+  },
+  muted: {
+    fontSize: 14,
+  },
+  content: {
+    padding: 14,
+    gap: 12,
+  },
+  image: {
+    width: '100%',
+    height: 280,
+    borderRadius: 12,
+    backgroundColor: '#000',
+  },
+  revealHint: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  revealText: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  preview: {
+    fontSize: 15,
+  },
+  section: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  meta: {
+    fontSize: 12,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingTop: 4,
+  },
+  statusText: {
+    flex: 1,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  reportRow: {
+    gap: 2,
+    paddingVertical: 4,
+  },
+  reportReason: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  daysRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  dayChip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  dayText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  actions: {
+    gap: 8,
+  },
+  actionBtn: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  actionText: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+});
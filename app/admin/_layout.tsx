@@ -0,0 +1,30 @@
+import { Redirect, Stack } from 'expo-router';
+import { ActivityIndicator, View, useColorScheme } from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useIsAdmin } from '@/hooks/use-admin-claim';
+
+// Console di moderazione: solo per chi ha il claim "admin" (le regole lo verificano di nuovo)
+export default function AdminLayout() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const isAdmin = useIsAdmin();
+
+  if (isAdmin === null) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator color={palette.tint} />
+      </View>
+    );
+  }
+
+  if (!isAdmin) return <Redirect href="/" />;
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    />
+  );
+}
@@ -0,0 +1,259 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { router } from 'expo-router';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { describeAccountStatus, parseAccountStatus, type AccountStatus } from '@/lib/account-status';
+import { db } from '@/lib/firebase';
+import {
+  MODERATION_NOTE_MAX_LENGTH,
+  getModerationErrorAlert,
+  reviewAccountAppeal,
+} from '@/lib/moderation';
+
+type AppealItem = {
+  userId: string;
+  text: string;
+  // Lo stato al momento del ricorso, copiato da submitAccountAppeal
+  status: AccountStatus;
+  createdAt: number;
+};
+
+export default function AccountAppealsScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const [appeals, setAppeals] = useState<AppealItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const q = query(collection(db, 'accountAppeals'), where('status', '==', 'pending'));
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        const next = snap.docs.map((d) => {
+          const data = d.data();
+          return {
+            userId: d.id,
+            text: data.text || '',
+            status: parseAccountStatus({ ...data, updatedAt: data.suspendedAt }),
+            createdAt: data.createdAt?.toMillis ? data.createdAt.toMillis() : 0,
+          };
+        });
+        // Prima i ricorsi più vecchi: chi aspetta da più tempo
+        setAppeals(next.sort((a, b) => a.createdAt - b.createdAt));
+        setLoading(false);
+      },
+      () => {
+        setAppeals([]);
+        setLoading(false);
+      }
+    );
+    return unsub;
+  }, []);
+
+  const handleReview = (userId: string, accept: boolean) => {
+    Alert.alert(
+      accept ? 'Riattiva account' : 'Respingi ricorso',
+      accept
+        ? "La sospensione viene revocata e l'utente torna a usare l'app."
+        : "La sospensione resta valida e l'utente non può presentare altri ricorsi.",
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: accept ? 'Riattiva' : 'Respingi',
+          style: accept ? 'default' : 'destructive',
+          onPress: async () => {
+            setReviewingId(userId);
+            try {
+              await reviewAccountAppeal(userId, accept, notes[userId]);
+            } catch (error) {
+              const alert = getModerationErrorAlert(error, 'Azione non riuscita, riprova.');
+              Alert.alert(alert.title, alert.message);
+            } finally {
+              setReviewingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]}>
+      <View style={[styles.header, { borderBottomColor: palette.border }]}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={22} color={palette.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: palette.text }]}>Ricorsi</Text>
+        <View style={styles.headerPlaceholder} />
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={palette.tint} />
+        </View>
+      ) : appeals.length === 0 ? (
+        <View style={styles.center}>
+          <Ionicons name="checkmark-done-outline" size={32} color={palette.muted} />
+          <Text style={[styles.muted, { color: palette.muted }]}>Nessun ricorso in attesa</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={appeals}
+          keyExtractor={(item) => item.userId}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => {
+            const busy = reviewingId === item.userId;
+            return (
+              <View style={[styles.card, { borderColor: palette.border }]}>
+                <Pressable
+                  onPress={() =>
+                    router.push({ pathname: '/profile/[id]', params: { id: item.userId } })
+                  }
+                >
+                  <Text style={[styles.userId, { color: palette.tint }]}>{item.userId}</Text>
+                </Pressable>
+                <Text style={[styles.meta, { color: palette.muted }]}>
+                  {describeAccountStatus(item.status, "L'account")}
+                  {item.status.reason ? ` Motivo: ${item.status.reason}` : ''}
+                </Text>
+                <Text style={[styles.text, { color: palette.text }]}>{item.text}</Text>
+                <TextInput
+                  value={notes[item.userId] || ''}
+                  onChangeText={(value) => setNotes((prev) => ({ ...prev, [item.userId]: value }))}
+                  placeholder="Nota per l'utente (facoltativa)"
+                  placeholderTextColor={palette.muted}
+                  style={[styles.input, { color: palette.text, borderColor: palette.border }]}
+                  maxLength={MODERATION_NOTE_MAX_LENGTH}
+                  multiline
+                />
+                <View style={styles.actions}>
+                  <Pressable
+                    disabled={busy}
+                    onPress={() => handleReview(item.userId, false)}
+                    style={[styles.actionBtn, { borderColor: palette.border }, busy && styles.busy]}
+                  >
+                    <Text style={[styles.actionText, { color: palette.text }]}>Respingi</Text>
+                  </Pressable>
+                  <Pressable
+                    disabled={busy}
+                    onPress={() => handleReview(item.userId, true)}
+                    style={[
+                      styles.actionBtn,
+                      { backgroundColor: palette.tint, borderColor: palette.tint },
+                      busy && styles.busy,
+                    ]}
+                  >
+                    {busy ? (
+                      <ActivityIndicator size="small" color="#fff" />
+                    ) : (
+                      <Text style={[styles.actionText, { color: '#fff' }]}>Riattiva</Text>
+                    )}
+                  </Pressable>
+                </View>
+              </View>
+            );
+          }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerBtn: {
+    padding: 6,
+  },
+  headerPlaceholder: {
+    width: 28,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 20,
+  },
+  muted: {
+    fontSize: 14,
+  },
+  list: {
+    padding: 14,
+    gap: 10,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  userId: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  meta: {
+    fontSize: 12,
+  },
+  text: {
+    fontSize: 14,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    minHeight: 56,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionBtn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+  },
+  actionText: {
+    fontWeight: '700',
+  },
+  busy: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,173 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { router } from 'expo-router';
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { db } from '@/lib/firebase';
+import {
+  getModerationActionLabel,
+  getModerationTargetLabel,
+  parseModerationAuditEntry,
+  type ModerationAuditEntry,
+} from '@/lib/moderation';
+
+const AUDIT_LIMIT = 100;
+
+export default function ModerationAuditScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const [entries, setEntries] = useState<ModerationAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const q = query(
+      collection(db, 'moderationAudit'),
+      orderBy('createdAt', 'desc'),
+      limit(AUDIT_LIMIT)
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setEntries(snap.docs.map((d) => parseModerationAuditEntry(d.id, d.data())));
+        setLoading(false);
+      },
+      () => {
+        setEntries([]);
+        setLoading(false);
+      }
+    );
+    return unsub;
+  }, []);
+
+  return (
+    <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]}>
+      <View style={[styles.header, { borderBottomColor: palette.border }]}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={22} color={palette.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: palette.text }]}>Registro azioni</Text>
+        <View style={styles.headerPlaceholder} />
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={palette.tint} />
+        </View>
+      ) : entries.length === 0 ? (
+        <View style={styles.center}>
+          <Ionicons name="document-text-outline" size={32} color={palette.muted} />
+          <Text style={[styles.muted, { color: palette.muted }]}>Nessuna azione registrata</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          renderItem={({ item }) => (
+            <View style={[styles.row, { borderColor: palette.border }]}>
+              <View style={styles.rowTop}>
+                <Text style={[styles.action, { color: palette.text }]}>
+                  {getModerationActionLabel(item.action)}
+                  {item.days ? ` · ${item.days} giorni` : ''}
+                </Text>
+                <Text style={[styles.meta, { color: palette.muted }]}>
+                  {item.createdAt
+                    ? new Date(item.createdAt).toLocaleString([], {
+                        day: '2-digit',
+                        month: '2-digit',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })
+                    : ''}
+                </Text>
+              </View>
+              <Text style={[styles.meta, { color: palette.muted }]} numberOfLines={1}>
+                {getModerationTargetLabel(item.targetType)}
+                {item.targetUserId ? ` · utente ${item.targetUserId}` : ''}
+              </Text>
+              <Text style={[styles.meta, { color: palette.muted }]} numberOfLines={1}>
+                Moderatore {item.actorId}
+              </Text>
+              {item.note ? (
+                <Text style={[styles.note, { color: palette.text }]}>{item.note}</Text>
+              ) : null}
+            </View>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerBtn: {
+    padding: 6,
+  },
+  headerPlaceholder: {
+    width: 28,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 20,
+  },
+  muted: {
+    fontSize: 14,
+  },
+  list: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  rowTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  meta: {
+    fontSize: 12,
+  },
+  note: {
+    fontSize: 14,
+    paddingTop: 2,
+  },
+});
@@ -0,0 +1,277 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Image } from 'expo-image';
+import { router } from 'expo-router';
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { db } from '@/lib/firebase';
+import {
+  MODERATION_FILTERS,
+  getModerationTargetLabel,
+  getReportReasonLabel,
+  matchesModerationFilter,
+  parseModerationQueueEntry,
+  type ModerationFilter,
+  type ModerationQueueEntry,
+} from '@/lib/moderation';
+
+const QUEUE_LIMIT = 100;
+
+export default function ModerationQueueScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const [entries, setEntries] = useState<ModerationQueueEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ModerationFilter>('reports');
+
+  useEffect(() => {
+    const q = query(
+      collection(db, 'moderationQueue'),
+      where('status', '==', 'pending'),
+      orderBy('updatedAt', 'desc'),
+      limit(QUEUE_LIMIT)
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setEntries(snap.docs.map((d) => parseModerationQueueEntry(d.id, d.data())));
+        setLoading(false);
+      },
+      () => {
+        setEntries([]);
+        setLoading(false);
+      }
+    );
+    return unsub;
+  }, []);
+
+  const counts = useMemo(
+    () =>
+      Object.fromEntries(
+        MODERATION_FILTERS.map(({ key }) => [
+          key,
+          entries.filter((entry) => matchesModerationFilter(entry, key)).length,
+        ])
+      ) as Record<ModerationFilter, number>,
+    [entries]
+  );
+
+  const visible = useMemo(
+    () => entries.filter((entry) => matchesModerationFilter(entry, filter)),
+    [entries, filter]
+  );
+
+  const renderReasons = (entry: ModerationQueueEntry) => {
+    if (entry.source === 'vision') return 'Segnalata da Vision';
+    const reasons = Object.entries(entry.reasons)
+      .sort(([, a], [, b]) => (b || 0) - (a || 0))
+      .map(([reason]) => getReportReasonLabel(reason));
+    const label = entry.reportCount === 1 ? '1 segnalazione' : `${entry.reportCount} segnalazioni`;
+    return reasons.length ? `${label} · ${reasons.join(', ')}` : label;
+  };
+
+  return (
+    <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]}>
+      <View style={[styles.header, { borderBottomColor: palette.border }]}>
+        <Pressable onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="arrow-back" size={22} color={palette.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: palette.text }]}>Moderazione</Text>
+        <View style={styles.headerActions}>
+          <Pressable onPress={() => router.push('/admin/appeals')} style={styles.headerBtn}>
+            <Ionicons name="mail-open-outline" size={22} color={palette.text} />
+          </Pressable>
+          <Pressable onPress={() => router.push('/admin/audit')} style={styles.headerBtn}>
+            <Ionicons name="document-text-outline" size={22} color={palette.text} />
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        {MODERATION_FILTERS.map((item) => {
+          const active = item.key === filter;
+          return (
+            <Pressable
+              key={item.key}
+              onPress={() => setFilter(item.key)}
+              style={[
+                styles.filterChip,
+                { borderColor: active ? palette.tint : palette.border },
+                active && { backgroundColor: palette.tint },
+              ]}
+            >
+              <Text style={[styles.filterText, { color: active ? '#fff' : palette.text }]}>
+                {item.label}
+                {counts[item.key] ? ` (${counts[item.key]})` : ''}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={palette.tint} />
+          <Text style={[styles.muted, { color: palette.muted }]}>Carico...</Text>
+        </View>
+      ) : visible.length === 0 ? (
+        <View style={styles.center}>
+          <Ionicons name="checkmark-done-outline" size={32} color={palette.muted} />
+          <Text style={[styles.muted, { color: palette.muted }]}>Niente da revisionare</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={visible}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          renderItem={({ item }) => (
+            <Pressable
+              onPress={() =>
+                router.push({ pathname: '/admin/[id]', params: { id: item.id } })
+              }
+              style={[styles.card, { borderColor: palette.border, backgroundColor: palette.card }]}
+            >
+              {item.image ? (
+                <Image
+                  source={{ uri: item.image }}
+                  style={styles.thumb}
+                  contentFit="cover"
+                  blurRadius={item.source === 'vision' ? 24 : 0}
+                />
+              ) : (
+                <View style={[styles.thumbPlaceholder, { backgroundColor: palette.border }]}>
+                  <Ionicons name="flag-outline" size={22} color={palette.muted} />
+                </View>
+              )}
+              <View style={styles.cardBody}>
+                <View style={styles.cardTitleRow}>
+                  <Text style={[styles.cardTitle, { color: palette.text }]} numberOfLines={1}>
+                    {getModerationTargetLabel(item.targetType)}
+                  </Text>
+                  {item.hidden ? (
+                    <Ionicons name="eye-off-outline" size={14} color={palette.muted} />
+                  ) : null}
+                </View>
+                {item.preview ? (
+                  <Text style={[styles.preview, { color: palette.text }]} numberOfLines={2}>
+                    {item.preview}
+                  </Text>
+                ) : null}
+                <Text style={[styles.meta, { color: palette.muted }]} numberOfLines={1}>
+                  {renderReasons(item)}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={16} color={palette.muted} />
+            </Pressable>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerBtn: {
+    padding: 6,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingTop: 12,
+  },
+  filterChip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 20,
+  },
+  muted: {
+    fontSize: 14,
+  },
+  list: {
+    padding: 14,
+    gap: 10,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+  },
+  thumb: {
+    width: 54,
+    height: 54,
+    borderRadius: 10,
+  },
+  thumbPlaceholder: {
+    width: 54,
+    height: 54,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardBody: {
+    flex: 1,
+    gap: 2,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  preview: {
+    fontSize: 14,
+  },
+  meta: {
+    fontSize: 12,
+  },
+});
@@ -2,8 +2,8 @@ import Ionicons from '@expo/vector-icons/Ionicons';
 import { Image } from 'expo-image';
 import * as ImagePicker from 'expo-image-picker';
 import { router, useLocalSearchParams } from 'expo-router';
-import { arrayRemove, arrayUnion, doc, getDoc, serverTimestamp, updateDoc } from 'firebase/firestore';
-import { useEffect, useMemo, useState } from 'react';
+import { arrayRemove, arrayUnion, doc, getDoc, updateDoc } from 'firebase/firestore';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -20,17 +20,20 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { ReportSheet } from '@/components/report-sheet';
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
 import { db } from '@/lib/firebase';
-import { uploadImageToStorage } from '@/lib/storage';
+import type { ReportTarget } from '@/lib/reports';
+import { isUploadCanceled, uploadImageToStorage } from '@/lib/storage';
+import { getTapErrorAlert, sendTap } from '@/lib/taps';
 
 type Profile = {
   id: string;
   name: string;
   age: number;
   city: string;
-  distanceKm: number;
+  location?: { lat: number; lng: number; geohash?: string };
   photo: string;
   photos?: string[];
   interests: string[];
@@ -40,10 +43,12 @@ type Profile = {
   jobTitle?: string;
   blocked?: string[];
   blockedBy?: string[];
+  moderationHidden?: boolean;
 };
 
 const FALLBACK_PHOTO =
   'https://images.unsplash.com/photo-1524504388940-b1c1722653e1?auto=format&fit=crop&w=900&q=80';
+// Solo per mostrare il countdown: il limite vero lo applica sendTap lato server
 const TAP_COOLDOWN_MS = 24 * 60 * 60 * 1000;
 
 const timestampToMs = (value: any) => {
@@ -85,6 +90,9 @@ export default function ProfileDetailScreen() {
   const [role, setRole] = useState('');
   const [intent, setIntent] = useState('');
   const [userInterests, setUserInterests] = useState<string[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -275,16 +283,12 @@ export default function ProfileDetailScreen() {
     setUpdatingInterest(true);
     setMyInterested((prev) => (prev.includes(targetId) ? prev : [...prev, targetId]));
     try {
-      await updateDoc(doc(db, 'profiles', user.uid), {
-        interested: arrayUnion(targetId),
-        [`tapCooldowns.${targetId}`]: serverTimestamp(),
-      });
-      await updateDoc(doc(db, 'profiles', targetId), {
-        interestedBy: arrayUnion(user.uid),
-      });
+      const { cooldownUntil } = await sendTap(targetId);
+      setTapCooldowns((prev) => ({ ...prev, [targetId]: cooldownUntil - TAP_COOLDOWN_MS }));
     } catch (e) {
       setMyInterested((prev) => prev.filter((id) => id !== targetId));
-      Alert.alert('Errore', 'Non sono riuscito a inviare il tap.');
+      const { title, message } = getTapErrorAlert(e, 'Non sono riuscito a inviare il tap.');
+      Alert.alert(title, message);
     } finally {
       setUpdatingInterest(false);
     }
@@ -371,6 +375,8 @@ export default function ProfileDetailScreen() {
       }
       
       setSaving(true);
+      uploadAbortRef.current = new AbortController();
+      setUploadProgress({});
       try {
         const sourcePhotos = photos.filter((uri) => !!uri && uri !== FALLBACK_PHOTO);
         const resolvedPhotos = sourcePhotos.length ? sourcePhotos : [];
@@ -391,6 +397,9 @@ export default function ProfileDetailScreen() {
             const { url } = await uploadImageToStorage({
               uri,
               path,
+              signal: uploadAbortRef.current?.signal,
+              onProgress: ({ progress }) =>
+                setUploadProgress((prev) => ({ ...prev, [uri]: progress })),
               metadata: {
                 kind: 'profile',
                 profileId: profile.id,
@@ -399,6 +408,8 @@ export default function ProfileDetailScreen() {
             });
             nextPhotos.push(url);
           } catch (uploadError) {
+            // Annullato dall'utente: si interrompe tutto il salvataggio
+            if (isUploadCanceled(uploadError)) throw uploadError;
             console.error('Photo upload failed', uploadError);
             skippedUploads += 1;
           }
@@ -436,16 +447,23 @@ export default function ProfileDetailScreen() {
           Alert.alert('Salvato!', 'Profilo aggiornato con successo!');
         }
       } catch (e) {
+        if (isUploadCanceled(e)) return;
         console.error('Save profile failed', e);
         const raw = e as { message?: string; code?: string };
         const detail = raw?.message ? ` ${raw.message}` : '';
         const code = raw?.code ? ` (${raw.code})` : '';
         Alert.alert('Errore', `Non sono riuscito a salvare${code}.${detail}`);
     } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress({});
       setSaving(false);
     }
   };
 
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
   const handleRemovePhoto = (uri: string) => {
     if (!isOwner || !isEditing) return;
     
@@ -545,11 +563,14 @@ export default function ProfileDetailScreen() {
     );
   }
 
-  if (!profile) {
+  // Nascosto dalle segnalazioni: resta visibile solo al proprietario
+  if (!profile || (profile.moderationHidden && !isOwner)) {
     return (
       <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]}>
         <View style={styles.notFound}>
-          <Text style={styles.notFoundText}>Profilo non trovato</Text>
+          <Text style={styles.notFoundText}>
+            {profile ? 'Profilo non disponibile' : 'Profilo non trovato'}
+          </Text>
           <Pressable style={styles.backBtn} onPress={() => router.back()}>
             <Text style={styles.backText}>Torna indietro</Text>
           </Pressable>
@@ -652,7 +673,13 @@ export default function ProfileDetailScreen() {
                   />
                 </Pressable>
               ) : (
-                <View />
+                <Pressable
+                  style={styles.heroTopButton}
+                  onPress={() => setReportTarget({ targetType: 'profile', userId: profile.id })}
+                  accessibilityLabel="Segnala profilo"
+                >
+                  <Ionicons name="flag-outline" size={20} color="#fff" />
+                </Pressable>
               )}
             </View>
             <View style={styles.heroContent}>
@@ -741,6 +768,13 @@ export default function ProfileDetailScreen() {
                       contentFit="cover"
                       cachePolicy="memory-disk"
                     />
+                    {saving && uploadProgress[uri] !== undefined && (
+                      <View style={styles.uploadOverlay}>
+                        <Text style={styles.uploadOverlayText}>
+                          {uploadProgress[uri] >= 1 ? '✓' : `${Math.round(uploadProgress[uri] * 100)}%`}
+                        </Text>
+                      </View>
+                    )}
                     {isOwner && isEditing && (
                       <>
                         <Pressable
@@ -1096,10 +1130,12 @@ export default function ProfileDetailScreen() {
           <View style={styles.footerActions}>
             <Pressable
               style={[styles.cancelBtn, { borderColor: palette.muted }]}
-              onPress={handleCancelEdit}
-              disabled={saving}
+              onPress={saving ? handleCancelUpload : handleCancelEdit}
+              disabled={saving && Object.keys(uploadProgress).length === 0}
             >
-              <Text style={[styles.cancelBtnText, { color: palette.muted }]}>Annulla</Text>
+              <Text style={[styles.cancelBtnText, { color: palette.muted }]}>
+                {saving ? 'Annulla caricamento' : 'Annulla'}
+              </Text>
             </Pressable>
             
             <Pressable
@@ -1230,6 +1266,13 @@ export default function ProfileDetailScreen() {
           </View>
         </View>
       </Modal>
+
+      <ReportSheet
+        target={reportTarget}
+        title="Segnala profilo"
+        palette={palette}
+        onClose={() => setReportTarget(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -1400,6 +1443,17 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  uploadOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  uploadOverlayText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
   removePhotoButton: {
     position: 'absolute',
     top: 8,
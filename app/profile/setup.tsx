@@ -1,5 +1,5 @@
 import * as ImagePicker from 'expo-image-picker';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { router } from 'expo-router';
 import {
   Alert,
@@ -14,12 +14,13 @@ import {
   useColorScheme,
   Platform,
 } from 'react-native';
-import { doc, setDoc } from 'firebase/firestore';
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
 
 import { Colors } from '@/constants/theme';
 import { auth, db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/use-auth';
-import { uploadImageToStorage } from '@/lib/storage';
+import { getCoarseCurrentLocation } from '@/lib/geo';
+import { isUploadCanceled, uploadImageToStorage } from '@/lib/storage';
 
 const FALLBACK_PHOTO =
   'https://images.unsplash.com/photo-1524504388940-b1c1722653e1?auto=format&fit=crop&w=900&q=80';
@@ -35,6 +36,8 @@ export default function ProfileSetupScreen() {
   const [city, setCity] = useState('');
   const [photos, setPhotos] = useState<string[]>([]);
   const [bio, setBio] = useState('');
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const uploadAbortRef = useRef<AbortController | null>(null);
 
   const uploadProfilePhotos = async () => {
     if (!user) return { urls: [] as string[] };
@@ -54,6 +57,9 @@ export default function ProfileSetupScreen() {
       const { url, path: storedPath } = await uploadImageToStorage({
         uri,
         path,
+        signal: uploadAbortRef.current?.signal,
+        onProgress: ({ progress }) =>
+          setUploadProgress((prev) => ({ ...prev, [uri]: progress })),
         metadata: {
           kind: 'profile',
           profileId: user.uid,
@@ -81,13 +87,17 @@ export default function ProfileSetupScreen() {
       return;
     }
     setLoading(true);
+    uploadAbortRef.current = new AbortController();
+    setUploadProgress({});
     try {
       const { urls } = await uploadProfilePhotos();
+      const location = await getCoarseCurrentLocation();
       await setDoc(doc(db, 'profiles', user.uid), {
         name: name.trim(),
         age: ageNum,
         city: city.trim() || 'N/D',
-        distanceKm: 0, // calcoleremo via GPS più avanti
+        // Solo posizione approssimativa: la distanza si calcola da chi guarda
+        ...(location ? { location: { ...location, updatedAt: serverTimestamp() } } : {}),
         photo: urls[0] ?? '',
         photos: urls.length ? urls : [],
         interests: [],
@@ -97,12 +107,20 @@ export default function ProfileSetupScreen() {
       });
       router.replace('/');
     } catch (e) {
-      Alert.alert('Errore', 'Salvataggio non riuscito. Riprova.');
+      if (!isUploadCanceled(e)) {
+        Alert.alert('Errore', 'Salvataggio non riuscito. Riprova.');
+      }
     } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress({});
       setLoading(false);
     }
   };
 
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
   const handlePickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -175,9 +193,29 @@ export default function ProfileSetupScreen() {
           </View>
           {photos.length > 0 ? (
             <ScrollView horizontal contentContainerStyle={styles.previewRow} showsHorizontalScrollIndicator={false}>
-              {photos.map((uri) => (
-                <Image key={uri} source={{ uri }} style={styles.preview} />
-              ))}
+              {photos.map((uri) => {
+                const progress = uploadProgress[uri];
+                return (
+                  <View key={uri}>
+                    <Image source={{ uri }} style={styles.preview} />
+                    {loading && progress !== undefined && (
+                      <View style={styles.previewOverlay}>
+                        <Text style={styles.previewProgressText}>
+                          {progress >= 1 ? '✓' : `${Math.round(progress * 100)}%`}
+                        </Text>
+                        <View style={styles.progressTrack}>
+                          <View
+                            style={[
+                              styles.progressFill,
+                              { width: `${Math.round(progress * 100)}%`, backgroundColor: palette.tint },
+                            ]}
+                          />
+                        </View>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
             </ScrollView>
           ) : (
             <Text style={[styles.placeholder, { color: palette.muted }]}>
@@ -202,6 +240,11 @@ export default function ProfileSetupScreen() {
           disabled={loading}>
           <Text style={styles.primaryText}>{loading ? 'Salvo...' : 'Salva profilo'}</Text>
         </Pressable>
+        {loading && Object.keys(uploadProgress).length > 0 && (
+          <Pressable style={[styles.secondary, styles.cancelUpload, { borderColor: palette.border }]} onPress={handleCancelUpload}>
+            <Text style={styles.secondaryText}>Annulla caricamento foto</Text>
+          </Pressable>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -250,6 +293,35 @@ const styles = StyleSheet.create({
     height: 120,
     borderRadius: 10,
   },
+  previewOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+  },
+  previewProgressText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.35)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    borderRadius: 2,
+  },
+  cancelUpload: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
   placeholder: {
     fontSize: 13,
   },
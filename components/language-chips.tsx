@@ -0,0 +1,56 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { TRANSLATION_LANGUAGES } from '@/lib/translation';
+
+type Props = {
+  selected: string;
+  palette: any;
+  onSelect: (code: string) => void;
+};
+
+// Scelta della lingua di traduzione: chat e Impostazioni
+export function LanguageChips({ selected, palette, onSelect }: Props) {
+  return (
+    <View style={styles.chips}>
+      {TRANSLATION_LANGUAGES.map((lang) => {
+        const active = lang.code === selected;
+        return (
+          <Pressable
+            key={lang.code}
+            style={[
+              styles.chip,
+              {
+                borderColor: active ? palette.tint : palette.border,
+                backgroundColor: active ? `${palette.tint}18` : 'transparent',
+              },
+            ]}
+            onPress={() => onSelect(lang.code)}
+          >
+            <Text style={[styles.chipText, { color: active ? palette.tint : palette.text }]}>
+              {lang.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    paddingBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -7,6 +7,7 @@ import {
   Alert,
   Animated,
   Linking,
+  PanResponder,
   Platform,
   Pressable,
   StyleSheet,
@@ -15,6 +16,14 @@ import {
 } from 'react-native';
 import { Timestamp } from 'firebase/firestore';
 
+import { ReactionChips } from '@/components/messages/ReactionChips';
+import { ReplyQuote } from '@/components/messages/ReplyQuote';
+import { describeDisappearingChange } from '@/lib/disappearing';
+import { UNSENT_MESSAGE_LABEL } from '@/lib/message-edits';
+import type { ReplyTo } from '@/lib/replies';
+import { HIDDEN_CONTENT_LABEL } from '@/lib/reports';
+import { getLanguageLabel, type CachedTranslation } from '@/lib/translation';
+
 // Types
 type ChatMessage = {
   id: string;
@@ -28,15 +37,28 @@ type ChatMessage = {
   audioDuration?: number;
   expiresAfterView?: boolean;
   expiresAt?: Timestamp | Date;
+  deliveredAt?: Timestamp | null;
+  readAt?: Timestamp | null;
+  reactions?: Record<string, string>;
+  translations?: Record<string, CachedTranslation>;
   location?: {
     lat: number;
     lng: number;
   };
+  replyTo?: ReplyTo;
+  editedAt?: Timestamp | null;
+  unsent?: boolean;
+  moderationHidden?: boolean;
+  system?: 'disappearing';
+  disappearingAfter?: number | null;
+  deliveryState?: 'queued' | 'sending' | 'failed';
 };
 
 type TranslationEntry = {
   text: string | null;
   target: string;
+  source?: string;
+  detectedSource?: string | null;
 };
 
 type ChatMessageItemProps = {
@@ -44,6 +66,8 @@ type ChatMessageItemProps = {
   isMine: boolean;
   chatMeta: any;
   otherId: string;
+  myId?: string | null;
+  readReceiptsEnabled: boolean;
   palette: any;
   translations: Record<string, TranslationEntry | undefined>;
   translatingMap: Record<string, boolean>;
@@ -58,10 +82,22 @@ type ChatMessageItemProps = {
   getTargetLangForMessage: (message: ChatMessage) => string;
   handlePlayAudio: (item: ChatMessage) => void;
   handleOpenImageMessage: (message: ChatMessage) => void;
+  handleRetryMessage: (message: ChatMessage) => void;
+  handleLongPressMessage: (message: ChatMessage) => void;
+  handleToggleReaction: (message: ChatMessage, emoji: string) => void;
+  getUserName: (userId: string) => string;
+  handleReplyToMessage: (message: ChatMessage) => void;
+  handlePressReply: (replyTo: ReplyTo) => void;
+  highlighted?: boolean;
   translateAllEnabled: boolean;
   ParticleEffect: React.ComponentType<{ visible: boolean; color: string }>;
 };
 
+const FAILED_COLOR = '#ef4444';
+// Trascinamento verso destra oltre questa soglia: risposta al messaggio
+const SWIPE_REPLY_THRESHOLD = 64;
+const SWIPE_MAX_OFFSET = 88;
+
 const formatAudioDuration = (ms?: number) => {
   if (ms === undefined || ms === null) return '0:00';
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
@@ -75,6 +111,8 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
   isMine,
   chatMeta,
   otherId,
+  myId,
+  readReceiptsEnabled,
   palette,
   translations,
   translatingMap,
@@ -89,13 +127,23 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
   getTargetLangForMessage,
   handlePlayAudio,
   handleOpenImageMessage,
+  handleRetryMessage,
+  handleLongPressMessage,
+  handleToggleReaction,
+  getUserName,
+  handleReplyToMessage,
+  handlePressReply,
+  highlighted,
   translateAllEnabled,
   ParticleEffect,
 }) => {
   const time = formatTime(item.createdAt);
-  const isPendingImage = isMine && item.image && item.id.startsWith('local-img-');
-  const isPendingAudio = isMine && item.audio && item.id.startsWith('local-audio-');
-  const isPendingLocation = isMine && item.location && item.id.startsWith('local-location-');
+  const deliveryState = isMine ? item.deliveryState : undefined;
+  const isInFlight = deliveryState === 'queued' || deliveryState === 'sending';
+  const isFailed = deliveryState === 'failed';
+  const isPendingImage = !!item.image && isInFlight;
+  const isPendingAudio = !!item.audio && isInFlight;
+  const isPendingLocation = !!item.location && isInFlight;
   const loadedPlayback = playbackStatus && playbackStatus.isLoaded ? playbackStatus : null;
   const isPlayingThis = playingId === item.id && !!loadedPlayback;
   const progress =
@@ -112,6 +160,27 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
     setSensitiveRevealed(false);
   }, [item.id]);
   const shouldBlurSensitive = isSensitiveImage && !isMine && !sensitiveRevealed;
+  const canReply = !item.deliveryState && !item.unsent && !item.moderationHidden && !item.system;
+  const swipeX = React.useRef(new Animated.Value(0)).current;
+  const swipeReplyRef = React.useRef<(() => void) | null>(null);
+  swipeReplyRef.current = canReply ? () => handleReplyToMessage(item) : null;
+  // Solo gesti chiaramente orizzontali: lo scroll verticale della lista resta alla FlatList
+  const swipeResponder = React.useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        !!swipeReplyRef.current && gesture.dx > 12 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        swipeX.setValue(Math.max(0, Math.min(SWIPE_MAX_OFFSET, gesture.dx)));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        if (gesture.dx >= SWIPE_REPLY_THRESHOLD) swipeReplyRef.current?.();
+        Animated.spring(swipeX, { toValue: 0, useNativeDriver: true }).start();
+      },
+      onPanResponderTerminate: () => {
+        Animated.spring(swipeX, { toValue: 0, useNativeDriver: true }).start();
+      },
+    })
+  ).current;
   const isFading = !!fadingMap[item.id];
   const createdAtMs =
     item.createdAt instanceof Date
@@ -125,14 +194,22 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
       : chatMeta?.readBy?.[otherId] instanceof Date
       ? (chatMeta.readBy[otherId] as Date).getTime()
       : 0;
-  const isReadByOther = isMine && createdAtMs && otherReadMs && otherReadMs >= createdAtMs;
-  const isSendingLocal = isMine && item.id.startsWith('local-');
+  // Messaggi vecchi senza readAt: si ricade sull'ultimo readBy della chat
+  const isReadByOther =
+    isMine &&
+    readReceiptsEnabled &&
+    (item.readAt !== undefined
+      ? !!item.readAt
+      : !!createdAtMs && !!otherReadMs && otherReadMs >= createdAtMs);
+  const isDeliveredToOther = isMine && (isReadByOther || !!item.deliveredAt);
   const statusColor = isMine ? 'rgba(255,255,255,0.7)' : palette.muted;
   const statusIconColor = isReadByOther ? palette.accent : statusColor;
   const translation = translations[item.id];
   const desiredTarget = getTargetLangForMessage(item);
   const translatedText =
-    translation && translation.target === desiredTarget ? translation.text : undefined;
+    translation && translation.target === desiredTarget && translation.source === item.text
+      ? translation.text
+      : undefined;
   const translating = translatingMap[item.id];
   const showParticleEffect = !!showParticles[item.id];
   const displayText =
@@ -140,6 +217,14 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
       ? translatedText || item.text || ''
       : item.text || '';
   const showTranslating = translateAllEnabled && translating && translatedText === undefined;
+  // Lingua rilevata dal server, mostrata solo se il testo è stato davvero tradotto
+  const translatedFrom =
+    translateAllEnabled &&
+    translatedText &&
+    translation?.detectedSource &&
+    translation.detectedSource !== desiredTarget
+      ? getLanguageLabel(translation.detectedSource)
+      : null;
   const handleImagePress = () => {
     if (!item.image) return;
     if (shouldBlurSensitive) {
@@ -157,6 +242,88 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
     }
     handleOpenImageMessage(item);
   };
+  // In coda: orologio, in invio: spinner, non inviato: avviso; poi una spunta (inviato),
+  // due spunte (consegnato), due spunte colorate (letto)
+  const renderDeliveryStatus = () => {
+    if (!isMine) return null;
+    if (deliveryState === 'sending') {
+      return <ActivityIndicator size="small" color={statusColor} style={styles.statusIcon} />;
+    }
+    if (deliveryState === 'queued') {
+      return <Ionicons name="time-outline" size={14} color={statusColor} style={styles.statusIcon} />;
+    }
+    if (deliveryState === 'failed') {
+      return <Ionicons name="alert-circle" size={16} color={FAILED_COLOR} style={styles.statusIcon} />;
+    }
+    return (
+      <Ionicons
+        name={isDeliveredToOther ? 'checkmark-done' : 'checkmark'}
+        size={16}
+        color={statusIconColor}
+        style={styles.statusIcon}
+      />
+    );
+  };
+  const failedNotice = isFailed ? (
+    <Pressable
+      style={styles.failedRow}
+      onPress={() => handleRetryMessage(item)}
+      hitSlop={6}
+    >
+      <Text style={styles.failedText}>Non inviato · tocca per riprovare</Text>
+    </Pressable>
+  ) : null;
+  // I messaggi ancora in coda non hanno un documento su cui reagire
+  const handleLongPress =
+    deliveryState || item.unsent || item.moderationHidden
+      ? undefined
+      : () => handleLongPressMessage(item);
+  const reactionChips = (
+    <ReactionChips
+      reactions={item.reactions}
+      myId={myId}
+      alignEnd={isMine}
+      palette={palette}
+      getUserName={getUserName}
+      onToggle={(emoji) => handleToggleReaction(item, emoji)}
+    />
+  );
+  const replyQuote = item.replyTo ? (
+    <ReplyQuote
+      replyTo={item.replyTo}
+      authorName={getUserName(item.replyTo.senderId)}
+      accentColor={isMine ? '#fff' : palette.tint}
+      textColor={isMine ? 'rgba(255,255,255,0.85)' : palette.muted}
+      backgroundColor={isMine ? 'rgba(255,255,255,0.15)' : `${palette.tint}12`}
+      onPress={() => handlePressReply(item.replyTo!)}
+    />
+  ) : null;
+  const containerProps = {
+    style: [
+      styles.swipeContainer,
+      highlighted && { backgroundColor: `${palette.tint}24` },
+      { transform: [{ translateX: swipeX }] },
+    ],
+    ...swipeResponder.panHandlers,
+  };
+  const swipeHint = (
+    <Animated.View
+      pointerEvents="none"
+      style={[
+        styles.swipeHint,
+        {
+          opacity: swipeX.interpolate({
+            inputRange: [0, SWIPE_REPLY_THRESHOLD],
+            outputRange: [0, 1],
+            extrapolate: 'clamp',
+          }),
+          transform: [{ translateX: Animated.multiply(swipeX, -1) }],
+        },
+      ]}
+    >
+      <Ionicons name="arrow-undo" size={18} color={palette.muted} />
+    </Animated.View>
+  );
   const showSensitiveOverlay = shouldBlurSensitive;
   const showLockedOverlay = isLockedImage && !showSensitiveOverlay;
 
@@ -179,9 +346,56 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
         }
       : undefined;
 
+  if (item.system === 'disappearing') {
+    return (
+      <View style={styles.systemRow}>
+        <View style={[styles.systemPill, { backgroundColor: palette.card, borderColor: palette.border }]}>
+          <Ionicons name="timer-outline" size={14} color={palette.muted} />
+          <Text style={[styles.systemText, { color: palette.muted }]}>
+            {describeDisappearingChange(
+              item.disappearingAfter ?? null,
+              getUserName(item.senderId),
+              isMine
+            )}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (item.unsent || item.moderationHidden) {
+    return (
+      <Animated.View {...containerProps}>
+        <View style={[styles.messageRow, isMine ? styles.messageRowMine : styles.messageRowOther]}>
+          <View
+            style={[
+              styles.bubble,
+              isMine ? styles.bubbleMine : styles.bubbleOther,
+              styles.unsentBubble,
+              { borderColor: palette.border },
+            ]}
+          >
+            <View style={styles.unsentRow}>
+              <Ionicons
+                name={item.unsent ? 'ban-outline' : 'eye-off-outline'}
+                size={14}
+                color={palette.muted}
+              />
+              <Text style={[styles.unsentText, { color: palette.muted }]}>
+                {item.unsent ? UNSENT_MESSAGE_LABEL : HIDDEN_CONTENT_LABEL}
+              </Text>
+            </View>
+            <Text style={[styles.timeInside, { color: palette.muted }]}>{time}</Text>
+          </View>
+        </View>
+      </Animated.View>
+    );
+  }
+
   if (item.location) {
     return (
-      <View style={{ position: 'relative' }}>
+      <Animated.View {...containerProps}>
+        {swipeHint}
         <Animated.View
           style={[
             styles.messageRow,
@@ -198,6 +412,7 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
                 backgroundColor: isMine ? `${palette.tint}20` : palette.card,
               },
             ]}
+            onLongPress={handleLongPress}
             onPress={() => {
               const { lat, lng } = item.location!;
               const url = Platform.select({
@@ -208,6 +423,7 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
               if (url) Linking.openURL(url).catch(() => {});
             }}
           >
+            {replyQuote}
             <View style={styles.locationRow}>
               <View style={[styles.locationIcon, { backgroundColor: `${palette.tint}18` }]}>
                 <Ionicons name="location" size={16} color={palette.tint} />
@@ -223,15 +439,9 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
             </View>
             <View style={styles.statusRow}>
               <Text style={[styles.timeInside, { color: statusColor }]}>{time}</Text>
-              {isMine && !isSendingLocal ? (
-                <Ionicons
-                  name={isReadByOther ? 'checkmark-done' : 'checkmark'}
-                  size={16}
-                  color={statusIconColor}
-                  style={styles.statusIcon}
-                />
-              ) : null}
+              {renderDeliveryStatus()}
             </View>
+            {failedNotice}
             {isEphemeral ? (
               <View
                 style={[
@@ -259,17 +469,19 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
             ) : null}
           </Pressable>
         </Animated.View>
+        {reactionChips}
 
         {showParticleEffect && (
           <ParticleEffect visible={showParticleEffect} color={isMine ? palette.tint : palette.border} />
         )}
-      </View>
+      </Animated.View>
     );
   }
 
   if (item.audio) {
     return (
-      <View style={{ position: 'relative' }}>
+      <Animated.View {...containerProps}>
+        {swipeHint}
         <Animated.View
           style={[
             styles.messageRow,
@@ -287,6 +499,7 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
               },
             ]}
             onPress={() => handlePlayAudio(item)}
+            onLongPress={handleLongPress}
           >
             <View style={[styles.audioIcon, { backgroundColor: `${palette.tint}18` }]}>
               {isPendingAudio ? (
@@ -301,6 +514,7 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
             </View>
 
             <View style={styles.audioContent}>
+              {replyQuote}
               <View style={styles.audioProgressRow}>
                 <View
                   style={[
@@ -336,16 +550,10 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
                 </Text>
                 <View style={styles.statusRow}>
                   <Text style={[styles.timeInside, { color: statusColor }]}>{time}</Text>
-                  {isMine && !isSendingLocal ? (
-                    <Ionicons
-                      name={isReadByOther ? 'checkmark-done' : 'checkmark'}
-                      size={16}
-                      color={statusIconColor}
-                      style={styles.statusIcon}
-                    />
-                  ) : null}
+                  {renderDeliveryStatus()}
                 </View>
               </View>
+              {failedNotice}
             </View>
 
             {isEphemeral ? (
@@ -375,16 +583,18 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
             ) : null}
           </Pressable>
         </Animated.View>
+        {reactionChips}
 
         {showParticleEffect && (
           <ParticleEffect visible={showParticleEffect} color={isMine ? palette.tint : palette.border} />
         )}
-      </View>
+      </Animated.View>
     );
   }
 
   return (
-    <View style={{ position: 'relative' }}>
+    <Animated.View {...containerProps}>
+      {swipeHint}
       <Animated.View
         style={[
           styles.messageRow,
@@ -393,7 +603,7 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
         ]}
         pointerEvents={isFading ? 'none' : 'auto'}
       >
-        <View
+        <Pressable
           style={[
             styles.bubble,
             isMine ? styles.bubbleMine : styles.bubbleOther,
@@ -402,11 +612,14 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
               borderColor: isMine ? palette.tint : palette.border,
             },
           ]}
+          onLongPress={handleLongPress}
         >
+          {replyQuote}
           {item.image ? (
             <Pressable
               style={styles.imageWrapper}
               onPress={handleImagePress}
+              onLongPress={handleLongPress}
               disabled={isPendingImage}
             >
               <Image
@@ -467,29 +680,44 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
           {showTranslating ? (
             <ActivityIndicator size="small" color={isMine ? '#fff' : palette.text} />
           ) : null}
+          {translatedFrom ? (
+            <Text style={[styles.translatedFrom, { color: statusColor }]}>
+              {`Tradotto da ${translatedFrom}`}
+            </Text>
+          ) : null}
 
           <View style={styles.statusRow}>
-            <Text style={[styles.timeInside, { color: statusColor }]}>{time}</Text>
-            {isMine && !isSendingLocal ? (
-              <Ionicons
-                name={isReadByOther ? 'checkmark-done' : 'checkmark'}
-                size={16}
-                color={statusIconColor}
-                style={styles.statusIcon}
-              />
+            {item.editedAt ? (
+              <Text style={[styles.timeInside, { color: statusColor }]}>modificato</Text>
             ) : null}
+            <Text style={[styles.timeInside, { color: statusColor }]}>{time}</Text>
+            {renderDeliveryStatus()}
           </View>
-        </View>
+          {failedNotice}
+        </Pressable>
       </Animated.View>
+      {reactionChips}
 
       {showParticleEffect && (
         <ParticleEffect visible={showParticleEffect} color={isMine ? palette.tint : palette.border} />
       )}
-    </View>
+    </Animated.View>
   );
 };
 
 const styles = StyleSheet.create({
+  swipeContainer: {
+    position: 'relative',
+    borderRadius: 16,
+  },
+  swipeHint: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    paddingLeft: 4,
+  },
   messageRow: {
     flexDirection: 'row',
     marginBottom: 4,
@@ -534,6 +762,57 @@ const styles = StyleSheet.create({
   statusIcon: {
     marginLeft: 2,
   },
+  translatedFrom: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  systemRow: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  systemPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: '85%',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  systemText: {
+    flexShrink: 1,
+    fontSize: 12,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  unsentBubble: {
+    backgroundColor: 'transparent',
+    borderStyle: 'dashed',
+  },
+  unsentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  unsentText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  failedRow: {
+    marginTop: 6,
+    alignSelf: 'flex-end',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+    backgroundColor: '#fff',
+  },
+  failedText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: FAILED_COLOR,
+  },
   ephemeralRow: {
     marginTop: 8,
     paddingHorizontal: 10,
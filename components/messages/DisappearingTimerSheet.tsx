@@ -0,0 +1,103 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { DISAPPEARING_OPTIONS, type DisappearingTimer } from '@/lib/disappearing';
+
+type DisappearingTimerSheetProps = {
+  visible: boolean;
+  palette: any;
+  value: DisappearingTimer;
+  onSelect: (value: DisappearingTimer) => void;
+  onClose: () => void;
+};
+
+// Scelta della durata dei messaggi effimeri dalla testata della chat
+export const DisappearingTimerSheet: React.FC<DisappearingTimerSheetProps> = ({
+  visible,
+  palette,
+  value,
+  onSelect,
+  onClose,
+}) => (
+  <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+    <View style={styles.overlay}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.container, { backgroundColor: palette.card, borderColor: palette.border }]}>
+        <View style={[styles.handle, { backgroundColor: palette.border }]} />
+        <Text style={[styles.title, { color: palette.text }]}>Messaggi effimeri</Text>
+        <Text style={[styles.subtitle, { color: palette.muted }]}>
+          I nuovi messaggi della chat spariscono per entrambi dopo il tempo scelto.
+        </Text>
+        {DISAPPEARING_OPTIONS.map((option) => {
+          const selected = option.value === value;
+          return (
+            <Pressable
+              key={option.label}
+              style={[
+                styles.option,
+                { borderColor: selected ? palette.tint : palette.border },
+                selected && { backgroundColor: `${palette.tint}14` },
+              ]}
+              onPress={() => {
+                onClose();
+                if (!selected) onSelect(option.value);
+              }}
+            >
+              <Text style={[styles.optionText, { color: palette.text }]}>{option.label}</Text>
+              {selected ? <Ionicons name="checkmark" size={18} color={palette.tint} /> : null}
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+  },
+  container: {
+    borderTopLeftRadius: 22,
+    borderTopRightRadius: 22,
+    borderWidth: 1,
+    paddingHorizontal: 18,
+    paddingTop: 10,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  handle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,138 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { REACTION_EMOJIS } from '@/lib/reactions';
+
+type MessageAction = {
+  key: string;
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+type MessageActionsSheetProps = {
+  visible: boolean;
+  palette: any;
+  selectedEmoji?: string | null;
+  actions?: MessageAction[];
+  onReact: (emoji: string) => void;
+  onClose: () => void;
+};
+
+const DESTRUCTIVE_COLOR = '#ef4444';
+
+// Menu a pressione prolungata sul messaggio: reazioni in alto, azioni sotto
+export const MessageActionsSheet: React.FC<MessageActionsSheetProps> = ({
+  visible,
+  palette,
+  selectedEmoji,
+  actions = [],
+  onReact,
+  onClose,
+}) => (
+  <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+    <View style={styles.overlay}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.container, { backgroundColor: palette.card, borderColor: palette.border }]}>
+        <View style={[styles.handle, { backgroundColor: palette.border }]} />
+        <View style={styles.emojiRow}>
+          {REACTION_EMOJIS.map((emoji) => {
+            const selected = emoji === selectedEmoji;
+            return (
+              <Pressable
+                key={emoji}
+                style={[
+                  styles.emojiButton,
+                  selected && { backgroundColor: `${palette.tint}22`, borderColor: palette.tint },
+                ]}
+                onPress={() => {
+                  onReact(emoji);
+                  onClose();
+                }}
+              >
+                <Text style={styles.emoji}>{emoji}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {actions.map((action) => {
+          const color = action.destructive ? DESTRUCTIVE_COLOR : palette.text;
+          return (
+            <Pressable
+              key={action.key}
+              style={[styles.action, { borderColor: palette.border }]}
+              onPress={() => {
+                onClose();
+                action.onPress();
+              }}
+            >
+              <Ionicons name={action.icon} size={18} color={color} />
+              <Text style={[styles.actionText, { color }]}>{action.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+  },
+  container: {
+    borderTopLeftRadius: 22,
+    borderTopRightRadius: 22,
+    borderWidth: 1,
+    paddingHorizontal: 18,
+    paddingTop: 10,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  handle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 4,
+  },
+  emojiRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  emojiButton: {
+    width: 46,
+    height: 46,
+    borderRadius: 23,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emoji: {
+    fontSize: 26,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export type { MessageAction };
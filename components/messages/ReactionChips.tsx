@@ -0,0 +1,85 @@
+import React from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { summarizeReactions, type ReactionMap } from '@/lib/reactions';
+
+type ReactionChipsProps = {
+  reactions?: ReactionMap;
+  myId?: string | null;
+  alignEnd: boolean;
+  palette: any;
+  getUserName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+};
+
+// Chip sotto il messaggio: tocco = metti/togli la stessa reazione, pressione prolungata = chi ha reagito
+export const ReactionChips: React.FC<ReactionChipsProps> = ({
+  reactions,
+  myId,
+  alignEnd,
+  palette,
+  getUserName,
+  onToggle,
+}) => {
+  const summary = summarizeReactions(reactions, myId);
+  if (!summary.length) return null;
+
+  return (
+    <View style={[styles.row, alignEnd ? styles.rowEnd : styles.rowStart]}>
+      {summary.map((item) => (
+        <Pressable
+          key={item.emoji}
+          style={[
+            styles.chip,
+            {
+              backgroundColor: item.mine ? `${palette.tint}22` : palette.card,
+              borderColor: item.mine ? palette.tint : palette.border,
+            },
+          ]}
+          onPress={() => onToggle(item.emoji)}
+          onLongPress={() =>
+            Alert.alert(item.emoji, item.userIds.map((id) => getUserName(id)).join('\n'))
+          }
+        >
+          <Text style={styles.emoji}>{item.emoji}</Text>
+          {item.count > 1 ? (
+            <Text style={[styles.count, { color: palette.text }]}>{item.count}</Text>
+          ) : null}
+        </Pressable>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: -2,
+    marginBottom: 6,
+    paddingHorizontal: 8,
+  },
+  rowEnd: {
+    justifyContent: 'flex-end',
+  },
+  rowStart: {
+    justifyContent: 'flex-start',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 7,
+    paddingVertical: 2,
+  },
+  emoji: {
+    fontSize: 14,
+  },
+  count: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,67 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { describeReply, REPLY_KIND_ICONS, type ReplyTo } from '@/lib/replies';
+
+type ReplyQuoteProps = {
+  replyTo: ReplyTo;
+  authorName: string;
+  accentColor: string;
+  textColor: string;
+  backgroundColor: string;
+  onPress?: () => void;
+};
+
+// Citazione del messaggio a cui si risponde: nella bolla e sopra al composer
+export const ReplyQuote: React.FC<ReplyQuoteProps> = ({
+  replyTo,
+  authorName,
+  accentColor,
+  textColor,
+  backgroundColor,
+  onPress,
+}) => {
+  const icon = REPLY_KIND_ICONS[replyTo.kind];
+  return (
+    <Pressable
+      style={[styles.quote, { borderLeftColor: accentColor, backgroundColor }]}
+      onPress={onPress}
+      disabled={!onPress}
+    >
+      <Text style={[styles.author, { color: accentColor }]} numberOfLines={1}>
+        {authorName}
+      </Text>
+      <View style={styles.previewRow}>
+        {icon ? <Ionicons name={icon} size={13} color={textColor} /> : null}
+        <Text style={[styles.preview, { color: textColor }]} numberOfLines={2}>
+          {describeReply(replyTo)}
+        </Text>
+      </View>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  quote: {
+    borderLeftWidth: 3,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginBottom: 6,
+    gap: 2,
+  },
+  author: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  preview: {
+    flexShrink: 1,
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,148 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import React from 'react';
+import {
+  Animated,
+  PanResponder,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+
+type SwipeAction = {
+  key: string;
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  color: string;
+  onPress: () => void;
+};
+
+type SwipeableChatRowProps = {
+  children: React.ReactNode;
+  // Scorrendo verso destra: un'azione immediata (es. letta/non letta)
+  leadingAction?: SwipeAction;
+  // Scorrendo verso sinistra: pulsanti che restano aperti finché non se ne sceglie uno
+  trailingActions?: SwipeAction[];
+  style?: StyleProp<ViewStyle>;
+};
+
+const ACTION_WIDTH = 76;
+const LEADING_THRESHOLD = 72;
+const OPEN_THRESHOLD = 48;
+
+export const SwipeableChatRow: React.FC<SwipeableChatRowProps> = ({
+  children,
+  leadingAction,
+  trailingActions = [],
+  style,
+}) => {
+  const translateX = React.useRef(new Animated.Value(0)).current;
+  const openOffsetRef = React.useRef(0);
+  const actionsRef = React.useRef({ leadingAction, trailingActions });
+  actionsRef.current = { leadingAction, trailingActions };
+
+  const settle = React.useCallback(
+    (toValue: number) => {
+      openOffsetRef.current = toValue;
+      Animated.spring(translateX, { toValue, useNativeDriver: true, bounciness: 0 }).start();
+    },
+    [translateX]
+  );
+
+  // Solo gesti chiaramente orizzontali: lo scroll verticale resta alla FlatList
+  const responder = React.useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        Math.abs(gesture.dx) > 12 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        const { leadingAction: leading, trailingActions: trailing } = actionsRef.current;
+        const min = -trailing.length * ACTION_WIDTH;
+        const max = leading ? ACTION_WIDTH + 16 : 0;
+        translateX.setValue(Math.max(min, Math.min(max, openOffsetRef.current + gesture.dx)));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const { leadingAction: leading, trailingActions: trailing } = actionsRef.current;
+        const offset = openOffsetRef.current + gesture.dx;
+        if (leading && offset >= LEADING_THRESHOLD) {
+          leading.onPress();
+          settle(0);
+          return;
+        }
+        settle(trailing.length && offset <= -OPEN_THRESHOLD ? -trailing.length * ACTION_WIDTH : 0);
+      },
+      onPanResponderTerminate: () => settle(openOffsetRef.current),
+    })
+  ).current;
+
+  const runTrailing = (action: SwipeAction) => {
+    settle(0);
+    action.onPress();
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      {leadingAction ? (
+        <View style={[styles.leading, { backgroundColor: leadingAction.color }]}>
+          <Ionicons name={leadingAction.icon} size={20} color="#fff" />
+          <Text style={styles.actionText}>{leadingAction.label}</Text>
+        </View>
+      ) : null}
+      {trailingActions.length ? (
+        <View style={styles.trailing}>
+          {trailingActions.map((action) => (
+            <Pressable
+              key={action.key}
+              style={[styles.trailingAction, { backgroundColor: action.color }]}
+              onPress={() => runTrailing(action)}
+            >
+              <Ionicons name={action.icon} size={20} color="#fff" />
+              <Text style={styles.actionText} numberOfLines={1}>
+                {action.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+      <Animated.View style={{ transform: [{ translateX }] }} {...responder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  leading: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingLeft: 20,
+  },
+  trailing: {
+    position: 'absolute',
+    right: 0,
+    top: 0,
+    bottom: 0,
+    flexDirection: 'row',
+  },
+  trailingAction: {
+    width: ACTION_WIDTH,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
+
+export type { SwipeAction };
@@ -29,6 +29,7 @@ export function ProfileCard({ profile, onLike, onPass }: Props) {
   const hasBio = !!bio;
   const interests = Array.isArray(profile.interests) ? profile.interests.filter(Boolean) : [];
   const hasInterests = interests.length > 0;
+  const hasDistance = typeof profile.distanceKm === 'number';
 
   return (
     <View
@@ -41,10 +42,12 @@ export function ProfileCard({ profile, onLike, onPass }: Props) {
         },
       ]}>
       <View style={styles.photoWrapper}>
-        <View style={[styles.distancePill, { backgroundColor: 'rgba(0,0,0,0.5)' }]}>
-          <Ionicons name="location" size={14} color="#fff" />
-          <Text style={styles.distanceText}>{profile.distanceKm} km</Text>
-        </View>
+        {hasDistance && (
+          <View style={[styles.distancePill, { backgroundColor: 'rgba(0,0,0,0.5)' }]}>
+            <Ionicons name="location" size={14} color="#fff" />
+            <Text style={styles.distanceText}>{profile.distanceKm} km</Text>
+          </View>
+        )}
         <View style={styles.statusDot} />
         {hasPhoto ? (
           <Image
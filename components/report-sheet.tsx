@@ -0,0 +1,182 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import {
+  getReportErrorAlert,
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  reportContent,
+  type ReportReason,
+  type ReportTarget,
+} from '@/lib/reports';
+
+type Props = {
+  target: ReportTarget | null;
+  title?: string;
+  palette: any;
+  onClose: () => void;
+};
+
+// "Segnala": motivo, dettagli facoltativi e invio a reportContent
+export function ReportSheet({ target, title = 'Segnala', palette, onClose }: Props) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    setReason(null);
+    setDetails('');
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!target || !reason || sending) return;
+    setSending(true);
+    try {
+      await reportContent(target, reason, details);
+      onClose();
+      Alert.alert(
+        'Segnalazione inviata',
+        'Grazie: la esamineremo al più presto. Chi hai segnalato non saprà che sei stato tu.'
+      );
+    } catch (e) {
+      const alert = getReportErrorAlert(e, 'Non sono riuscito a inviare la segnalazione.');
+      Alert.alert(alert.title, alert.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!target} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.container, { backgroundColor: palette.card, borderColor: palette.border }]}>
+          <View style={[styles.handle, { backgroundColor: palette.border }]} />
+          <Text style={[styles.title, { color: palette.text }]}>{title}</Text>
+          <Text style={[styles.subtitle, { color: palette.muted }]}>Perché lo segnali?</Text>
+          <View style={styles.reasons}>
+            {REPORT_REASONS.map((item) => {
+              const active = item.key === reason;
+              return (
+                <Pressable
+                  key={item.key}
+                  style={[
+                    styles.reason,
+                    {
+                      borderColor: active ? palette.tint : palette.border,
+                      backgroundColor: active ? `${palette.tint}14` : 'transparent',
+                    },
+                  ]}
+                  onPress={() => setReason(item.key)}
+                >
+                  <Text style={[styles.reasonText, { color: palette.text }]}>{item.label}</Text>
+                  {active ? <Ionicons name="checkmark" size={18} color={palette.tint} /> : null}
+                </Pressable>
+              );
+            })}
+          </View>
+          <TextInput
+            value={details}
+            onChangeText={setDetails}
+            placeholder="Aggiungi dettagli (facoltativo)"
+            placeholderTextColor={palette.muted}
+            style={[styles.input, { color: palette.text, borderColor: palette.border }]}
+            maxLength={REPORT_DETAILS_MAX_LENGTH}
+            multiline
+          />
+          <Pressable
+            style={[styles.submit, { backgroundColor: palette.tint, opacity: reason ? 1 : 0.5 }]}
+            onPress={handleSubmit}
+            disabled={!reason || sending}
+          >
+            {sending ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.submitText}>Invia segnalazione</Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+  },
+  container: {
+    borderTopLeftRadius: 22,
+    borderTopRightRadius: 22,
+    borderWidth: 1,
+    paddingHorizontal: 18,
+    paddingTop: 10,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  handle: {
+    width: 46,
+    height: 5,
+    borderRadius: 999,
+    alignSelf: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  reasons: {
+    gap: 6,
+  },
+  reason: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  reasonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    minHeight: 64,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  submit: {
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  submitText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,248 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { signOut } from 'firebase/auth';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import {
+  APPEAL_TEXT_MAX_LENGTH,
+  describeAccountStatus,
+  getAccountStatusErrorAlert,
+  parseAccountAppeal,
+  submitAccountAppeal,
+  type AccountAppeal,
+  type AccountStatus,
+} from '@/lib/account-status';
+import { auth, db } from '@/lib/firebase';
+import { unregisterPushToken } from '@/lib/notifications';
+
+type SuspendedAccountScreenProps = {
+  userId: string;
+  status: AccountStatus;
+  palette: any;
+};
+
+// Copre tutta l'app (overlay in app/_layout.tsx) finché l'account è sospeso o bannato
+export function SuspendedAccountScreen({ userId, status, palette }: SuspendedAccountScreenProps) {
+  const [appeal, setAppeal] = useState<AccountAppeal | null>(null);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      doc(db, 'accountAppeals', userId),
+      (snap) => setAppeal(parseAccountAppeal(snap.data())),
+      () => setAppeal(null)
+    );
+    return unsub;
+  }, [userId]);
+
+  // Un ricorso vale per la sola sospensione in cui è stato inviato
+  const currentAppeal = appeal && appeal.suspendedAt === status.since ? appeal : null;
+
+  const handleSubmit = async () => {
+    if (!text.trim() || sending) return;
+    setSending(true);
+    try {
+      await submitAccountAppeal(text);
+      setText('');
+    } catch (error) {
+      const alert = getAccountStatusErrorAlert(error, 'Invio non riuscito, riprova.');
+      Alert.alert(alert.title, alert.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Come il logout dalle impostazioni: senza token il dispositivo non riceve più notifiche
+  const handleSignOut = async () => {
+    await unregisterPushToken(userId).catch(() => {});
+    signOut(auth).catch(() => {});
+  };
+
+  const renderAppeal = () => {
+    if (currentAppeal?.status === 'pending') {
+      return (
+        <View style={[styles.notice, { borderColor: palette.border }]}>
+          <Ionicons name="time-outline" size={18} color={palette.muted} />
+          <Text style={[styles.noticeText, { color: palette.text }]}>
+            Ricorso inviato: lo esamineremo il prima possibile.
+          </Text>
+        </View>
+      );
+    }
+    if (currentAppeal?.status === 'rejected') {
+      return (
+        <View style={[styles.notice, { borderColor: palette.border }]}>
+          <Ionicons name="close-circle-outline" size={18} color={palette.muted} />
+          <View style={styles.noticeBody}>
+            <Text style={[styles.noticeText, { color: palette.text }]}>
+              Il tuo ricorso è stato respinto.
+            </Text>
+            {currentAppeal.reviewNote ? (
+              <Text style={[styles.muted, { color: palette.muted }]}>
+                {currentAppeal.reviewNote}
+              </Text>
+            ) : null}
+          </View>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.form}>
+        <Text style={[styles.sectionTitle, { color: palette.text }]}>Presenta ricorso</Text>
+        <Text style={[styles.muted, { color: palette.muted }]}>
+          Se pensi che si tratti di un errore, spiegaci cosa è successo.
+        </Text>
+        <TextInput
+          value={text}
+          onChangeText={setText}
+          placeholder="Scrivi il tuo ricorso"
+          placeholderTextColor={palette.muted}
+          style={[styles.input, { color: palette.text, borderColor: palette.border }]}
+          maxLength={APPEAL_TEXT_MAX_LENGTH}
+          multiline
+        />
+        <Pressable
+          style={[
+            styles.submit,
+            { backgroundColor: palette.tint, opacity: text.trim() ? 1 : 0.5 },
+          ]}
+          onPress={handleSubmit}
+          disabled={!text.trim() || sending}
+        >
+          {sending ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.submitText}>Invia ricorso</Text>
+          )}
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.screen, { backgroundColor: palette.background }]}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Ionicons name="lock-closed-outline" size={40} color={palette.tint} style={styles.icon} />
+        <Text style={[styles.title, { color: palette.text }]}>
+          {status.state === 'banned' ? 'Account bannato' : 'Account sospeso'}
+        </Text>
+        <Text style={[styles.description, { color: palette.text }]}>
+          {describeAccountStatus(status)}
+        </Text>
+        {status.reason ? (
+          <View style={[styles.reason, { borderColor: palette.border }]}>
+            <Text style={[styles.muted, { color: palette.muted }]}>Motivo</Text>
+            <Text style={[styles.reasonText, { color: palette.text }]}>{status.reason}</Text>
+          </View>
+        ) : null}
+
+        {renderAppeal()}
+
+        <Pressable onPress={handleSignOut} style={styles.logoutBtn}>
+          <Ionicons name="log-out-outline" size={18} color={palette.muted} />
+          <Text style={[styles.logoutText, { color: palette.muted }]}>Esci</Text>
+        </Pressable>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    gap: 14,
+  },
+  icon: {
+    alignSelf: 'center',
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  reason: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  reasonText: {
+    fontSize: 15,
+  },
+  muted: {
+    fontSize: 13,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+  },
+  noticeBody: {
+    flex: 1,
+    gap: 4,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  form: {
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    minHeight: 96,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  submit: {
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  submitText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  logoutBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+  },
+  logoutText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
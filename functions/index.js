@@ -2,6 +2,11 @@ const admin = require('firebase-admin');
 const functions = require('firebase-functions');
 const { AccessToken } = require('livekit-server-sdk');
 const vision = require('@google-cloud/vision');
+const {
+  SUPPORTED_LANGUAGES,
+  getTranslationProvider,
+  normalizeLanguage,
+} = require('./translation-providers');
 
 admin.initializeApp();
 
@@ -9,6 +14,34 @@ const db = admin.firestore();
 const visionClient = new vision.ImageAnnotatorClient();
 const NUDITY_LEVELS = new Set(['POSSIBLE', 'LIKELY', 'VERY_LIKELY']);
 const PRESENCE_ACTIVE_MS = 2 * 60 * 1000;
+const TAP_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+const TAP_RESPONSES = new Set(['no', 'match', 'maybe']);
+const MATCH_MESSAGE_TEXT = 'Match confermato!';
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const PUSH_BODY_MAX_LENGTH = 120;
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+const MESSAGE_TEXT_MAX_LENGTH = 4000;
+const UNSENT_MESSAGE_PREVIEW = 'Messaggio eliminato';
+// Traduzioni di testo libero (anteprima in uscita) per utente e finestra
+const TRANSLATION_TEXT_LIMIT = 60;
+const TRANSLATION_TEXT_WINDOW_MS = 60 * 60 * 1000;
+// Un messaggio segreto mai aperto non resta in giro oltre questo limite
+const SECRET_MESSAGE_MAX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EXPIRED_MESSAGES_BATCH = 300;
+const SEARCH_MIN_TERM_LENGTH = 2;
+const SEARCH_MAX_TERM_LENGTH = 15;
+const SEARCH_MAX_TERMS = 200;
+const SEARCH_PREVIEW_MAX_LENGTH = 160;
+const REPORT_REASONS = new Set(['spam', 'harassment', 'nudity', 'hate', 'scam', 'minor', 'other']);
+const REPORT_DETAILS_MAX_LENGTH = 1000;
+// Segnalazioni di utenti diversi oltre le quali il contenuto sparisce in attesa di revisione
+const REPORT_AUTO_HIDE_THRESHOLD = 3;
+const MODERATION_ACTIONS = new Set(['approve', 'remove', 'warn', 'suspend', 'ban']);
+const MODERATION_NOTE_MAX_LENGTH = 500;
+const SUSPENSION_MAX_DAYS = 365;
+const ACCOUNT_STATES = new Set(['active', 'suspended', 'banned']);
+const ACCOUNT_RESTRICTED_STATES = new Set(['suspended', 'banned']);
+const APPEAL_TEXT_MAX_LENGTH = 1000;
 
 const normalizeConfigValue = (value) =>
   typeof value === 'string' ? value.trim() : '';
@@ -103,6 +136,111 @@ const getProfileSnapshot = async (userId) => {
   };
 };
 
+const asArray = (value) => (Array.isArray(value) ? value : []);
+
+const getPairId = (a, b) => [a, b].sort().join('_');
+
+// Chiave stabile di un contenuto nella coda di moderazione (segnalazioni e immagini di Vision)
+const getModerationKey = (ref) => ref.path.split('/').join(':');
+
+const requireTargetId = (data, userId) => {
+  const targetId = data?.targetId;
+  if (!targetId || typeof targetId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'missing-target-id');
+  }
+  if (targetId === userId) {
+    throw new functions.https.HttpsError('invalid-argument', 'self-target');
+  }
+  return targetId;
+};
+
+const isBlockedBetween = (myData, targetData, userId, targetId) =>
+  asArray(myData.blocked).includes(targetId) ||
+  asArray(myData.blockedBy).includes(targetId) ||
+  asArray(targetData.blocked).includes(userId) ||
+  asArray(targetData.blockedBy).includes(userId);
+
+// blocked e blockedBy si aggiornano insieme su entrambi i profili: basta leggerne uno
+const getBlockedIds = (profile) =>
+  new Set([...asArray(profile?.blocked), ...asArray(profile?.blockedBy)]);
+
+// Una sospensione scaduta non blocca più: non serve un job che la chiuda
+const isAccountRestricted = (status) =>
+  !!status &&
+  ACCOUNT_RESTRICTED_STATES.has(status.state) &&
+  (!status.until || toMillis(status.until) > Date.now());
+
+const getAccountStatus = async (userId) => {
+  const snap = await db.doc(`accountStatus/${userId}`).get();
+  return snap.exists ? snap.data() || {} : null;
+};
+
+const requireActiveAccount = async (userId) => {
+  if (isAccountRestricted(await getAccountStatus(userId))) {
+    throw new functions.https.HttpsError('permission-denied', 'account-suspended');
+  }
+};
+
+const truncate = (value, max) =>
+  value.length > max ? `${value.slice(0, max - 1)}…` : value;
+
+const describeMessageForPush = (message) => {
+  if (message.expiresAfterView) return 'Messaggio segreto';
+  if (message.image) return '📷 Foto';
+  if (message.audio) return '🎤 Messaggio vocale';
+  if (message.location) return '📍 Posizione';
+  if (typeof message.text === 'string' && message.text.trim()) {
+    return truncate(message.text.trim(), PUSH_BODY_MAX_LENGTH);
+  }
+  return 'Nuovo messaggio';
+};
+
+// Invia una notifica Expo a tutti i dispositivi dell'utente, se la categoria non è silenziata.
+// Token e preferenze stanno in privateProfiles, leggibile solo dal proprietario
+const sendPushToUser = async (userId, category, notification) => {
+  const privateRef = db.doc(`privateProfiles/${userId}`);
+  const privateSnap = await privateRef.get();
+  if (!privateSnap.exists) return;
+  const privateProfile = privateSnap.data() || {};
+  if (privateProfile.notificationPrefs?.[category] === false) return;
+  const tokens = asArray(privateProfile.pushTokens).filter((token) => typeof token === 'string');
+  if (!tokens.length) return;
+
+  const messages = tokens.map((to) => ({
+    to,
+    sound: 'default',
+    channelId: 'default',
+    title: notification.title,
+    body: notification.body,
+    data: { url: notification.url, category },
+  }));
+
+  try {
+    const res = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(messages),
+    });
+    const payload = await res.json().catch(() => ({}));
+    const tickets = asArray(payload.data);
+    const staleTokens = tokens.filter(
+      (_, index) => tickets[index]?.details?.error === 'DeviceNotRegistered'
+    );
+    if (staleTokens.length) {
+      await privateRef.update({
+        pushTokens: admin.firestore.FieldValue.arrayRemove(...staleTokens),
+      });
+    }
+  } catch (e) {
+    console.error('sendPushToUser error', e);
+  }
+};
+
+const buildChatUrl = (otherId, chatId, name, photo) => {
+  const params = new URLSearchParams({ chatId, name: name || '', photo: photo || '' });
+  return `/messages/${otherId}?${params.toString()}`;
+};
+
 const isNudity = (safeSearch) => {
   if (!safeSearch) return false;
   return (
@@ -143,6 +281,69 @@ const buildModerationResponse = (safeSearch, flagged) => ({
   },
 });
 
+// Gli upload nativi via REST non portano customMetadata: le ricaviamo dal path
+const resolveUploadMetadata = (filePath, metadata) => {
+  if (metadata.kind) return metadata;
+  const parts = filePath.split('/');
+  if (parts[0] === 'chat-images' && parts.length === 4) {
+    const messageId = parts[3].replace(/\.[^.]+$/, '');
+    return { ...metadata, kind: 'chat', chatId: parts[1], messageId };
+  }
+  if (parts[0] === 'profile-images' && parts.length === 3) {
+    const photoIndex = parts[2].split('-').pop();
+    return { ...metadata, kind: 'profile', profileId: parts[1], photoIndex };
+  }
+  return metadata;
+};
+
+// Le immagini segnalate da Vision finiscono nella stessa coda delle segnalazioni degli utenti
+const queueFlaggedImage = (ref, entry) =>
+  db.doc(`moderationQueue/${getModerationKey(ref)}`).set(
+    {
+      ...entry,
+      source: 'vision',
+      status: 'pending',
+      flaggedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+const queueFlaggedChatImage = async (messageRef, moderation) => {
+  const snap = await messageRef.get();
+  const message = snap.exists ? snap.data() || {} : {};
+  await queueFlaggedImage(messageRef, {
+    targetType: 'chatImage',
+    targetPath: messageRef.path,
+    reportedUserId: message.senderId || null,
+    snapshot: {
+      image: typeof message.image === 'string' && !message.image.startsWith('data:') ? message.image : '',
+      imagePath: message.imagePath || '',
+      moderation,
+    },
+  });
+};
+
+// L'outbox carica la foto prima di scrivere il messaggio: finché il messaggio non esiste
+// l'esito di Vision resta in chats/{chatId}/imageModeration e lo applica moderateChatImageDataUrl
+const getPendingImageModerationRef = (messageRef) =>
+  messageRef.parent.parent.collection('imageModeration').doc(messageRef.id);
+
+const applyChatImageModeration = async (messageRef, moderationUpdate) => {
+  const applied = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(messageRef);
+    if (!snap.exists) {
+      tx.set(getPendingImageModerationRef(messageRef), moderationUpdate);
+      return false;
+    }
+    tx.update(messageRef, moderationUpdate);
+    return true;
+  });
+  if (applied && moderationUpdate.moderationStatus === 'flagged') {
+    await queueFlaggedChatImage(messageRef, moderationUpdate.moderation);
+  }
+};
+
 exports.moderateImageDataUrl = functions.https.onCall(async (data) => {
   const dataUrl = data?.dataUrl;
   if (!dataUrl || typeof dataUrl !== 'string') {
@@ -166,11 +367,14 @@ exports.moderateImage = functions.storage.object().onFinalize(async (object) =>
   const filePath = object.name;
   if (!filePath) return null;
 
-  const metadata = object.metadata || {};
+  const metadata = resolveUploadMetadata(filePath, object.metadata || {});
   const kind = metadata.kind;
   if (kind !== 'chat' && kind !== 'profile') {
     return null;
   }
+  if (!(object.contentType || '').startsWith('image/')) {
+    return null;
+  }
 
   const [result] = await visionClient.safeSearchDetection(
     `gs://${object.bucket}/${filePath}`
@@ -183,9 +387,10 @@ exports.moderateImage = functions.storage.object().onFinalize(async (object) =>
     const chatId = metadata.chatId;
     const messageId = metadata.messageId;
     if (!chatId || !messageId) return null;
-    await db
-      .doc(`chats/${chatId}/messages/${messageId}`)
-      .set(moderationUpdate, { merge: true });
+    await applyChatImageModeration(
+      db.doc(`chats/${chatId}/messages/${messageId}`),
+      moderationUpdate
+    );
     return null;
   }
 
@@ -217,6 +422,19 @@ exports.moderateImage = functions.storage.object().onFinalize(async (object) =>
       },
       { merge: true }
     );
+    if (flagged) {
+      await queueFlaggedImage(db.doc(`profiles/${profileId}/photos/${photoIndex}`), {
+        targetType: 'profilePhoto',
+        targetPath: profileRef.path,
+        reportedUserId: profileId,
+        photoIndex,
+        snapshot: {
+          image: asArray(data.photos)[photoIndex] || '',
+          imagePath: filePath,
+          moderation: moderationUpdate.moderation,
+        },
+      });
+    }
   }
 
   return null;
@@ -228,7 +446,19 @@ exports.moderateChatImageDataUrl = functions.firestore
     const data = snap.data() || {};
     const image = data.image;
     if (!image || typeof image !== 'string') return null;
-    if (!image.startsWith('data:')) return null;
+    if (!image.startsWith('data:')) {
+      // Foto su Storage già esaminata da moderateImage prima che il messaggio esistesse
+      const pendingRef = getPendingImageModerationRef(snap.ref);
+      const pending = await pendingRef.get();
+      if (!pending.exists) return null;
+      const moderationUpdate = pending.data() || {};
+      await snap.ref.update(moderationUpdate);
+      await pendingRef.delete();
+      if (moderationUpdate.moderationStatus === 'flagged') {
+        await queueFlaggedChatImage(snap.ref, moderationUpdate.moderation);
+      }
+      return null;
+    }
     if (data.moderationStatus && data.moderationStatus !== 'pending') return null;
 
     const parsed = parseDataUrl(image);
@@ -243,7 +473,9 @@ exports.moderateChatImageDataUrl = functions.firestore
       });
       const safe = result.safeSearchAnnotation || {};
       const flagged = isNudity(safe);
-      await snap.ref.set(buildModerationUpdate(safe, flagged), { merge: true });
+      const moderationUpdate = buildModerationUpdate(safe, flagged);
+      await snap.ref.set(moderationUpdate, { merge: true });
+      if (flagged) await queueFlaggedChatImage(snap.ref, moderationUpdate.moderation);
     } catch (e) {
       console.error('moderateChatImageDataUrl error', e);
       await snap.ref.set(buildModerationUpdate({}, true), { merge: true });
@@ -251,20 +483,934 @@ exports.moderateChatImageDataUrl = functions.firestore
     return null;
   });
 
+// Foto e vocali del messaggio su Storage: spariscono insieme al contenuto
+const deleteChatMessageMedia = async (data) => {
+  const paths = [data.imagePath, data.audioPath].filter(
+    (path) => typeof path === 'string' && path
+  );
+  if (!paths.length) return;
+  await Promise.all(
+    paths.map((path) =>
+      admin
+        .storage()
+        .bucket()
+        .file(path)
+        .delete()
+        .catch(() => null)
+    )
+  );
+};
+
 exports.cleanupChatImageOnDelete = functions.firestore
   .document('chats/{chatId}/messages/{messageId}')
   .onDelete(async (snap) => {
+    await deleteChatMessageMedia(snap.data() || {});
+    return null;
+  });
+
+const requireOwnChatMessage = (data, userId) => {
+  const chatId = data?.chatId;
+  const messageId = data?.messageId;
+  if (!chatId || typeof chatId !== 'string' || !messageId || typeof messageId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'missing-message-id');
+  }
+  if (!chatId.split('_').includes(userId)) {
+    throw new functions.https.HttpsError('permission-denied', 'not-a-participant');
+  }
+  return db.doc(`chats/${chatId}/messages/${messageId}`);
+};
+
+// L'anteprima in lista chat segue il messaggio solo se è ancora l'ultimo
+const refreshChatPreview = async (messageRef, preview) => {
+  const chatRef = messageRef.parent.parent;
+  const latest = await chatRef
+    .collection('messages')
+    .orderBy('createdAt', 'desc')
+    .limit(1)
+    .get();
+  if (latest.empty || latest.docs[0].id !== messageRef.id) return;
+  await chatRef.set({ lastMessage: preview }, { merge: true });
+};
+
+// Le versioni precedenti restano in edits/, leggibili solo lato server per la moderazione
+exports.editMessage = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const messageRef = requireOwnChatMessage(data, userId);
+  const text = typeof data?.text === 'string' ? data.text.trim() : '';
+  if (!text) {
+    throw new functions.https.HttpsError('invalid-argument', 'empty-text');
+  }
+  if (text.length > MESSAGE_TEXT_MAX_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'text-too-long');
+  }
+
+  const changed = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(messageRef);
+    if (!snap.exists) {
+      throw new functions.https.HttpsError('not-found', 'message-not-found');
+    }
+    const message = snap.data() || {};
+    if (message.senderId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'not-the-sender');
+    }
+    if (message.unsent) {
+      throw new functions.https.HttpsError('failed-precondition', 'message-unsent');
+    }
+    if (message.image || message.audio || message.location || typeof message.text !== 'string') {
+      throw new functions.https.HttpsError('failed-precondition', 'not-a-text-message');
+    }
+    const createdMs = toMillis(message.createdAt);
+    if (!createdMs || Date.now() - createdMs > MESSAGE_EDIT_WINDOW_MS) {
+      throw new functions.https.HttpsError('failed-precondition', 'edit-window-expired');
+    }
+    if (message.text === text) return false;
+
+    tx.set(messageRef.collection('edits').doc(), {
+      action: 'edit',
+      text: message.text,
+      editorId: userId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.update(messageRef, {
+      text,
+      editedAt: admin.firestore.FieldValue.serverTimestamp(),
+      editCount: admin.firestore.FieldValue.increment(1),
+      translations: admin.firestore.FieldValue.delete(),
+    });
+    return true;
+  });
+
+  if (changed) await refreshChatPreview(messageRef, text);
+  return { ok: true };
+});
+
+// Annulla l'invio per entrambi: resta una bolla "Messaggio eliminato" al posto del contenuto
+exports.unsendMessage = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const messageRef = requireOwnChatMessage(data, userId);
+
+  const previous = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(messageRef);
+    if (!snap.exists) {
+      throw new functions.https.HttpsError('not-found', 'message-not-found');
+    }
+    const message = snap.data() || {};
+    if (message.senderId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'not-the-sender');
+    }
+    if (message.unsent) return null;
+
+    const deleteField = admin.firestore.FieldValue.delete();
+    tx.set(messageRef.collection('edits').doc(), {
+      action: 'unsend',
+      text: typeof message.text === 'string' ? message.text : null,
+      imagePath: message.imagePath || null,
+      audioPath: message.audioPath || null,
+      location: message.location || null,
+      editorId: userId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.update(messageRef, {
+      unsent: true,
+      unsentAt: admin.firestore.FieldValue.serverTimestamp(),
+      text: deleteField,
+      image: deleteField,
+      imagePath: deleteField,
+      sensitive: deleteField,
+      audio: deleteField,
+      audioPath: deleteField,
+      audioDuration: deleteField,
+      location: deleteField,
+      replyTo: deleteField,
+      reactions: deleteField,
+      translations: deleteField,
+    });
+    return message;
+  });
+
+  if (previous) {
+    await Promise.all([
+      deleteChatMessageMedia(previous),
+      refreshChatPreview(messageRef, UNSENT_MESSAGE_PREVIEW),
+    ]);
+  }
+  return { ok: true };
+});
+
+// Testo libero: niente cache né messaggio da verificare, quindi un tetto per utente.
+// Contatore in translationQuota/{uid}, non leggibile dai client
+const consumeTranslationQuota = (userId) =>
+  db.runTransaction(async (tx) => {
+    const quotaRef = db.doc(`translationQuota/${userId}`);
+    const snap = await tx.get(quotaRef);
+    const quota = snap.exists ? snap.data() || {} : {};
+    const now = Date.now();
+    const windowStart = toMillis(quota.windowStart);
+    const fresh = !windowStart || now - windowStart >= TRANSLATION_TEXT_WINDOW_MS;
+    const count = fresh ? 0 : Number(quota.count) || 0;
+    if (count >= TRANSLATION_TEXT_LIMIT) {
+      throw new functions.https.HttpsError('resource-exhausted', 'translation-rate-limited', {
+        retryAt: windowStart + TRANSLATION_TEXT_WINDOW_MS,
+      });
+    }
+    tx.set(quotaRef, {
+      windowStart: fresh ? admin.firestore.Timestamp.fromMillis(now) : quota.windowStart,
+      count: count + 1,
+    });
+  });
+
+// Traduce un messaggio della chat (con cache sul documento, per lingua) o un testo in uscita
+exports.translateMessage = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const target = normalizeLanguage(data?.target);
+  if (!SUPPORTED_LANGUAGES.has(target)) {
+    throw new functions.https.HttpsError('invalid-argument', 'unsupported-language');
+  }
+  const source = normalizeLanguage(data?.source);
+
+  let messageRef = null;
+  let text = '';
+  if (data?.messageId) {
+    messageRef = requireOwnChatMessage(data, userId);
+    const snap = await messageRef.get();
+    if (!snap.exists) {
+      throw new functions.https.HttpsError('not-found', 'message-not-found');
+    }
+    const message = snap.data() || {};
+    text = typeof message.text === 'string' ? message.text.trim() : '';
+    const cached = message.translations?.[target];
+    if (text && cached && cached.sourceText === text && typeof cached.text === 'string') {
+      return { text: cached.text, detectedSource: cached.detectedSource || null, cached: true };
+    }
+  } else {
+    text = typeof data?.text === 'string' ? data.text : '';
+    await consumeTranslationQuota(userId);
+  }
+  text = text.trim();
+  if (!text) {
+    throw new functions.https.HttpsError('invalid-argument', 'empty-text');
+  }
+  if (text.length > MESSAGE_TEXT_MAX_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'text-too-long');
+  }
+
+  const provider = getTranslationProvider();
+  if (!provider) {
+    throw new functions.https.HttpsError('failed-precondition', 'translation-not-configured');
+  }
+  let result;
+  try {
+    result = await provider.translate({ text, target, source: source || null });
+  } catch (e) {
+    console.error('translateMessage error', provider.name, e);
+    throw new functions.https.HttpsError('unavailable', 'translation-failed');
+  }
+  const detectedSource = result.detectedSource || null;
+
+  if (messageRef) {
+    await messageRef
+      .update({
+        [`translations.${target}`]: {
+          text: result.text,
+          detectedSource,
+          sourceText: text,
+          provider: provider.name,
+          translatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      })
+      .catch(() => null);
+  }
+  return { text: result.text, detectedSource, cached: false };
+});
+
+const isDirectChatMessage = (ref) => ref.parent.parent?.parent?.id === 'chats';
+
+// Cancella a blocchi i messaggi 1:1 restituiti dalla query; lo Storage lo pulisce cleanupChatImageOnDelete
+const deleteDirectMessages = async (buildQuery) => {
+  let deleted = 0;
+  for (;;) {
+    const snap = await buildQuery().limit(EXPIRED_MESSAGES_BATCH).get();
+    const refs = snap.docs.map((d) => d.ref).filter(isDirectChatMessage);
+    if (!refs.length) break;
+    const writer = db.bulkWriter();
+    refs.forEach((ref) => writer.delete(ref));
+    await writer.close();
+    deleted += refs.length;
+    if (snap.size < EXPIRED_MESSAGES_BATCH) break;
+  }
+  return deleted;
+};
+
+const requireString = (value, reason) => {
+  if (!value || typeof value !== 'string' || value.includes('/')) {
+    throw new functions.https.HttpsError('invalid-argument', reason);
+  }
+  return value;
+};
+
+// Contenuto segnalato: percorso, autore e copia di quello che si vedeva al momento
+const resolveReportTarget = async (data, userId) => {
+  const type = data?.targetType;
+  if (type === 'profile') {
+    const targetId = requireString(data.userId, 'missing-user-id');
+    const snap = await db.doc(`profiles/${targetId}`).get();
+    if (!snap.exists) throw new functions.https.HttpsError('not-found', 'target-not-found');
+    const profile = snap.data() || {};
+    return {
+      type,
+      ref: snap.ref,
+      ownerId: targetId,
+      snapshot: {
+        name: profile.name || '',
+        photo: profile.photo || '',
+        photos: asArray(profile.photos),
+        bio: profile.bio || '',
+        age: profile.age ?? null,
+        city: profile.city || '',
+      },
+    };
+  }
+  if (type === 'chatMessage') {
+    const chatId = requireString(data.chatId, 'missing-chat-id');
+    const messageId = requireString(data.messageId, 'missing-message-id');
+    if (!chatId.split('_').includes(userId)) {
+      throw new functions.https.HttpsError('permission-denied', 'not-a-participant');
+    }
+    const snap = await db.doc(`chats/${chatId}/messages/${messageId}`).get();
+    if (!snap.exists) throw new functions.https.HttpsError('not-found', 'target-not-found');
+    const message = snap.data() || {};
+    return {
+      type,
+      ref: snap.ref,
+      ownerId: message.senderId || null,
+      snapshot: {
+        text: message.text || '',
+        image: message.image || '',
+        imagePath: message.imagePath || '',
+        audioPath: message.audioPath || '',
+        location: message.location || null,
+        createdAt: message.createdAt || null,
+      },
+    };
+  }
+  if (type === 'groupMessage') {
+    const groupId = requireString(data.groupId, 'missing-group-id');
+    const messageId = requireString(data.messageId, 'missing-message-id');
+    const snap = await db.doc(`groupRooms/${groupId}/messages/${messageId}`).get();
+    if (!snap.exists) throw new functions.https.HttpsError('not-found', 'target-not-found');
+    const message = snap.data() || {};
+    return {
+      type,
+      ref: snap.ref,
+      ownerId: message.senderId || null,
+      snapshot: {
+        text: message.text || '',
+        senderName: message.senderName || '',
+        createdAt: message.createdAt || null,
+      },
+    };
+  }
+  if (type === 'live') {
+    const groupId = requireString(data.groupId, 'missing-group-id');
+    const hostId = requireString(data.hostId, 'missing-host-id');
+    const snap = await db.doc(`groupRooms/${groupId}/lives/${hostId}`).get();
+    if (!snap.exists) throw new functions.https.HttpsError('not-found', 'target-not-found');
+    const live = snap.data() || {};
+    return {
+      type,
+      ref: snap.ref,
+      ownerId: hostId,
+      snapshot: {
+        hostName: live.hostName || '',
+        hostPhoto: live.hostPhoto || '',
+        active: !!live.active,
+        startedAt: live.startedAt || null,
+      },
+    };
+  }
+  throw new functions.https.HttpsError('invalid-argument', 'invalid-target-type');
+};
+
+// Una segnalazione per utente e contenuto; conteggio e occultamento li fa onReportCreated
+exports.reportContent = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const reason = data?.reason;
+  if (!REPORT_REASONS.has(reason)) {
+    throw new functions.https.HttpsError('invalid-argument', 'invalid-reason');
+  }
+  const details = typeof data?.details === 'string' ? data.details.trim() : '';
+  if (details.length > REPORT_DETAILS_MAX_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'details-too-long');
+  }
+
+  const target = await resolveReportTarget(data, userId);
+  if (target.ownerId === userId) {
+    throw new functions.https.HttpsError('invalid-argument', 'self-report');
+  }
+  const targetKey = getModerationKey(target.ref);
+  try {
+    await db.doc(`reports/${targetKey}:${userId}`).create({
+      reporterId: userId,
+      targetType: target.type,
+      targetPath: target.ref.path,
+      targetKey,
+      reportedUserId: target.ownerId,
+      reason,
+      details,
+      snapshot: target.snapshot,
+      status: 'pending',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    // ALREADY_EXISTS
+    if (error?.code === 6) {
+      throw new functions.https.HttpsError('already-exists', 'already-reported');
+    }
+    throw error;
+  }
+  return { ok: true };
+});
+
+// Coda di moderazione per contenuto; oltre la soglia il contenuto si nasconde finché qualcuno non lo rivede
+exports.onReportCreated = functions.firestore
+  .document('reports/{reportId}')
+  .onCreate(async (snap) => {
+    const report = snap.data() || {};
+    if (!report.targetKey || !report.targetPath) return null;
+
+    const pending = await db
+      .collection('reports')
+      .where('targetKey', '==', report.targetKey)
+      .where('status', '==', 'pending')
+      .get();
+    const reporters = new Set(pending.docs.map((d) => d.data().reporterId).filter(Boolean));
+    const reasons = {};
+    pending.docs.forEach((d) => {
+      const reason = d.data().reason;
+      if (reason) reasons[reason] = (reasons[reason] || 0) + 1;
+    });
+    const shouldHide = reporters.size >= REPORT_AUTO_HIDE_THRESHOLD;
+
+    const queueRef = db.doc(`moderationQueue/${report.targetKey}`);
+    const targetRef = db.doc(report.targetPath);
+    await db.runTransaction(async (tx) => {
+      const [queueSnap, targetSnap] = await Promise.all([tx.get(queueRef), tx.get(targetRef)]);
+      const queue = queueSnap.exists ? queueSnap.data() || {} : {};
+      const hide = shouldHide && targetSnap.exists && !queue.hidden;
+      tx.set(
+        queueRef,
+        {
+          targetType: report.targetType,
+          targetPath: report.targetPath,
+          reportedUserId: report.reportedUserId || null,
+          snapshot: report.snapshot || null,
+          reportCount: reporters.size,
+          reasons,
+          status: 'pending',
+          source: 'reports',
+          lastReportAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          ...(queueSnap.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+          ...(hide ? { hidden: true, hiddenAt: admin.firestore.FieldValue.serverTimestamp() } : {}),
+        },
+        { merge: true }
+      );
+      if (hide) {
+        tx.set(
+          targetRef,
+          {
+            moderationHidden: true,
+            moderationHiddenAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          { merge: true }
+        );
+      }
+    });
+    return null;
+  });
+
+// Il claim "admin" si assegna dall'Admin SDK (setCustomUserClaims): dal client non si ottiene
+const requireAdmin = (context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  if (context.auth.token?.admin !== true) {
+    throw new functions.https.HttpsError('permission-denied', 'admin-only');
+  }
+  return context.auth.uid;
+};
+
+// Chiude la live e la lascia nascosta: non riparte finché non viene approvata
+const endModeratedLive = async (liveRef) => {
+  const groupRef = liveRef.parent.parent;
+  await db.runTransaction(async (tx) => {
+    const [groupSnap, liveSnap] = await Promise.all([tx.get(groupRef), tx.get(liveRef)]);
+    if (!liveSnap.exists) return;
+    const wasActive = !!liveSnap.data()?.active;
+    tx.set(
+      liveRef,
+      {
+        active: false,
+        moderationHidden: true,
+        endedAt: admin.firestore.FieldValue.serverTimestamp(),
+        endedReason: 'moderation',
+      },
+      { merge: true }
+    );
+    if (!wasActive || !groupSnap.exists) return;
+    const currentLive = groupSnap.data()?.live || {};
+    const currentCount = typeof currentLive.count === 'number' ? currentLive.count : 0;
+    const nextCount = Math.max(0, currentCount - 1);
+    tx.set(groupRef, { live: { active: nextCount > 0, count: nextCount } }, { merge: true });
+  });
+};
+
+// Path su Storage di un URL di download Firebase (.../o/<path codificato>?alt=media)
+const getStoragePathFromUrl = (url) => {
+  const match = typeof url === 'string' ? url.match(/\/o\/([^?]+)/) : null;
+  if (!match) return '';
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return '';
+  }
+};
+
+// La voce indica la foto per path e URL: l'indice salvato può non valere più se
+// l'utente ha tolto o riordinato le foto. -1 se la foto non è più sul profilo
+const findModeratedPhotoIndex = (profile, entry) => {
+  const imagePath = entry.snapshot?.imagePath || '';
+  const image = entry.snapshot?.image || '';
+  return asArray(profile.photos).findIndex(
+    (url) =>
+      typeof url === 'string' &&
+      ((image && url === image) || (imagePath && getStoragePathFromUrl(url) === imagePath))
+  );
+};
+
+// Toglie la foto dal profilo (e da Storage); photoMeta si allinea per path
+const removeProfilePhoto = async (profileRef, entry) => {
+  const photoPath = entry.snapshot?.imagePath || '';
+  const removed = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(profileRef);
+    if (!snap.exists) return false;
+    const profile = snap.data() || {};
+    const photoIndex = findModeratedPhotoIndex(profile, entry);
+    if (photoIndex < 0) return false;
+    const photos = asArray(profile.photos);
+    const removedPhoto = photos[photoIndex];
+    const nextPhotos = photos.filter((_, index) => index !== photoIndex);
+    const update = {
+      photos: nextPhotos,
+      photoMeta: asArray(profile.photoMeta).filter((meta) => !photoPath || meta?.path !== photoPath),
+    };
+    if (profile.photo === removedPhoto) update.photo = nextPhotos[0] || '';
+    tx.update(profileRef, update);
+    return true;
+  });
+  if (removed && photoPath) {
+    await admin
+      .storage()
+      .bucket()
+      .file(photoPath)
+      .delete()
+      .catch(() => null);
+  }
+};
+
+const approveModeratedContent = async (entry, targetRef) => {
+  const deleteField = admin.firestore.FieldValue.delete();
+  if (entry.targetType === 'profilePhoto') {
+    const photoPath = entry.snapshot?.imagePath || '';
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(targetRef);
+      if (!snap.exists || !photoPath) return;
+      const profile = snap.data() || {};
+      if (findModeratedPhotoIndex(profile, entry) < 0) return;
+      const photoMeta = asArray(profile.photoMeta);
+      const metaIndex = photoMeta.findIndex((meta) => meta?.path === photoPath);
+      if (metaIndex < 0) return;
+      photoMeta[metaIndex] = {
+        ...photoMeta[metaIndex],
+        moderationStatus: 'approved',
+        contentWarning: null,
+      };
+      tx.update(targetRef, { photoMeta });
+    });
+    return;
+  }
+  const snap = await targetRef.get();
+  if (!snap.exists) return;
+  await targetRef.update({
+    moderationHidden: deleteField,
+    moderationHiddenAt: deleteField,
+    ...(entry.targetType === 'chatImage'
+      ? { moderationStatus: 'approved', contentWarning: null }
+      : {}),
+  });
+};
+
+const removeModeratedContent = async (entry, targetRef) => {
+  if (entry.targetType === 'profilePhoto') {
+    await removeProfilePhoto(targetRef, entry);
+    return;
+  }
+  if (entry.targetType === 'live') {
+    await endModeratedLive(targetRef);
+    return;
+  }
+  if (entry.targetType === 'profile') {
+    // Un profilo non si cancella: resta fuori dalla ricerca, per il resto si sospende l'account
+    await targetRef.set(
+      {
+        moderationHidden: true,
+        moderationHiddenAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return;
+  }
+  // Messaggi: le media in chat le cancella cleanupChatImageOnDelete
+  await targetRef.delete();
+};
+
+const requireSuspensionDays = (value) => {
+  const days = Math.floor(Number(value) || 0);
+  if (days < 1 || days > SUSPENSION_MAX_DAYS) {
+    throw new functions.https.HttpsError('invalid-argument', 'invalid-days');
+  }
+  return days;
+};
+
+const requireModerationNote = (value) => {
+  const note = typeof value === 'string' ? value.trim() : '';
+  if (note.length > MODERATION_NOTE_MAX_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'note-too-long');
+  }
+  return note;
+};
+
+// Sospensione e ban in accountStatus/{uid}; riattivare l'account cancella il documento
+const writeAccountStatus = (userId, state, { moderatorId, reason, days }) => {
+  const statusRef = db.doc(`accountStatus/${userId}`);
+  if (state === 'active') return statusRef.delete();
+  return statusRef.set({
+    state,
+    reason,
+    until:
+      state === 'suspended'
+        ? admin.firestore.Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000)
+        : null,
+    updatedBy: moderatorId,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+const writeModerationAudit = (entry) =>
+  db.collection('moderationAudit').add({
+    queueId: null,
+    targetType: 'account',
+    days: null,
+    ...entry,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+// Avviso sul profilo; sospensione e ban passano da writeAccountStatus
+const sanctionUser = async (userId, action, { moderatorId, note, days }) => {
+  if (action === 'warn') {
+    await db.doc(`profiles/${userId}`).set(
+      {
+        moderationWarnings: admin.firestore.FieldValue.increment(1),
+        lastModerationWarning: { note, createdAt: admin.firestore.FieldValue.serverTimestamp() },
+      },
+      { merge: true }
+    );
+    return;
+  }
+  await writeAccountStatus(userId, action === 'ban' ? 'banned' : 'suspended', {
+    moderatorId,
+    reason: note,
+    days,
+  });
+};
+
+// Azione di un moderatore su una voce della coda: chiude la voce e finisce nel registro
+exports.moderateContent = functions.https.onCall(async (data, context) => {
+  const moderatorId = requireAdmin(context);
+  const queueId = requireString(data?.queueId, 'missing-queue-id');
+  const action = data?.action;
+  if (!MODERATION_ACTIONS.has(action)) {
+    throw new functions.https.HttpsError('invalid-argument', 'invalid-action');
+  }
+  const note = requireModerationNote(data?.note);
+  const days = action === 'suspend' ? requireSuspensionDays(data?.days) : 0;
+
+  // La voce si prende in carico in transazione: due moderatori non agiscono due volte
+  const queueRef = db.doc(`moderationQueue/${queueId}`);
+  const entry = await db.runTransaction(async (tx) => {
+    const queueSnap = await tx.get(queueRef);
+    if (!queueSnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'queue-entry-not-found');
+    }
+    const data = queueSnap.data() || {};
+    if (data.status !== 'pending') {
+      throw new functions.https.HttpsError('failed-precondition', 'queue-entry-not-pending');
+    }
+    tx.update(queueRef, { status: 'processing', processingBy: moderatorId });
+    return data;
+  });
+  const targetRef = db.doc(entry.targetPath);
+  const targetUserId = entry.reportedUserId || null;
+
+  try {
+    if (action === 'approve') {
+      await approveModeratedContent(entry, targetRef);
+    } else if (action === 'remove') {
+      await removeModeratedContent(entry, targetRef);
+    } else {
+      if (!targetUserId) {
+        throw new functions.https.HttpsError('failed-precondition', 'no-target-user');
+      }
+      if (targetUserId === moderatorId) {
+        throw new functions.https.HttpsError('invalid-argument', 'self-sanction');
+      }
+      await sanctionUser(targetUserId, action, { moderatorId, note, days });
+    }
+  } catch (e) {
+    // Azione non riuscita: la voce torna in coda
+    await queueRef
+      .update({ status: 'pending', processingBy: admin.firestore.FieldValue.delete() })
+      .catch(() => null);
+    throw e;
+  }
+
+  const pendingReports = await db
+    .collection('reports')
+    .where('targetKey', '==', queueId)
+    .where('status', '==', 'pending')
+    .get();
+  const batch = db.batch();
+  const resolvedAt = admin.firestore.FieldValue.serverTimestamp();
+  batch.update(queueRef, {
+    status: 'resolved',
+    processingBy: admin.firestore.FieldValue.delete(),
+    resolution: action,
+    resolvedBy: moderatorId,
+    resolvedAt,
+    updatedAt: resolvedAt,
+    ...(action === 'approve' ? { hidden: false } : {}),
+  });
+  pendingReports.docs.forEach((doc) =>
+    batch.update(doc.ref, { status: 'resolved', resolution: action, resolvedAt })
+  );
+  batch.set(db.collection('moderationAudit').doc(), {
+    actorId: moderatorId,
+    action,
+    queueId,
+    targetType: entry.targetType || null,
+    targetPath: entry.targetPath || null,
+    targetUserId,
+    note,
+    days: action === 'suspend' ? days : null,
+    createdAt: resolvedAt,
+  });
+  await batch.commit();
+  return { ok: true };
+});
+
+// Stato dell'account impostato a mano da un moderatore, anche fuori dalla coda
+exports.setAccountStatus = functions.https.onCall(async (data, context) => {
+  const moderatorId = requireAdmin(context);
+  const userId = requireString(data?.userId, 'missing-user-id');
+  const state = data?.state;
+  if (!ACCOUNT_STATES.has(state)) {
+    throw new functions.https.HttpsError('invalid-argument', 'invalid-state');
+  }
+  if (userId === moderatorId) {
+    throw new functions.https.HttpsError('invalid-argument', 'self-sanction');
+  }
+  const reason = requireModerationNote(data?.reason);
+  const days = state === 'suspended' ? requireSuspensionDays(data?.days) : 0;
+
+  await writeAccountStatus(userId, state, { moderatorId, reason, days });
+  await writeModerationAudit({
+    actorId: moderatorId,
+    action: state === 'active' ? 'reinstate' : state === 'banned' ? 'ban' : 'suspend',
+    targetPath: `accountStatus/${userId}`,
+    targetUserId: userId,
+    note: reason,
+    days: state === 'suspended' ? days : null,
+  });
+  return { ok: true };
+});
+
+// Un solo ricorso per sospensione: quello respinto non si ripresenta
+exports.submitAccountAppeal = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  const text = typeof data?.text === 'string' ? data.text.trim() : '';
+  if (!text) {
+    throw new functions.https.HttpsError('invalid-argument', 'empty-text');
+  }
+  if (text.length > APPEAL_TEXT_MAX_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'text-too-long');
+  }
+
+  const status = await getAccountStatus(userId);
+  if (!isAccountRestricted(status)) {
+    throw new functions.https.HttpsError('failed-precondition', 'not-suspended');
+  }
+  const suspendedAtMs = toMillis(status.updatedAt);
+  const appealRef = db.doc(`accountAppeals/${userId}`);
+  await db.runTransaction(async (tx) => {
+    const appealSnap = await tx.get(appealRef);
+    const appeal = appealSnap.exists ? appealSnap.data() || {} : null;
+    if (appeal?.status === 'pending') {
+      throw new functions.https.HttpsError('already-exists', 'appeal-pending');
+    }
+    if (appeal && toMillis(appeal.suspendedAt) === suspendedAtMs) {
+      throw new functions.https.HttpsError('failed-precondition', 'appeal-already-reviewed');
+    }
+    tx.set(appealRef, {
+      userId,
+      text,
+      status: 'pending',
+      state: status.state,
+      reason: status.reason || '',
+      until: status.until || null,
+      suspendedAt: status.updatedAt || null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+  return { ok: true };
+});
+
+exports.reviewAccountAppeal = functions.https.onCall(async (data, context) => {
+  const moderatorId = requireAdmin(context);
+  const userId = requireString(data?.userId, 'missing-user-id');
+  const accept = data?.accept === true;
+  const note = requireModerationNote(data?.note);
+
+  const appealRef = db.doc(`accountAppeals/${userId}`);
+  const appealSnap = await appealRef.get();
+  if (!appealSnap.exists || appealSnap.data()?.status !== 'pending') {
+    throw new functions.https.HttpsError('failed-precondition', 'appeal-not-pending');
+  }
+  if (accept) {
+    await writeAccountStatus(userId, 'active', { moderatorId });
+  }
+  await appealRef.update({
+    status: accept ? 'accepted' : 'rejected',
+    reviewedBy: moderatorId,
+    reviewNote: note,
+    reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await writeModerationAudit({
+    actorId: moderatorId,
+    action: accept ? 'reinstate' : 'rejectAppeal',
+    targetPath: appealRef.path,
+    targetUserId: userId,
+    note,
+  });
+  return { ok: true };
+});
+
+// I messaggi segreti scadono anche se il destinatario chiude l'app prima del timer locale
+exports.cleanupExpiredSecretMessages = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now();
+    const staleCutoff = admin.firestore.Timestamp.fromMillis(
+      Date.now() - SECRET_MESSAGE_MAX_TTL_MS
+    );
+    const expired = await deleteDirectMessages(() =>
+      db.collectionGroup('messages').where('expiresAt', '<=', now).orderBy('expiresAt')
+    );
+    const stale = await deleteDirectMessages(() =>
+      db
+        .collectionGroup('messages')
+        .where('expiresAfterView', '==', true)
+        .where('createdAt', '<=', staleCutoff)
+        .orderBy('createdAt')
+    );
+    if (expired || stale) {
+      console.log('cleanupExpiredSecretMessages', { expired, stale });
+    }
+    return null;
+  });
+
+// Ogni messaggio porta la durata in vigore quando è stato scritto: cambiare o spegnere il timer
+// non salva i messaggi già scritti
+exports.stampDisappearingMessage = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onCreate(async (snap, context) => {
     const data = snap.data() || {};
-    const imagePath = data.imagePath;
-    if (!imagePath) return null;
-    try {
-      await admin.storage().bucket().file(imagePath).delete();
-    } catch (e) {
-      return null;
+    if (data.system || data.disappearAt) return null;
+    const chatSnap = await db.doc(`chats/${context.params.chatId}`).get();
+    const duration = Number(chatSnap.data()?.disappearingAfter) || 0;
+    if (!duration) return null;
+    const createdMs = toMillis(data.createdAt) || Date.now();
+    const disappearAt = admin.firestore.Timestamp.fromMillis(createdMs + duration);
+    // Un segreto può essere già stato cancellato: niente update su un documento che non c'è
+    await db.runTransaction(async (tx) => {
+      const messageSnap = await tx.get(snap.ref);
+      if (messageSnap.exists) tx.update(snap.ref, { disappearAt });
+    });
+    return null;
+  });
+
+// Rete di sicurezza per la TTL su disappearAt, che può arrivare con ore di ritardo
+exports.cleanupDisappearingMessages = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now();
+    const deleted = await deleteDirectMessages(() =>
+      db.collectionGroup('messages').where('disappearAt', '<=', now).orderBy('disappearAt')
+    );
+    if (deleted) {
+      console.log('cleanupDisappearingMessages', { deleted });
     }
     return null;
   });
 
+// Annuncia a entrambi il cambio dei messaggi effimeri: i client non scrivono messaggi di sistema
+exports.announceDisappearingTimer = functions.firestore
+  .document('chats/{chatId}')
+  .onWrite(async (change) => {
+    if (!change.after.exists) return null;
+    const before = change.before.exists ? change.before.data() || {} : {};
+    const after = change.after.data() || {};
+    const value = Number(after.disappearingAfter) || null;
+    if ((Number(before.disappearingAfter) || null) === value) return null;
+    await change.after.ref.collection('messages').add({
+      system: 'disappearing',
+      disappearingAfter: value,
+      senderId: after.disappearingUpdatedBy || null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      deliveredAt: null,
+      readAt: null,
+    });
+    return null;
+  });
+
 exports.cleanupInactiveGroups = functions.pubsub
   .schedule('every day 01:05')
   .timeZone('Europe/Rome')
@@ -352,6 +1498,54 @@ exports.syncGroupPresenceCount = functions.firestore
     return null;
   });
 
+// presence e livePresence non si leggono dal client: qui si tolgono i blocchi in entrambe le direzioni
+exports.getGroupPresence = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const groupId = data?.groupId;
+  if (!groupId || typeof groupId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'missing-group-id');
+  }
+
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const allowed = await hasActivePresence(groupId, userId);
+  if (!allowed) {
+    throw new functions.https.HttpsError('permission-denied', 'not-in-group');
+  }
+
+  const profileSnap = await db.doc(`profiles/${userId}`).get();
+  const blockedIds = getBlockedIds(profileSnap.data());
+  const groupRef = db.doc(`groupRooms/${groupId}`);
+  const cutoff = admin.firestore.Timestamp.fromDate(
+    new Date(Date.now() - PRESENCE_ACTIVE_MS)
+  );
+  const [presenceSnap, livePresenceSnap] = await Promise.all([
+    groupRef.collection('presence').where('activeAt', '>', cutoff).get(),
+    groupRef.collection('livePresence').where('activeAt', '>', cutoff).get(),
+  ]);
+
+  const participants = presenceSnap.docs
+    .filter((presenceDoc) => !blockedIds.has(presenceDoc.id))
+    .map((presenceDoc) => {
+      const presence = presenceDoc.data() || {};
+      return {
+        id: presenceDoc.id,
+        name: typeof presence.name === 'string' && presence.name ? presence.name : 'Utente',
+        photo: typeof presence.photo === 'string' ? presence.photo : '',
+        activeAt: toMillis(presence.activeAt),
+      };
+    })
+    .sort((a, b) => b.activeAt - a.activeAt);
+  const liveHostIds = livePresenceSnap.docs
+    .filter((presenceDoc) => !blockedIds.has(presenceDoc.id))
+    .filter((presenceDoc) => (presenceDoc.data()?.role || 'host') === 'host')
+    .map((presenceDoc) => presenceDoc.id);
+
+  return { participants, liveHostIds };
+});
+
 exports.startGroupLive = functions.https.onCall(async (data, context) => {
   if (!context.auth?.uid) {
     throw new functions.https.HttpsError('unauthenticated', 'auth-required');
@@ -362,6 +1556,7 @@ exports.startGroupLive = functions.https.onCall(async (data, context) => {
   }
 
   const userId = context.auth.uid;
+  await requireActiveAccount(userId);
   const allowed = await hasActivePresence(groupId, userId);
   if (!allowed) {
     throw new functions.https.HttpsError('permission-denied', 'not-in-group');
@@ -387,6 +1582,10 @@ exports.startGroupLive = functions.https.onCall(async (data, context) => {
     }
     const liveSnap = await tx.get(liveRef);
     const liveData = liveSnap.exists ? liveSnap.data() || {} : {};
+    // Live nascosta dalle segnalazioni: non riparte finché la moderazione non la ripristina
+    if (liveData.moderationHidden) {
+      throw new functions.https.HttpsError('permission-denied', 'live-hidden');
+    }
     const wasActive = !!liveData.active;
     const liveUpdate = {
       active: true,
@@ -494,6 +1693,7 @@ exports.getGroupLiveToken = functions.https.onCall(async (data, context) => {
   }
 
   const userId = context.auth.uid;
+  await requireActiveAccount(userId);
   const allowed = await hasActivePresence(groupId, userId);
   if (!allowed) {
     throw new functions.https.HttpsError('permission-denied', 'not-in-group');
@@ -517,6 +1717,13 @@ exports.getGroupLiveToken = functions.https.onCall(async (data, context) => {
     throw new functions.https.HttpsError('failed-precondition', 'live-not-active');
   }
   const live = liveSnap.data() || {};
+  if (live.moderationHidden && role !== 'host') {
+    throw new functions.https.HttpsError('permission-denied', 'live-hidden');
+  }
+  // L'host sospeso a live in corso: gli spettatori non ricevono più token
+  if (role !== 'host' && isAccountRestricted(await getAccountStatus(targetHostId))) {
+    throw new functions.https.HttpsError('failed-precondition', 'live-not-active');
+  }
   const hostActive = await isLiveHostActive(groupId, targetHostId);
   const startedMs = toMillis(live.startedAt);
   const isFresh = startedMs ? Date.now() - startedMs <= PRESENCE_ACTIVE_MS : false;
@@ -684,3 +1891,350 @@ exports.cleanupStaleLives = functions.pubsub
     await Promise.all(updates);
     return null;
   });
+
+exports.sendTap = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const targetId = requireTargetId(data, userId);
+
+  const myRef = db.doc(`profiles/${userId}`);
+  const targetRef = db.doc(`profiles/${targetId}`);
+  const cooldownUntil = await db.runTransaction(async (tx) => {
+    const [mySnap, targetSnap] = await Promise.all([tx.get(myRef), tx.get(targetRef)]);
+    if (!mySnap.exists || !targetSnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'profile-not-found');
+    }
+    const myData = mySnap.data() || {};
+    const targetData = targetSnap.data() || {};
+    if (isBlockedBetween(myData, targetData, userId, targetId)) {
+      throw new functions.https.HttpsError('permission-denied', 'blocked');
+    }
+    if (asArray(myData.interested).includes(targetId)) {
+      throw new functions.https.HttpsError('already-exists', 'tap-already-sent');
+    }
+    const lastTapMs = toMillis(myData.tapCooldowns?.[targetId]);
+    const retryAfterMs = lastTapMs ? lastTapMs + TAP_COOLDOWN_MS - Date.now() : 0;
+    if (retryAfterMs > 0) {
+      throw new functions.https.HttpsError('resource-exhausted', 'tap-cooldown', {
+        retryAfterMs,
+      });
+    }
+
+    tx.update(myRef, {
+      interested: admin.firestore.FieldValue.arrayUnion(targetId),
+      [`tapCooldowns.${targetId}`]: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.update(targetRef, {
+      interestedBy: admin.firestore.FieldValue.arrayUnion(userId),
+    });
+    return Date.now() + TAP_COOLDOWN_MS;
+  });
+
+  return { ok: true, cooldownUntil };
+});
+
+exports.respondToTap = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const targetId = requireTargetId(data, userId);
+  const response = data?.response;
+  if (!TAP_RESPONSES.has(response)) {
+    throw new functions.https.HttpsError('invalid-argument', 'invalid-response');
+  }
+
+  const myRef = db.doc(`profiles/${userId}`);
+  const targetRef = db.doc(`profiles/${targetId}`);
+  const chatId = getPairId(userId, targetId);
+  const chatRef = db.doc(`chats/${chatId}`);
+  const matchMessageRef = chatRef.collection('messages').doc(`match-${chatId}`);
+
+  await db.runTransaction(async (tx) => {
+    const [mySnap, targetSnap] = await Promise.all([tx.get(myRef), tx.get(targetRef)]);
+    if (!mySnap.exists || !targetSnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'profile-not-found');
+    }
+    const myData = mySnap.data() || {};
+    const targetData = targetSnap.data() || {};
+    if (!asArray(myData.interestedBy).includes(targetId)) {
+      throw new functions.https.HttpsError('failed-precondition', 'tap-not-found');
+    }
+    if (response === 'match' && isBlockedBetween(myData, targetData, userId, targetId)) {
+      throw new functions.https.HttpsError('permission-denied', 'blocked');
+    }
+
+    const myUpdates = {
+      interestedBy: admin.firestore.FieldValue.arrayRemove(targetId),
+      interestsSeen: admin.firestore.FieldValue.arrayRemove(targetId),
+    };
+    const targetUpdates = {
+      interested: admin.firestore.FieldValue.arrayRemove(userId),
+      [`tapResponses.${userId}`]: response,
+      tapResponsesSeen: admin.firestore.FieldValue.arrayRemove(userId),
+    };
+    if (response === 'match') {
+      myUpdates.matches = admin.firestore.FieldValue.arrayUnion(targetId);
+      targetUpdates.matches = admin.firestore.FieldValue.arrayUnion(userId);
+    }
+    tx.update(myRef, myUpdates);
+    tx.update(targetRef, targetUpdates);
+
+    if (response !== 'match') return;
+    const myPhoto = myData.photo || asArray(myData.photos)[0] || '';
+    const targetPhoto = targetData.photo || asArray(targetData.photos)[0] || '';
+    tx.set(
+      chatRef,
+      {
+        participants: [userId, targetId],
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastMessage: MATCH_MESSAGE_TEXT,
+        lastSender: userId,
+        names: {
+          [userId]: myData.name || 'Utente',
+          [targetId]: targetData.name || 'Utente',
+        },
+        photos: {
+          [userId]: myPhoto,
+          [targetId]: targetPhoto,
+        },
+      },
+      { merge: true }
+    );
+    tx.set(
+      matchMessageRef,
+      {
+        id: matchMessageRef.id,
+        text: MATCH_MESSAGE_TEXT,
+        senderId: userId,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  });
+
+  return { ok: true, chatId: response === 'match' ? chatId : null };
+});
+
+// Parole normalizzate (minuscole, senza accenti) e tutti i loro prefissi:
+// deve coincidere con normalizeSearchText in lib/search.ts
+const getSearchTerms = (text) => {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= SEARCH_MIN_TERM_LENGTH);
+  const terms = new Set();
+  for (const word of words) {
+    const max = Math.min(word.length, SEARCH_MAX_TERM_LENGTH);
+    for (let length = SEARCH_MIN_TERM_LENGTH; length <= max; length += 1) {
+      terms.add(word.slice(0, length));
+      if (terms.size >= SEARCH_MAX_TERMS) return Array.from(terms);
+    }
+  }
+  return Array.from(terms);
+};
+
+// Blocco e sblocco aggiornano insieme i due profili; i tap in sospeso tra i due si annullano
+const setBlockState = async (userId, targetId, blocked) => {
+  const myRef = db.doc(`profiles/${userId}`);
+  const targetRef = db.doc(`profiles/${targetId}`);
+  const chatRef = db.doc(`chats/${getPairId(userId, targetId)}`);
+  const { arrayRemove, arrayUnion } = admin.firestore.FieldValue;
+
+  await db.runTransaction(async (tx) => {
+    const [mySnap, targetSnap, chatSnap] = await Promise.all([
+      tx.get(myRef),
+      tx.get(targetRef),
+      tx.get(chatRef),
+    ]);
+    if (!mySnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'profile-not-found');
+    }
+    // Si sblocca anche un profilo ormai eliminato, per ripulire la propria lista
+    if (blocked && !targetSnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'profile-not-found');
+    }
+
+    if (blocked) {
+      tx.update(myRef, {
+        blocked: arrayUnion(targetId),
+        interested: arrayRemove(targetId),
+        interestedBy: arrayRemove(targetId),
+      });
+      tx.update(targetRef, {
+        blockedBy: arrayUnion(userId),
+        interested: arrayRemove(userId),
+        interestedBy: arrayRemove(userId),
+      });
+    } else {
+      tx.update(myRef, { blocked: arrayRemove(targetId) });
+      if (targetSnap.exists) tx.update(targetRef, { blockedBy: arrayRemove(userId) });
+    }
+
+    // blockedBy sulla chat serve solo alla UI (lista e banner); il blocco lo fanno le regole
+    if (chatSnap.exists) {
+      tx.update(chatRef, {
+        [`blockedBy.${userId}`]: blocked
+          ? admin.firestore.FieldValue.serverTimestamp()
+          : admin.firestore.FieldValue.delete(),
+      });
+    }
+  });
+};
+
+exports.blockUser = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const targetId = requireTargetId(data, userId);
+  await setBlockState(userId, targetId, true);
+  return { ok: true };
+});
+
+exports.unblockUser = functions.https.onCall(async (data, context) => {
+  if (!context.auth?.uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'auth-required');
+  }
+  const userId = context.auth.uid;
+  await requireActiveAccount(userId);
+  const targetId = requireTargetId(data, userId);
+  await setBlockState(userId, targetId, false);
+  return { ok: true };
+});
+
+// Indice di ricerca dei messaggi 1:1: una voce per partecipante in
+// messageSearch/{uid}/entries/{chatId_messageId}, così ognuno interroga solo il proprio.
+// Segreti, annullati e senza testo non si indicizzano; la cancellazione toglie le voci
+exports.indexChatMessageForSearch = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onWrite(async (change, context) => {
+    const { chatId, messageId } = context.params;
+    const participants = chatId.split('_').filter(Boolean);
+    const entryRefs = participants.map((uid) =>
+      db.doc(`messageSearch/${uid}/entries/${chatId}_${messageId}`)
+    );
+    const message = change.after.exists ? change.after.data() || {} : null;
+    const text = typeof message?.text === 'string' ? message.text.trim() : '';
+    if (!message || !text || message.unsent || message.expiresAfterView || message.system) {
+      if (change.before.exists) {
+        await Promise.all(entryRefs.map((ref) => ref.delete().catch(() => null)));
+      }
+      return null;
+    }
+    const previous = change.before.exists ? change.before.data() || {} : null;
+    if (previous?.text === message.text) return null;
+
+    const entry = {
+      chatId,
+      messageId,
+      senderId: message.senderId || null,
+      preview: truncate(text, SEARCH_PREVIEW_MAX_LENGTH),
+      terms: getSearchTerms(text),
+      createdAt: message.createdAt || admin.firestore.FieldValue.serverTimestamp(),
+    };
+    const batch = db.batch();
+    entryRefs.forEach((ref) => batch.set(ref, entry));
+    await batch.commit();
+    return null;
+  });
+
+// Stesso criterio di isChatMuted in lib/chat-list.ts
+const isChatMutedFor = (chat, userId) => {
+  const state = chat.listState?.[userId];
+  if (!state || state.muted !== true) return false;
+  return typeof state.mutedUntil !== 'number' || state.mutedUntil > Date.now();
+};
+
+exports.notifyNewChatMessage = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onCreate(async (snap, context) => {
+    const { chatId, messageId } = context.params;
+    // Il match ha già la sua notifica da notifyTapsAndMatches
+    if (messageId.startsWith('match-')) return null;
+    const message = snap.data() || {};
+    // I messaggi di sistema (es. messaggi effimeri) compaiono in chat senza notifica
+    if (message.system) return null;
+    const senderId = message.senderId;
+    if (!senderId) return null;
+
+    const chatSnap = await db.doc(`chats/${chatId}`).get();
+    const chat = chatSnap.exists ? chatSnap.data() || {} : {};
+    const participants = asArray(chat.participants).length
+      ? asArray(chat.participants)
+      : chatId.split('_');
+    const recipients = participants.filter(
+      (id) => id && id !== senderId && !isChatMutedFor(chat, id)
+    );
+    if (!recipients.length) return null;
+
+    // Le regole respingono i messaggi tra utenti bloccati; qui copriamo quelli scritti prima del blocco
+    const senderProfileSnap = await db.doc(`profiles/${senderId}`).get();
+    const blockedIds = getBlockedIds(senderProfileSnap.data());
+    const allowedRecipients = recipients.filter((id) => !blockedIds.has(id));
+    if (!allowedRecipients.length) return null;
+
+    const sender = await getProfileSnapshot(senderId);
+    const senderName = sender.name || chat.names?.[senderId] || 'Utente';
+    const senderPhoto = sender.photo || chat.photos?.[senderId] || '';
+    await Promise.all(
+      allowedRecipients.map((recipientId) =>
+        sendPushToUser(recipientId, 'messages', {
+          title: senderName,
+          body: describeMessageForPush(message),
+          url: buildChatUrl(senderId, chatId, senderName, senderPhoto),
+        })
+      )
+    );
+    return null;
+  });
+
+exports.notifyTapsAndMatches = functions.firestore
+  .document('profiles/{userId}')
+  .onUpdate(async (change, context) => {
+    const { userId } = context.params;
+    const before = change.before.data() || {};
+    const after = change.after.data() || {};
+
+    const previousTaps = new Set(asArray(before.interestedBy));
+    const newTaps = asArray(after.interestedBy).filter((id) => !previousTaps.has(id));
+    const previousMatches = new Set(asArray(before.matches));
+    // Avvisiamo solo chi aveva mandato il tap: l'altro ha appena risposto "match"
+    const newMatches = asArray(after.matches).filter(
+      (id) => !previousMatches.has(id) && after.tapResponses?.[id] === 'match'
+    );
+    if (!newTaps.length && !newMatches.length) return null;
+
+    const jobs = [];
+    for (const tapperId of newTaps) {
+      jobs.push(
+        getProfileSnapshot(tapperId).then((tapper) =>
+          sendPushToUser(userId, 'taps', {
+            title: 'Nuovo tap',
+            body: `${tapper.name || 'Qualcuno'} ti ha mandato un tap`,
+            url: '/messages?tab=interests',
+          })
+        )
+      );
+    }
+    for (const matchId of newMatches) {
+      jobs.push(
+        getProfileSnapshot(matchId).then((match) =>
+          sendPushToUser(userId, 'matches', {
+            title: 'È un match!',
+            body: `Tu e ${match.name || 'un utente'} vi piacete: scrivi il primo messaggio.`,
+            url: buildChatUrl(matchId, getPairId(userId, matchId), match.name, match.photo),
+          })
+        )
+      );
+    }
+    await Promise.all(jobs);
+    return null;
+  });
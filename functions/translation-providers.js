@@ -0,0 +1,75 @@
+const functions = require('firebase-functions');
+
+const GOOGLE_TRANSLATE_URL = 'https://translation.googleapis.com/language/translate/v2';
+
+// Lingue ammesse come destinazione; deve coincidere con TRANSLATION_LANGUAGES in lib/translation.ts
+const SUPPORTED_LANGUAGES = new Set([
+  'it', 'en', 'es', 'fr', 'de', 'pt', 'nl', 'pl', 'ro', 'ru', 'uk', 'tr',
+  'ar', 'zh', 'ja', 'ko', 'hi', 'sv', 'el', 'sq',
+]);
+
+const normalizeLanguage = (value) =>
+  typeof value === 'string' ? value.trim().toLowerCase().split('-')[0] : '';
+
+// Ogni provider espone translate({ text, target, source }) -> { text, detectedSource }
+
+// API ufficiale Cloud Translation v2, con chiave in functions:config translate.api_key
+const createGoogleProvider = (apiKey) => ({
+  name: 'google',
+  translate: async ({ text, target, source }) => {
+    const res = await fetch(`${GOOGLE_TRANSLATE_URL}?key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ q: text, target, format: 'text', ...(source ? { source } : {}) }),
+    });
+    if (!res.ok) throw new Error(`google-translate-${res.status}`);
+    const payload = await res.json();
+    const result = payload?.data?.translations?.[0];
+    if (!result || typeof result.translatedText !== 'string') {
+      throw new Error('google-translate-empty');
+    }
+    return {
+      text: result.translatedText,
+      detectedSource: normalizeLanguage(result.detectedSourceLanguage || source),
+    };
+  },
+});
+
+const STUB_HINTS = {
+  it: ['ciao', 'che', 'non', 'sono', 'grazie', 'come'],
+  en: ['hello', 'the', 'and', 'you', 'thanks', 'how'],
+  es: ['hola', 'que', 'gracias', 'como', 'estás', 'pero'],
+  fr: ['bonjour', 'merci', 'est', 'vous', 'comment', 'avec'],
+  de: ['hallo', 'danke', 'und', 'nicht', 'wie', 'ich'],
+};
+
+// Per l'emulatore e i test: nessuna rete, rilevamento lingua a parole chiave
+const createStubProvider = () => ({
+  name: 'stub',
+  translate: async ({ text, target, source }) => {
+    const words = text.toLowerCase().split(/[^\p{L}]+/u);
+    const detected =
+      source ||
+      Object.keys(STUB_HINTS).find((lang) => words.some((word) => STUB_HINTS[lang].includes(word))) ||
+      'und';
+    return { text: `[${target}] ${text}`, detectedSource: detected };
+  },
+});
+
+const getTranslationProvider = () => {
+  const cfg = functions.config().translate || {};
+  const requested = typeof cfg.provider === 'string' ? cfg.provider.trim() : '';
+  if (requested === 'stub' || (!requested && process.env.FUNCTIONS_EMULATOR === 'true')) {
+    return createStubProvider();
+  }
+  const apiKey = typeof cfg.api_key === 'string' ? cfg.api_key.trim() : '';
+  if ((requested === 'google' || !requested) && apiKey) return createGoogleProvider(apiKey);
+  // Senza chiave niente traduzioni: nessun ripiego su endpoint non ufficiali
+  return null;
+};
+
+module.exports = {
+  SUPPORTED_LANGUAGES,
+  getTranslationProvider,
+  normalizeLanguage,
+};
@@ -0,0 +1,47 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+
+import { db } from '@/lib/firebase';
+import {
+  ACTIVE_ACCOUNT_STATUS,
+  isAccountRestricted,
+  parseAccountStatus,
+  type AccountStatus,
+} from '@/lib/account-status';
+
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Stato dell'account in tempo reale; alla scadenza della sospensione restricted torna false da solo
+export function useAccountStatus(userId?: string | null) {
+  const [status, setStatus] = useState<AccountStatus>(ACTIVE_ACCOUNT_STATUS);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!userId) {
+      setStatus(ACTIVE_ACCOUNT_STATUS);
+      return;
+    }
+    const unsub = onSnapshot(
+      doc(db, 'accountStatus', userId),
+      (snap) => {
+        setStatus(parseAccountStatus(snap.data()));
+        setNow(Date.now());
+      },
+      () => setStatus(ACTIVE_ACCOUNT_STATUS)
+    );
+    return unsub;
+  }, [userId]);
+
+  useEffect(() => {
+    if (!status.until) return;
+    const remaining = status.until - Date.now();
+    if (remaining <= 0) return;
+    // setTimeout non regge attese oltre ~24 giorni: si riprogramma a ogni scatto
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(remaining, MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  }, [status, now]);
+
+  const restricted = isAccountRestricted(status, now);
+
+  return { status, restricted };
+}
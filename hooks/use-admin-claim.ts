@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '@/hooks/use-auth';
+import { getIsAdmin } from '@/lib/moderation';
+
+// null finché il token non è stato letto
+export function useIsAdmin() {
+  const { user, loading } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (loading) return;
+    let active = true;
+    setIsAdmin(null);
+    getIsAdmin(user, true).then((value) => {
+      if (active) setIsAdmin(value);
+    });
+    return () => {
+      active = false;
+    };
+  }, [user, loading]);
+
+  return isAdmin;
+}
@@ -0,0 +1,27 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useEffect, useMemo, useState } from 'react';
+
+import { getBlockedIds } from '@/lib/blocking';
+import { db } from '@/lib/firebase';
+
+// Utenti da nascondere (bloccati o che mi hanno bloccato), aggiornati in tempo reale
+export function useBlockedIds(userId?: string | null) {
+  const [ids, setIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setIds([]);
+      return;
+    }
+    const unsub = onSnapshot(
+      doc(db, 'profiles', userId),
+      (snap) => setIds([...getBlockedIds(snap.data())].sort()),
+      () => {}
+    );
+    return unsub;
+  }, [userId]);
+
+  // Stesso Set finché la lista non cambia davvero: si può usare nelle dipendenze degli effetti
+  const key = ids.join(',');
+  return useMemo(() => new Set(key ? key.split(',') : []), [key]);
+}
@@ -0,0 +1,29 @@
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { useEffect, useRef } from 'react';
+
+import { db } from '@/lib/firebase';
+import { markMessagesDelivered } from '@/lib/receipts';
+
+// Con l'app aperta i nuovi messaggi ricevuti risultano consegnati, anche fuori dalla chat
+export function useDeliveryReceipts(userId?: string | null) {
+  const handledRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!userId) return;
+    handledRef.current = {};
+    const q = query(collection(db, 'chats'), where('participants', 'array-contains', userId));
+    const unsub = onSnapshot(q, (snap) => {
+      snap.docs.forEach((d) => {
+        const data = d.data() as any;
+        if (!data.lastSender || data.lastSender === userId) return;
+        const updated = data.updatedAt?.toDate ? data.updatedAt.toDate().getTime() : 0;
+        if (!updated || handledRef.current[d.id] >= updated) return;
+        handledRef.current[d.id] = updated;
+        markMessagesDelivered(d.id, data.lastSender).catch(() => {
+          delete handledRef.current[d.id];
+        });
+      });
+    });
+    return unsub;
+  }, [userId]);
+}
@@ -0,0 +1,40 @@
+import { doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+
+import { db } from '@/lib/firebase';
+import { getCoarseCurrentLocation, type ProfileLocation } from '@/lib/geo';
+
+// Rileva la posizione approssimativa dell'utente e la tiene aggiornata sul profilo
+export function useMyLocation(userId?: string | null) {
+  const [location, setLocation] = useState<ProfileLocation | null>(null);
+  const [loading, setLoading] = useState(!!userId);
+
+  useEffect(() => {
+    if (!userId) {
+      setLocation(null);
+      setLoading(false);
+      return;
+    }
+
+    let active = true;
+    setLoading(true);
+    (async () => {
+      const next = await getCoarseCurrentLocation();
+      if (!active) return;
+      setLocation(next);
+      setLoading(false);
+      if (!next) return;
+      updateDoc(doc(db, 'profiles', userId), {
+        location: { ...next, updatedAt: serverTimestamp() },
+      }).catch(() => {
+        // best effort
+      });
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  return { location, loading };
+}
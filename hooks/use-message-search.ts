@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+
+import { searchMessages, type MessageSearchHit } from '@/lib/search';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Ricerca nei messaggi (di tutte le chat o di una sola) mentre si scrive
+export function useMessageSearch(userId?: string | null, text = '', chatId?: string | null) {
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const trimmed = text.trim();
+
+  useEffect(() => {
+    if (!userId || trimmed.length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    let active = true;
+    setLoading(true);
+    const timeout = setTimeout(() => {
+      searchMessages(userId, trimmed, chatId)
+        .then((hits) => {
+          if (active) setResults(hits);
+        })
+        .catch(() => {
+          if (active) setResults([]);
+        })
+        .finally(() => {
+          if (active) setLoading(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      active = false;
+      clearTimeout(timeout);
+    };
+  }, [userId, trimmed, chatId]);
+
+  return { results, loading };
+}
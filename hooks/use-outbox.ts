@@ -0,0 +1,11 @@
+import { useEffect } from 'react';
+
+import { startOutbox } from '@/lib/outbox';
+
+// Tiene attiva la coda dei messaggi in uscita finché l'utente è loggato
+export function useOutbox(userId?: string | null) {
+  useEffect(() => {
+    if (!userId) return;
+    return startOutbox(userId);
+  }, [userId]);
+}
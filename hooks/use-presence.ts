@@ -0,0 +1,97 @@
+import { deleteDoc, doc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { db } from '@/lib/firebase';
+
+// Stesso modello dei gruppi: heartbeat su presence/{uid}.activeAt
+export const PRESENCE_ACTIVE_MS = 2 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+
+type UserPresence = {
+  online: boolean;
+  lastSeenAt: Date | null;
+};
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (value.toDate) return value.toDate();
+  if (value instanceof Date) return value;
+  return null;
+};
+
+// Aggiorna la propria presenza finché l'app è in primo piano; con "nascondi" il documento sparisce
+export function usePresenceHeartbeat(userId?: string | null, hidden = false) {
+  useEffect(() => {
+    if (!userId) return;
+    const presenceRef = doc(db, 'presence', userId);
+
+    if (hidden) {
+      deleteDoc(presenceRef).catch(() => {});
+      return;
+    }
+
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+    const touch = () => {
+      setDoc(presenceRef, { activeAt: serverTimestamp() }, { merge: true }).catch(() => {
+        // best effort
+      });
+    };
+    const start = () => {
+      if (intervalId) return;
+      touch();
+      intervalId = setInterval(touch, HEARTBEAT_MS);
+    };
+    const stop = () => {
+      if (!intervalId) return;
+      clearInterval(intervalId);
+      intervalId = null;
+      // L'ultimo battito diventa l'ultimo accesso
+      touch();
+    };
+
+    if (AppState.currentState === 'active') start();
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') start();
+      else stop();
+    });
+
+    return () => {
+      sub.remove();
+      stop();
+    };
+  }, [userId, hidden]);
+}
+
+export function useUserPresence(userId?: string | null, enabled = true): UserPresence {
+  const [lastSeenAt, setLastSeenAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!userId || !enabled) {
+      setLastSeenAt(null);
+      return;
+    }
+    const unsub = onSnapshot(
+      doc(db, 'presence', userId),
+      (snap) => {
+        setLastSeenAt(toDate(snap.data()?.activeAt));
+        setNow(Date.now());
+      },
+      () => setLastSeenAt(null)
+    );
+    return unsub;
+  }, [userId, enabled]);
+
+  // Senza nuovi battiti "online" deve scadere da solo
+  useEffect(() => {
+    if (!lastSeenAt) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(intervalId);
+  }, [lastSeenAt]);
+
+  const online = !!lastSeenAt && now - lastSeenAt.getTime() <= PRESENCE_ACTIVE_MS;
+  return { online, lastSeenAt };
+}
+
+export type { UserPresence };
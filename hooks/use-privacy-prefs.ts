@@ -0,0 +1,24 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+
+import { db } from '@/lib/firebase';
+import { DEFAULT_PRIVACY_PREFS, parsePrivacyPrefs, type PrivacyPrefs } from '@/lib/privacy';
+
+export function usePrivacyPrefs(userId?: string | null) {
+  const [prefs, setPrefs] = useState<PrivacyPrefs>(DEFAULT_PRIVACY_PREFS);
+
+  useEffect(() => {
+    if (!userId) {
+      setPrefs(DEFAULT_PRIVACY_PREFS);
+      return;
+    }
+    const unsub = onSnapshot(
+      doc(db, 'profiles', userId),
+      (snap) => setPrefs(parsePrivacyPrefs(snap.data()?.privacy)),
+      () => {}
+    );
+    return unsub;
+  }, [userId]);
+
+  return prefs;
+}
@@ -7,7 +7,7 @@ type Profile = {
   name: string;
   age: number;
   city: string;
-  distanceKm: number;
+  location?: { lat: number; lng: number; geohash?: string };
   photo: string;
   interests: string[];
   bio?: string;
@@ -1,64 +1,225 @@
-import { collection, getDocs } from 'firebase/firestore';
-import { useEffect, useRef, useState } from 'react';
+import {
+  collection,
+  getDocs,
+  limit,
+  query,
+  startAfter,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { db } from '@/lib/firebase';
+import {
+  distanceKmBetween,
+  formatDistanceKm,
+  geohashQueryBounds,
+  parseProfileLocation,
+  type GeoPoint,
+} from '@/lib/geo';
 
 type Profile = {
   id: string;
   name: string;
   age: number;
   city: string;
-  distanceKm: number;
+  location?: GeoPoint & { geohash?: string };
+  // Calcolata lato client rispetto a chi guarda, mai salvata su Firestore
+  distanceKm?: number;
   photo: string;
   photos?: string[];
   interests: string[];
+  role?: string;
+  intent?: string;
   bio?: string;
   jobTitle?: string;
   blocked?: string[];
   blockedBy?: string[];
+  // Nascosto dalle segnalazioni, in attesa di revisione
+  moderationHidden?: boolean;
 };
 
-export type { Profile };
+type ProfileQueryFilters = {
+  minAge?: number;
+  maxAge?: number;
+  maxDistanceKm?: number;
+  role?: string | null;
+  intent?: string | null;
+};
+
+// Un cursore per ogni intervallo di geohash (o uno solo se non filtriamo per distanza)
+type RangeCursor = {
+  bounds: [string, string] | null;
+  last: QueryDocumentSnapshot | null;
+  done: boolean;
+};
 
-export function useProfiles() {
+export type { Profile, ProfileQueryFilters };
+
+const PAGE_SIZE = 24;
+const FILTERS_DEBOUNCE_MS = 300;
+
+export function useProfiles(viewerLocation?: GeoPoint | null, filters: ProfileQueryFilters = {}) {
   const [data, setData] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const activeRef = useRef(true);
+  const cursorsRef = useRef<RangeCursor[]>([]);
+  const requestIdRef = useRef(0);
+  const fetchingMoreRef = useRef(false);
+  const viewerLat = viewerLocation?.lat;
+  const viewerLng = viewerLocation?.lng;
+  const { minAge, maxAge, maxDistanceKm, role, intent } = filters;
+  const useGeoBounds =
+    typeof maxDistanceKm === 'number' && viewerLat !== undefined && viewerLng !== undefined;
+
+  const baseConstraints = useMemo(() => {
+    const constraints: QueryConstraint[] = [];
+    if (typeof minAge === 'number') constraints.push(where('age', '>=', minAge));
+    if (typeof maxAge === 'number') constraints.push(where('age', '<=', maxAge));
+    if (role) constraints.push(where('role', '==', role));
+    if (intent) constraints.push(where('intent', '==', intent));
+    return constraints;
+  }, [minAge, maxAge, role, intent]);
 
-  const fetchProfiles = async (isRefresh = false) => {
-    if (isRefresh) {
-      setRefreshing(true);
-    } else {
-      setLoading(true);
+  const buildCursors = useCallback((): RangeCursor[] => {
+    if (!useGeoBounds) {
+      return [{ bounds: null, last: null, done: false }];
     }
+    return geohashQueryBounds({ lat: viewerLat!, lng: viewerLng! }, maxDistanceKm!).map(
+      (bounds) => ({ bounds, last: null, done: false })
+    );
+  }, [useGeoBounds, viewerLat, viewerLng, maxDistanceKm]);
+
+  const fetchPage = useCallback(
+    async (cursors: RangeCursor[]) => {
+      const pages = await Promise.all(
+        cursors.map(async (cursor) => {
+          if (cursor.done) return [];
+          const constraints = [...baseConstraints];
+          if (cursor.bounds) {
+            constraints.push(
+              where('location.geohash', '>=', cursor.bounds[0]),
+              where('location.geohash', '<', cursor.bounds[1])
+            );
+          }
+          if (cursor.last) constraints.push(startAfter(cursor.last));
+          constraints.push(limit(PAGE_SIZE));
+          const snap = await getDocs(query(collection(db, 'profiles'), ...constraints));
+          cursor.last = snap.docs[snap.docs.length - 1] ?? cursor.last;
+          cursor.done = snap.docs.length < PAGE_SIZE;
+          return snap.docs;
+        })
+      );
+      const items = pages.flat().map((snap) => {
+        const { distanceKm, ...rest } = snap.data() as Profile;
+        return { ...rest, id: snap.id } as Profile;
+      });
+      return { items, more: cursors.some((cursor) => !cursor.done) };
+    },
+    [baseConstraints]
+  );
+
+  const fetchProfiles = useCallback(
+    async (isRefresh = false) => {
+      const requestId = requestIdRef.current + 1;
+      requestIdRef.current = requestId;
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      const cursors = buildCursors();
+      cursorsRef.current = cursors;
+      try {
+        const { items, more } = await fetchPage(cursors);
+        if (!activeRef.current || requestId !== requestIdRef.current) return;
+        setData(items);
+        setHasMore(more);
+        setError(null);
+      } catch (err) {
+        if (!activeRef.current || requestId !== requestIdRef.current) return;
+        setError(err as Error);
+      } finally {
+        if (activeRef.current && requestId === requestIdRef.current) {
+          if (isRefresh) {
+            setRefreshing(false);
+          } else {
+            setLoading(false);
+          }
+        }
+      }
+    },
+    [buildCursors, fetchPage]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (fetchingMoreRef.current || loading || refreshing || !hasMore) return;
+    const requestId = requestIdRef.current;
+    fetchingMoreRef.current = true;
+    setLoadingMore(true);
     try {
-      const snap = await getDocs(collection(db, 'profiles'));
-      if (!activeRef.current) return;
-      const items = snap.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Profile));
-      setData(items);
-      setError(null);
+      const { items, more } = await fetchPage(cursorsRef.current);
+      if (!activeRef.current || requestId !== requestIdRef.current) return;
+      setData((prev) => {
+        const seen = new Set(prev.map((item) => item.id));
+        return [...prev, ...items.filter((item) => !seen.has(item.id))];
+      });
+      setHasMore(more);
     } catch (err) {
-      if (!activeRef.current) return;
+      if (!activeRef.current || requestId !== requestIdRef.current) return;
       setError(err as Error);
     } finally {
-      if (!activeRef.current) return;
-      if (isRefresh) {
-        setRefreshing(false);
-      } else {
-        setLoading(false);
-      }
+      fetchingMoreRef.current = false;
+      if (activeRef.current) setLoadingMore(false);
     }
-  };
+  }, [fetchPage, loading, refreshing, hasMore]);
 
   useEffect(() => {
     activeRef.current = true;
-    fetchProfiles();
     return () => {
       activeRef.current = false;
     };
   }, []);
 
-  return { data, loading, error, refresh: () => fetchProfiles(true), refreshing };
+  // I filtri arrivano dai campi di testo: aspettiamo che l'utente smetta di scrivere
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchProfiles();
+    }, FILTERS_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [fetchProfiles]);
+
+  const withDistance = useMemo(() => {
+    const viewer =
+      viewerLat !== undefined && viewerLng !== undefined ? { lat: viewerLat, lng: viewerLng } : null;
+    const items = viewer
+      ? data.map((item) => {
+          const target = parseProfileLocation(item.location);
+          if (!target) return item;
+          return { ...item, distanceKm: formatDistanceKm(distanceKmBetween(viewer, target)) };
+        })
+      : data;
+    if (typeof maxDistanceKm !== 'number') return items;
+    // Le celle geohash coprono un quadrato: scartiamo gli angoli fuori dal raggio.
+    // Senza posizione (nostra o loro) la distanza non è nota e il profilo resta fuori.
+    return items.filter(
+      (item) => typeof item.distanceKm === 'number' && item.distanceKm <= maxDistanceKm
+    );
+  }, [data, viewerLat, viewerLng, maxDistanceKm]);
+
+  return {
+    data: withDistance,
+    loading,
+    error,
+    refresh: () => fetchProfiles(true),
+    refreshing,
+    loadMore,
+    loadingMore,
+    hasMore,
+  };
 }
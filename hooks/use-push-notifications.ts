@@ -0,0 +1,38 @@
+import * as Notifications from 'expo-notifications';
+import { router, type Href } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+
+import { getNotificationUrl, registerPushToken } from '@/lib/notifications';
+
+// Registra il token del dispositivo e apre la schermata giusta al tap sulla notifica
+export function usePushNotifications(userId?: string | null) {
+  const handledIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!userId || Platform.OS === 'web') return;
+    registerPushToken(userId).catch(() => {
+      // best effort
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || Platform.OS === 'web') return;
+
+    const openFromResponse = (response: Notifications.NotificationResponse | null) => {
+      const url = getNotificationUrl(response);
+      const id = response?.notification.request.identifier ?? null;
+      if (!url || !id || handledIdRef.current === id) return;
+      handledIdRef.current = id;
+      router.push(url as Href);
+    };
+
+    // App aperta da una notifica mentre era chiusa
+    Notifications.getLastNotificationResponseAsync()
+      .then(openFromResponse)
+      .catch(() => {});
+
+    const sub = Notifications.addNotificationResponseReceivedListener(openFromResponse);
+    return () => sub.remove();
+  }, [userId]);
+}
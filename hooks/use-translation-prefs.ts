@@ -0,0 +1,52 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { db } from '@/lib/firebase';
+import {
+  DEFAULT_TRANSLATION_PREFS,
+  parseTranslationPrefs,
+  saveChatTranslationPrefs,
+  type TranslationPrefs,
+} from '@/lib/translation';
+
+// Preferenze di traduzione della chat, con ripiego sul predefinito del profilo
+export function useTranslationPrefs(userId?: string | null, chatId?: string | null) {
+  const [defaults, setDefaults] = useState<TranslationPrefs>(DEFAULT_TRANSLATION_PREFS);
+  const [chatPrefs, setChatPrefs] = useState<any>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setDefaults(DEFAULT_TRANSLATION_PREFS);
+      return;
+    }
+    const unsub = onSnapshot(
+      doc(db, 'profiles', userId),
+      (snap) => setDefaults(parseTranslationPrefs(snap.data()?.translationPrefs)),
+      () => {}
+    );
+    return unsub;
+  }, [userId]);
+
+  useEffect(() => {
+    setChatPrefs(null);
+    if (!userId || !chatId) return;
+    const unsub = onSnapshot(
+      doc(db, 'chats', chatId),
+      (snap) => setChatPrefs(snap.data()?.translationPrefs?.[userId] ?? null),
+      () => {}
+    );
+    return unsub;
+  }, [userId, chatId]);
+
+  const prefs = useMemo(() => parseTranslationPrefs(chatPrefs, defaults), [chatPrefs, defaults]);
+
+  const updatePrefs = useCallback(
+    (patch: Partial<TranslationPrefs>) => {
+      if (!userId || !chatId) return Promise.resolve();
+      return saveChatTranslationPrefs(chatId, userId, { ...prefs, ...patch });
+    },
+    [userId, chatId, prefs]
+  );
+
+  return { prefs, updatePrefs };
+}
@@ -0,0 +1,65 @@
+import { deleteDoc, doc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { db } from '@/lib/firebase';
+
+// Un battito ogni pochi secondi mentre si scrive; senza battiti l'indicatore si spegne
+const TYPING_THROTTLE_MS = 3000;
+const TYPING_ACTIVE_MS = 6000;
+const STALE_TYPING_MS = 60 * 1000;
+
+export function useTypingIndicator(chatId: string | null, userId?: string | null, otherId?: string) {
+  const [otherTypingAt, setOtherTypingAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!chatId || !otherId) return;
+    const unsub = onSnapshot(
+      doc(db, 'chats', chatId, 'typing', otherId),
+      (snap) => {
+        const value = snap.data()?.typingAt;
+        const sentAt = value?.toMillis ? value.toMillis() : Date.now();
+        // Conta l'arrivo del battito (immune agli orologi sfasati); scarta i documenti rimasti orfani
+        const stale = Date.now() - sentAt > STALE_TYPING_MS;
+        setOtherTypingAt(snap.exists() && !stale ? Date.now() : null);
+        setNow(Date.now());
+      },
+      () => setOtherTypingAt(null)
+    );
+    return unsub;
+  }, [chatId, otherId]);
+
+  useEffect(() => {
+    if (!otherTypingAt) return;
+    const remaining = otherTypingAt + TYPING_ACTIVE_MS - Date.now();
+    if (remaining <= 0) return;
+    const timeout = setTimeout(() => setNow(Date.now()), remaining + 50);
+    return () => clearTimeout(timeout);
+  }, [otherTypingAt, now]);
+
+  const stopTyping = useCallback(() => {
+    if (!chatId || !userId || !lastSentRef.current) return;
+    lastSentRef.current = 0;
+    deleteDoc(doc(db, 'chats', chatId, 'typing', userId)).catch(() => {});
+  }, [chatId, userId]);
+
+  const notifyTyping = useCallback(
+    (text: string) => {
+      if (!chatId || !userId) return;
+      if (!text.trim()) {
+        stopTyping();
+        return;
+      }
+      if (Date.now() - lastSentRef.current < TYPING_THROTTLE_MS) return;
+      lastSentRef.current = Date.now();
+      setDoc(doc(db, 'chats', chatId, 'typing', userId), { typingAt: serverTimestamp() }).catch(() => {});
+    },
+    [chatId, userId, stopTyping]
+  );
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  const otherTyping = !!otherTypingAt && now - otherTypingAt <= TYPING_ACTIVE_MS;
+  return { otherTyping, notifyTyping, stopTyping };
+}
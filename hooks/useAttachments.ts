@@ -25,25 +25,23 @@ export function useAttachments(
     }
     const result = await ImagePicker.launchImageLibraryAsync({
       allowsEditing: false,
-      base64: true,
       quality: 0.8,
       selectionLimit: 1,
     });
     if (result.canceled || !result.assets.length) return;
-    const asset = result.assets[0];
-    const dataUrl = asset.base64 && asset.type ? `data:${asset.type};base64,${asset.base64}` : asset.uri;
+    // L'uri locale viene caricato su Storage da handleSendMessage
     setImageTimed(false);
-    setPreviewImage(dataUrl);
+    setPreviewImage(result.assets[0].uri);
     setPreviewVisible(true);
   };
 
-  const sendImageMessage = async (dataUrl: string, timed: boolean) => {
+  const sendImageMessage = async (imageUri: string, timed: boolean) => {
     if (!chatId) return;
     setSendingImage(true);
     try {
       await handleSendMessage(
         {
-          image: dataUrl,
+          image: imageUri,
         },
         timed || secretMode
       );
@@ -1,16 +1,19 @@
 
 import { Audio } from 'expo-av';
-import * as FileSystem from 'expo-file-system/legacy';
 import { useRef, useState } from 'react';
-import { Alert } from 'react-native';
+import { Alert, Platform } from 'react-native';
 
-import { useChatMessages } from './useChatMessages';
+import { inferMime } from '@/lib/storage';
 
 export function useAudioRecorder(
   chatId: string | null,
   otherId: string,
   secretMode: boolean,
-  handleSendMessage: (messageData: Partial<any>, isSecret: boolean) => Promise<void>
+  handleSendMessage: (
+    messageData: Partial<any>,
+    isSecret: boolean,
+    options?: { audioMime?: string }
+  ) => Promise<void>
 ) {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingPaused, setRecordingPaused] = useState(false);
@@ -62,20 +65,19 @@ export function useAudioRecorder(
       recordingRef.current = null;
       setIsRecording(false);
       const duration = status && 'durationMillis' in status ? status.durationMillis ?? 0 : 0;
-      const base64 = uri
-        ? await FileSystem.readAsStringAsync(uri, { encoding: 'base64' as any })
-        : null;
-      if (!uri || !base64) {
+      if (!uri) {
         throw new Error('Audio non valido');
       }
-      const dataUrl = `data:audio/m4a;base64,${base64}`;
-      
+      // Il file locale viene caricato su Storage da handleSendMessage
+      const audioMime = Platform.OS === 'web' ? 'audio/webm' : inferMime(uri, 'audio/mp4');
+
       await handleSendMessage(
         {
-          audio: dataUrl,
+          audio: uri,
           audioDuration: duration || recordingDuration,
         },
-        secretMode
+        secretMode,
+        { audioMime }
       );
     } catch (e) {
       Alert.alert('Errore', 'Non sono riuscito a inviare il messaggio audio.');
@@ -1,20 +1,31 @@
 
 import {
-  addDoc,
   collection,
+  endAt,
   limit as firestoreLimit,
   onSnapshot,
   orderBy,
   query,
-  serverTimestamp,
-  setDoc,
-  doc,
+  startAfter,
   Timestamp,
+  where,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
 } from 'firebase/firestore';
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Alert } from 'react-native';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 
 import { db } from '@/lib/firebase';
+import {
+  cancelOutboxMessage,
+  enqueueMessage,
+  getOutboxSnapshot,
+  retryOutboxMessage,
+  subscribeOutbox,
+  type OutboxState,
+} from '@/lib/outbox';
+import type { ReplyTo } from '@/lib/replies';
+import type { CachedTranslation } from '@/lib/translation';
+import { isRemoteMediaUri } from '@/lib/storage';
 import { useAuth } from './use-auth';
 
 type ChatMessage = {
@@ -26,28 +37,94 @@ type ChatMessage = {
   imagePath?: string;
   sensitive?: boolean;
   audio?: string;
+  audioPath?: string;
   audioDuration?: number;
   expiresAfterView?: boolean;
   expiresAt?: Timestamp | Date;
+  deliveredAt?: Timestamp | null;
+  readAt?: Timestamp | null;
+  reactions?: Record<string, string>;
+  translations?: Record<string, CachedTranslation>;
   location?: {
     lat: number;
     lng: number;
   };
+  replyTo?: ReplyTo;
+  editedAt?: Timestamp | null;
+  unsent?: boolean;
+  // Nascosto dalle segnalazioni, in attesa di revisione
+  moderationHidden?: boolean;
+  system?: 'disappearing';
+  disappearingAfter?: number | null;
+  // Solo per i messaggi ancora in coda: quelli confermati dal server non lo hanno
+  deliveryState?: OutboxState;
 };
 
 const INITIAL_MESSAGES_LIMIT = 30;
+const OLDER_PAGE_SIZE = 30;
+
+const toChatMessages = (docs: QueryDocumentSnapshot[]): ChatMessage[] =>
+  docs.map((d) => ({ id: d.id, ...(d.data() as any) })).reverse();
 
 type SendMessageOptions = {
-  messageId?: string;
+  audioMime?: string;
+};
+
+type MediaUploadState = {
+  messageId: string;
+  kind: 'image' | 'audio';
+  progress: number;
 };
 
-export function useChatMessages(chatId: string | null, otherId: string, otherName?: string, otherPhoto?: string) {
+// clearedAt: "Elimina chat" dell'utente (listState), undefined finché la chat non è caricata
+export function useChatMessages(
+  chatId: string | null,
+  otherId: string,
+  otherName?: string,
+  otherPhoto?: string,
+  clearedAt?: number | null
+) {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [pendingMessages, setPendingMessages] = useState<ChatMessage[]>([]);
+  const [liveMessages, setLiveMessages] = useState<ChatMessage[]>([]);
+  const [olderPages, setOlderPages] = useState<ChatMessage[][]>([]);
   const [messagesLoading, setMessagesLoading] = useState(true);
   const [initialLoadDone, setInitialLoadDone] = useState(false);
-  const [sending, setSending] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMoreOlder, setHasMoreOlder] = useState(false);
+  // Messaggio più vecchio della finestra iniziale: da lì in poi la finestra live non scorre più
+  const [anchor, setAnchor] = useState<QueryDocumentSnapshot | null>(null);
+  const liveOldestRef = useRef<QueryDocumentSnapshot | null>(null);
+  const pageLastDocsRef = useRef<(QueryDocumentSnapshot | null)[]>([]);
+  const pageUnsubsRef = useRef<Unsubscribe[]>([]);
+  const outbox = useSyncExternalStore(subscribeOutbox, getOutboxSnapshot);
+
+  useEffect(() => {
+    setLiveMessages([]);
+    setOlderPages([]);
+    setAnchor(null);
+    setHasMoreOlder(false);
+    setLoadingOlder(false);
+    liveOldestRef.current = null;
+    pageLastDocsRef.current = [];
+
+    return () => {
+      pageUnsubsRef.current.forEach((unsub) => unsub());
+      pageUnsubsRef.current = [];
+    };
+  }, [chatId, clearedAt]);
+
+  // Solo i messaggi dopo l'ultima "Elimina chat": per l'altro partecipante restano tutti
+  const messagesQuery = useMemo(() => {
+    if (!chatId || clearedAt === undefined) return null;
+    const messagesRef = collection(db, 'chats', chatId, 'messages');
+    return clearedAt === null
+      ? query(messagesRef, orderBy('createdAt', 'desc'))
+      : query(
+          messagesRef,
+          where('createdAt', '>', Timestamp.fromMillis(clearedAt)),
+          orderBy('createdAt', 'desc')
+        );
+  }, [chatId, clearedAt]);
 
   useEffect(() => {
     if (!chatId) {
@@ -55,44 +132,66 @@ export function useChatMessages(chatId: string | null, otherId: string, otherNam
       setInitialLoadDone(true);
       return;
     }
+    if (!messagesQuery) return;
 
-    const q = query(
-      collection(db, 'chats', chatId, 'messages'),
-      orderBy('createdAt', 'desc'),
-      firestoreLimit(INITIAL_MESSAGES_LIMIT)
-    );
+    const q = anchor
+      ? query(messagesQuery, endAt(anchor))
+      : query(messagesQuery, firestoreLimit(INITIAL_MESSAGES_LIMIT));
 
     const unsub = onSnapshot(q, (snap) => {
-      const items: ChatMessage[] = snap.docs
-        .map((d) => ({ id: d.id, ...(d.data() as any) }))
-        .reverse();
-
-      setMessages(items);
-      setPendingMessages((prev) =>
-        prev.filter(
-          (p) =>
-            !items.some(
-              (m) =>
-                m.senderId === p.senderId &&
-                ((p.text && m.text === p.text) ||
-                  (p.image && m.image === p.image) ||
-                  (p.audio && m.audio === p.audio) ||
-                  (p.location &&
-                    m.location &&
-                    m.location.lat === p.location.lat &&
-                    m.location.lng === p.location.lng))
-            )
-        )
-      );
-
-      if (!initialLoadDone) {
-        setInitialLoadDone(true);
-        setMessagesLoading(false);
+      setLiveMessages(toChatMessages(snap.docs));
+
+      if (!anchor) {
+        liveOldestRef.current = snap.docs[snap.docs.length - 1] ?? null;
+        setHasMoreOlder(snap.size >= INITIAL_MESSAGES_LIMIT);
       }
+
+      setInitialLoadDone(true);
+      setMessagesLoading(false);
     });
 
     return unsub;
-  }, [chatId, initialLoadDone]);
+  }, [chatId, anchor, messagesQuery]);
+
+  // Ogni pagina più vecchia ha il suo listener (startAfter sul cursore), così
+  // scadenze e cancellazioni restano allineate anche nello storico
+  const loadOlderMessages = useCallback(() => {
+    if (!messagesQuery || loadingOlder || !hasMoreOlder) return;
+    const index = pageLastDocsRef.current.length;
+    const cursor = index === 0 ? liveOldestRef.current : pageLastDocsRef.current[index - 1];
+    if (!cursor) return;
+
+    if (index === 0) setAnchor(cursor);
+    pageLastDocsRef.current = [...pageLastDocsRef.current, null];
+    setLoadingOlder(true);
+
+    const q = query(messagesQuery, startAfter(cursor), firestoreLimit(OLDER_PAGE_SIZE));
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        pageLastDocsRef.current[index] = snap.docs[snap.docs.length - 1] ?? null;
+        setOlderPages((prev) => {
+          const next = [...prev];
+          next[index] = toChatMessages(snap.docs);
+          return next;
+        });
+        if (index === pageLastDocsRef.current.length - 1) {
+          setHasMoreOlder(snap.size >= OLDER_PAGE_SIZE);
+          setLoadingOlder(false);
+        }
+      },
+      () => setLoadingOlder(false)
+    );
+    pageUnsubsRef.current.push(unsub);
+  }, [messagesQuery, loadingOlder, hasMoreOlder]);
+
+  // Pagine dalla più vecchia alla finestra live; le sovrapposizioni si risolvono per id
+  const messages = useMemo(() => {
+    const byId = new Map<string, ChatMessage>();
+    [...olderPages].reverse().forEach((page) => page?.forEach((m) => byId.set(m.id, m)));
+    liveMessages.forEach((m) => byId.set(m.id, m));
+    return Array.from(byId.values());
+  }, [olderPages, liveMessages]);
 
   const handleSendMessage = useCallback(async (
     messageData: Partial<ChatMessage>,
@@ -101,83 +200,93 @@ export function useChatMessages(chatId: string | null, otherId: string, otherNam
   ) => {
     if (!chatId || !user?.uid) return;
 
-    setSending(true);
-    const normalizedMessage: Partial<ChatMessage> = { ...messageData };
-    const tempIdPrefix = normalizedMessage.image
-      ? 'local-img'
-      : normalizedMessage.audio
-      ? 'local-audio'
-      : normalizedMessage.location
-      ? 'local-location'
-      : 'local';
-    const tempId = `${tempIdPrefix}-${Date.now()}`;
-    const optimisticMsg: ChatMessage = {
-      id: tempId,
+    // La consegna (upload compresi) la gestisce la coda, anche dopo un riavvio dell'app
+    enqueueMessage({
+      chatId,
       senderId: user.uid,
-      createdAt: new Date(),
-      expiresAfterView: isSecret,
-      ...normalizedMessage,
+      senderName: user.displayName ?? undefined,
+      otherId,
+      otherName,
+      otherPhoto,
+      message: {
+        text: messageData.text,
+        image: messageData.image,
+        sensitive: messageData.sensitive,
+        audio: messageData.audio,
+        audioDuration: messageData.audioDuration,
+        location: messageData.location,
+        replyTo: messageData.replyTo,
+      },
+      isSecret,
+      audioMime: options?.audioMime,
+    });
+  }, [chatId, user?.uid, user?.displayName, otherId, otherName, otherPhoto]);
+
+  const chatOutbox = useMemo(
+    () => outbox.entries.filter((entry) => entry.chatId === chatId),
+    [outbox.entries, chatId]
+  );
+
+  // Foto o vocale in caricamento in questa chat, per la barra sopra al composer
+  const mediaUpload = useMemo<MediaUploadState | null>(() => {
+    const entry = chatOutbox.find(
+      (item) =>
+        item.state === 'sending' &&
+        ((item.message.image && !isRemoteMediaUri(item.message.image)) ||
+          (item.message.audio && !isRemoteMediaUri(item.message.audio)))
+    );
+    if (!entry) return null;
+    return {
+      messageId: entry.id,
+      kind: entry.message.image ? 'image' : 'audio',
+      progress: outbox.uploadProgress[entry.id] ?? 0,
     };
+  }, [chatOutbox, outbox.uploadProgress]);
 
-    setPendingMessages((prev) => [...prev, optimisticMsg]);
-
-    try {
-      let lastMessageText = '[Messaggio]';
-      if (normalizedMessage.text) lastMessageText = normalizedMessage.text;
-      if (normalizedMessage.image) lastMessageText = '[Foto]';
-      if (normalizedMessage.audio) lastMessageText = '[Audio]';
-      if (normalizedMessage.location) lastMessageText = '[Posizione]';
-
-      await setDoc(
-        doc(db, 'chats', chatId),
-        {
-          participants: [user.uid, otherId],
-          updatedAt: serverTimestamp(),
-          lastMessage: lastMessageText,
-          lastSender: user.uid,
-          names: {
-            ...(otherName ? { [otherId]: otherName } : {}),
-            ...(user.displayName ? { [user.uid]: user.displayName } : {}),
-          },
-          photos: {
-            ...(otherPhoto ? { [otherId]: otherPhoto } : {}),
-          },
-        },
-        { merge: true }
-      );
-
-      const messagePayload = {
-        ...normalizedMessage,
-        senderId: user.uid,
-        createdAt: serverTimestamp(),
-        expiresAfterView: isSecret,
-      };
-
-      if (options?.messageId) {
-        await setDoc(
-          doc(db, 'chats', chatId, 'messages', options.messageId),
-          { id: options.messageId, ...messagePayload },
-          { merge: true }
-        );
-      } else {
-        await addDoc(collection(db, 'chats', chatId, 'messages'), messagePayload);
-      }
-      
-    } catch (e) {
-      Alert.alert('Errore', 'Impossibile inviare il messaggio.');
-    } finally {
-      setPendingMessages((prev) => prev.filter((m) => m.id !== tempId));
-      setSending(false);
-    }
-  }, [chatId, user?.uid, otherId, otherName, otherPhoto]);
+  const cancelMediaUpload = useCallback(() => {
+    if (mediaUpload) cancelOutboxMessage(mediaUpload.messageId);
+  }, [mediaUpload]);
+
+  const retryMessage = useCallback((messageId: string) => {
+    retryOutboxMessage(messageId);
+  }, []);
 
-  const chatData = useMemo(() => [...messages, ...pendingMessages], [messages, pendingMessages]);
+  const discardMessage = useCallback((messageId: string) => {
+    cancelOutboxMessage(messageId);
+  }, []);
+
+  // Deduplica per id: il documento scritto dalla coda sostituisce la copia locale
+  const chatData = useMemo(() => {
+    const states = new Map(chatOutbox.map((entry) => [entry.id, entry.state]));
+    const merged: ChatMessage[] = messages.map((m) =>
+      states.has(m.id) ? { ...m, deliveryState: states.get(m.id) } : m
+    );
+    const delivered = new Set(messages.map((m) => m.id));
+    chatOutbox.forEach((entry) => {
+      if (delivered.has(entry.id)) return;
+      merged.push({
+        id: entry.id,
+        senderId: entry.senderId,
+        createdAt: new Date(entry.createdAt),
+        expiresAfterView: entry.isSecret,
+        ...entry.message,
+        deliveryState: entry.state,
+      });
+    });
+    return merged;
+  }, [messages, chatOutbox]);
 
   return {
     messages: chatData,
     messagesLoading,
     initialLoadDone,
-    sending,
+    loadingOlder,
+    hasMoreOlder,
+    loadOlderMessages,
+    mediaUpload,
+    cancelMediaUpload,
+    retryMessage,
+    discardMessage,
     handleSendMessage,
   };
 }
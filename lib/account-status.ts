@@ -0,0 +1,111 @@
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '@/lib/firebase';
+
+type AccountState = 'active' | 'suspended' | 'banned';
+
+type AccountStatus = {
+  state: AccountState;
+  reason: string;
+  // null: ban o sospensione senza scadenza
+  until: number | null;
+  since: number;
+};
+
+type AccountAppeal = {
+  status: 'pending' | 'accepted' | 'rejected';
+  text: string;
+  reviewNote: string;
+  // Confrontato con AccountStatus.since: un ricorso per sospensione
+  suspendedAt: number;
+};
+
+type AccountStatusErrorAlert = {
+  title: string;
+  message: string;
+};
+
+// Deve coincidere con APPEAL_TEXT_MAX_LENGTH in functions/index.js
+export const APPEAL_TEXT_MAX_LENGTH = 1000;
+
+export const ACTIVE_ACCOUNT_STATUS: AccountStatus = {
+  state: 'active',
+  reason: '',
+  until: null,
+  since: 0,
+};
+
+const toMillis = (value: any) => (value?.toMillis ? value.toMillis() : 0);
+
+export const parseAccountStatus = (value: any): AccountStatus => {
+  if (!value || (value.state !== 'suspended' && value.state !== 'banned')) {
+    return ACTIVE_ACCOUNT_STATUS;
+  }
+  return {
+    state: value.state,
+    reason: typeof value.reason === 'string' ? value.reason : '',
+    until: value.until ? toMillis(value.until) : null,
+    since: toMillis(value.updatedAt),
+  };
+};
+
+export const parseAccountAppeal = (value: any): AccountAppeal | null => {
+  if (!value || typeof value.status !== 'string') return null;
+  return {
+    status: value.status,
+    text: typeof value.text === 'string' ? value.text : '',
+    reviewNote: typeof value.reviewNote === 'string' ? value.reviewNote : '',
+    suspendedAt: toMillis(value.suspendedAt),
+  };
+};
+
+// Come isAccountRestricted lato server: una sospensione scaduta non blocca più
+export const isAccountRestricted = (status: AccountStatus, now = Date.now()) =>
+  status.state !== 'active' && (status.until === null || status.until > now);
+
+// subject: "Il tuo account" per l'utente, "L'account" nella console di moderazione
+export const describeAccountStatus = (status: AccountStatus, subject = 'Il tuo account') => {
+  if (status.state === 'banned') return `${subject} è stato bannato in modo permanente.`;
+  if (!status.until) return `${subject} è sospeso.`;
+  const until = new Date(status.until).toLocaleString([], {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return `${subject} è sospeso fino al ${until}.`;
+};
+
+const submitAccountAppealCallable = httpsCallable<{ text: string }, { ok: boolean }>(
+  functions,
+  'submitAccountAppeal'
+);
+
+export const submitAccountAppeal = async (text: string) =>
+  (await submitAccountAppealCallable({ text: text.trim() })).data;
+
+export const getAccountStatusErrorAlert = (
+  error: any,
+  fallback: string
+): AccountStatusErrorAlert => {
+  const code = error?.code || '';
+  const reason = error?.message || '';
+  if (code === 'functions/already-exists' || reason.includes('appeal-pending')) {
+    return { title: 'Ricorso già inviato', message: 'Il tuo ricorso è in fase di revisione.' };
+  }
+  if (reason.includes('appeal-already-reviewed')) {
+    return {
+      title: 'Ricorso già valutato',
+      message: 'Per questa sospensione è già stato valutato un ricorso.',
+    };
+  }
+  if (reason.includes('not-suspended')) {
+    return { title: 'Account attivo', message: 'Il tuo account non è più sospeso.' };
+  }
+  if (code === 'functions/unauthenticated') {
+    return { title: 'Errore', message: 'Devi essere loggato per continuare.' };
+  }
+  return { title: 'Errore', message: fallback };
+};
+
+export type { AccountAppeal, AccountState, AccountStatus };
@@ -0,0 +1,42 @@
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '@/lib/firebase';
+
+type BlockErrorAlert = {
+  title: string;
+  message: string;
+};
+
+const blockUserCallable = httpsCallable<{ targetId: string }, { ok: boolean }>(
+  functions,
+  'blockUser'
+);
+const unblockUserCallable = httpsCallable<{ targetId: string }, { ok: boolean }>(
+  functions,
+  'unblockUser'
+);
+
+// Aggiornano insieme i due profili (blocked/blockedBy) e il banner della chat
+export const blockUser = async (targetId: string) => (await blockUserCallable({ targetId })).data;
+
+export const unblockUser = async (targetId: string) =>
+  (await unblockUserCallable({ targetId })).data;
+
+// Chi ho bloccato e chi mi ha bloccato: in entrambi i casi non ci si vede
+export const getBlockedIds = (profile: any) =>
+  new Set<string>([
+    ...(Array.isArray(profile?.blocked) ? profile.blocked : []),
+    ...(Array.isArray(profile?.blockedBy) ? profile.blockedBy : []),
+  ]);
+
+export const getBlockErrorAlert = (error: any, fallback: string): BlockErrorAlert => {
+  const code = error?.code || '';
+  const reason = error?.message || '';
+  if (code === 'functions/not-found' || reason.includes('profile-not-found')) {
+    return { title: 'Non disponibile', message: 'Il profilo non esiste più.' };
+  }
+  if (code === 'functions/unauthenticated') {
+    return { title: 'Errore', message: 'Devi essere loggato per continuare.' };
+  }
+  return { title: 'Errore', message: fallback };
+};
@@ -0,0 +1,135 @@
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+
+// Stato della chat nella lista di ciascun partecipante: chats/{id}.listState.{uid}
+type ChatListState = {
+  pinned: boolean;
+  archived: boolean;
+  muted: boolean;
+  // ms; null con muted attivo = finché non la si riattiva
+  mutedUntil: number | null;
+  markedUnread: boolean;
+  // ms; "Elimina chat" nasconde solo per sé i messaggi fino a quel momento
+  clearedAt: number | null;
+};
+
+type ChatListEntry = {
+  lastSender?: string;
+  updatedAt?: any;
+  readBy?: Record<string, any>;
+  listState?: Record<string, any>;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MUTE_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 8 * HOUR_MS, label: '8 ore' },
+  { value: 7 * 24 * HOUR_MS, label: '1 settimana' },
+  { value: null, label: 'Sempre' },
+];
+
+export const parseChatListState = (value: any): ChatListState => {
+  const raw = value && typeof value === 'object' ? value : {};
+  return {
+    pinned: raw.pinned === true,
+    archived: raw.archived === true,
+    muted: raw.muted === true,
+    mutedUntil: typeof raw.mutedUntil === 'number' ? raw.mutedUntil : null,
+    markedUnread: raw.markedUnread === true,
+    clearedAt: typeof raw.clearedAt === 'number' ? raw.clearedAt : null,
+  };
+};
+
+export const getChatListState = (chat: ChatListEntry, userId?: string | null) =>
+  parseChatListState(userId ? chat.listState?.[userId] : null);
+
+export const isChatMuted = (state: ChatListState, now = Date.now()) =>
+  state.muted && (state.mutedUntil === null || state.mutedUntil > now);
+
+const toMillis = (value: any) => (value?.toDate ? value.toDate().getTime() : 0);
+
+// Eliminata per sé e senza messaggi nuovi: fuori dalla lista finché l'altro non riscrive
+export const isChatCleared = (chat: ChatListEntry, userId?: string | null) => {
+  const { clearedAt } = getChatListState(chat, userId);
+  return clearedAt !== null && toMillis(chat.updatedAt) <= clearedAt;
+};
+
+// Non letta: ultimo messaggio dell'altro dopo la propria lettura, oppure segnata a mano
+export const isChatUnread = (chat: ChatListEntry, userId?: string | null) => {
+  if (!userId) return false;
+  if (isChatCleared(chat, userId)) return false;
+  if (getChatListState(chat, userId).markedUnread) return true;
+  if (!chat.lastSender || chat.lastSender === userId) return false;
+  const updated = toMillis(chat.updatedAt);
+  if (!updated) return true;
+  return updated > toMillis(chat.readBy?.[userId]);
+};
+
+// Fissate in alto, poi dalla più recente
+export const compareChatsForList = (
+  a: ChatListEntry,
+  b: ChatListEntry,
+  userId?: string | null
+) => {
+  const pinnedDiff =
+    Number(getChatListState(b, userId).pinned) - Number(getChatListState(a, userId).pinned);
+  if (pinnedDiff) return pinnedDiff;
+  return toMillis(b.updatedAt) - toMillis(a.updatedAt);
+};
+
+const updateChatListState = (
+  chatId: string,
+  userId: string,
+  patch: Partial<ChatListState>
+) => setDoc(doc(db, 'chats', chatId), { listState: { [userId]: patch } }, { merge: true });
+
+export const setChatPinned = (chatId: string, userId: string, pinned: boolean) =>
+  updateChatListState(chatId, userId, { pinned });
+
+// Archiviare toglie anche dalle fissate, come nelle altre app di messaggi
+export const setChatArchived = (chatId: string, userId: string, archived: boolean) =>
+  updateChatListState(chatId, userId, archived ? { archived, pinned: false } : { archived });
+
+export const setChatMuted = (chatId: string, userId: string, duration: number | null | false) =>
+  updateChatListState(
+    chatId,
+    userId,
+    duration === false
+      ? { muted: false, mutedUntil: null }
+      : { muted: true, mutedUntil: duration === null ? null : Date.now() + duration }
+  );
+
+export const setChatMarkedUnread = (chatId: string, userId: string, markedUnread: boolean) =>
+  updateChatListState(chatId, userId, { markedUnread });
+
+// La chat resta all'altro partecipante: per sé spariscono i messaggi fino a ora
+export const clearChatForUser = (chatId: string, userId: string) =>
+  updateChatListState(chatId, userId, {
+    clearedAt: Date.now(),
+    pinned: false,
+    archived: false,
+    markedUnread: false,
+  });
+
+// Apertura della chat: conferma di lettura e via il segno "non letta"
+export const markChatOpened = (chatId: string, userId: string) =>
+  setDoc(
+    doc(db, 'chats', chatId),
+    { readBy: { [userId]: serverTimestamp() }, listState: { [userId]: { markedUnread: false } } },
+    { merge: true }
+  );
+
+export const getMuteLabel = (state: ChatListState) => {
+  if (!isChatMuted(state)) return null;
+  if (state.mutedUntil === null) return 'Silenziata';
+  const until = new Date(state.mutedUntil);
+  return `Silenziata fino a ${until.toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })}`;
+};
+
+export type { ChatListEntry, ChatListState };
@@ -0,0 +1,57 @@
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+
+// Durata in ms dei messaggi effimeri della chat; null = disattivati
+type DisappearingTimer = number | null;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Devono coincidere con i valori ammessi in firestore.rules
+export const DISAPPEARING_OPTIONS: { value: DisappearingTimer; label: string }[] = [
+  { value: null, label: 'Disattivati' },
+  { value: DAY_MS, label: '24 ore' },
+  { value: 7 * DAY_MS, label: '7 giorni' },
+  { value: 90 * DAY_MS, label: '90 giorni' },
+];
+
+export const parseDisappearingTimer = (value: any): DisappearingTimer =>
+  DISAPPEARING_OPTIONS.some((option) => option.value === value) ? value : null;
+
+export const getDisappearingLabel = (value: DisappearingTimer) =>
+  DISAPPEARING_OPTIONS.find((option) => option.value === value)?.label ?? 'Disattivati';
+
+// Testo del messaggio di sistema che annuncia il cambio a entrambi
+export const describeDisappearingChange = (
+  value: DisappearingTimer,
+  actorName: string,
+  isMine: boolean
+) => {
+  const subject = isMine ? 'Hai' : `${actorName} ha`;
+  if (!value) return `${subject} disattivato i messaggi effimeri.`;
+  return `${subject} attivato i messaggi effimeri: i nuovi messaggi spariscono dopo ${getDisappearingLabel(value)}.`;
+};
+
+// Il messaggio di sistema che annuncia il cambio lo scrive announceDisappearingTimer
+export const setChatDisappearingTimer = (
+  chatId: string,
+  userId: string,
+  otherId: string,
+  value: DisappearingTimer
+) =>
+  setDoc(
+    doc(db, 'chats', chatId),
+    {
+      participants: [userId, otherId],
+      // Vale per i messaggi scritti da ora: la scadenza la fissa stampDisappearingMessage
+      disappearingAfter: value,
+      disappearingUpdatedBy: userId,
+      updatedAt: serverTimestamp(),
+      lastMessage: value ? `Messaggi effimeri: ${getDisappearingLabel(value)}` : 'Messaggi effimeri disattivati',
+      lastSender: userId,
+    },
+    { merge: true }
+  );
+
+export type { DisappearingTimer };
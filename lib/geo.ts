@@ -0,0 +1,142 @@
+import * as Location from 'expo-location';
+
+type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+type ProfileLocation = GeoPoint & {
+  geohash: string;
+};
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const EARTH_RADIUS_KM = 6371;
+// Circa 1 km: abbastanza per la distanza, non abbastanza per risalire all'indirizzo
+const COARSE_DECIMALS = 2;
+export const PROFILE_GEOHASH_PRECISION = 6;
+
+const roundCoord = (value: number) => {
+  const factor = 10 ** COARSE_DECIMALS;
+  return Math.round(value * factor) / factor;
+};
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+export const encodeGeohash = (lat: number, lng: number, precision = PROFILE_GEOHASH_PRECISION) => {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bit = 0;
+  let ch = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        ch = ch * 2 + 1;
+        lngMin = mid;
+      } else {
+        ch *= 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        ch = ch * 2 + 1;
+        latMin = mid;
+      } else {
+        ch *= 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+    bit += 1;
+    if (bit === 5) {
+      hash += GEOHASH_ALPHABET[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+
+  return hash;
+};
+
+export const toCoarseLocation = (point: GeoPoint): ProfileLocation => {
+  const lat = roundCoord(point.lat);
+  const lng = roundCoord(point.lng);
+  return { lat, lng, geohash: encodeGeohash(lat, lng) };
+};
+
+export const parseProfileLocation = (value: any): GeoPoint | null => {
+  if (!value || typeof value !== 'object') return null;
+  const lat = Number(value.lat ?? value.latitude);
+  const lng = Number(value.lng ?? value.longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return { lat, lng };
+};
+
+export const distanceKmBetween = (a: GeoPoint, b: GeoPoint) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const KM_PER_DEGREE = 111.32;
+
+const geohashCellSize = (precision: number) => {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+};
+
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Intervalli [start, end) di geohash che coprono un cerchio: cella centrale + 8 vicine
+export const geohashQueryBounds = (center: GeoPoint, radiusKm: number) => {
+  let precision = PROFILE_GEOHASH_PRECISION;
+  while (precision > 1) {
+    const cell = geohashCellSize(precision);
+    const cellLatKm = cell.lat * KM_PER_DEGREE;
+    const cellLngKm = cell.lng * KM_PER_DEGREE * Math.cos(toRadians(center.lat));
+    if (cellLatKm >= radiusKm && cellLngKm >= radiusKm) break;
+    precision -= 1;
+  }
+
+  const cell = geohashCellSize(precision);
+  const hashes = new Set<string>();
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLng of [-1, 0, 1]) {
+      const lat = Math.max(-89.999, Math.min(89.999, center.lat + dLat * cell.lat));
+      const lng = wrapLng(center.lng + dLng * cell.lng);
+      hashes.add(encodeGeohash(lat, lng, precision));
+    }
+  }
+
+  return Array.from(hashes)
+    .sort()
+    .map((hash) => [hash, `${hash}~`] as [string, string]);
+};
+
+// Le posizioni sono arrotondate, quindi sotto il km mostriamo sempre 1
+export const formatDistanceKm = (km: number) => Math.max(1, Math.round(km));
+
+export const getCoarseCurrentLocation = async (): Promise<ProfileLocation | null> => {
+  try {
+    const existing = await Location.getForegroundPermissionsAsync();
+    const perm = existing.granted ? existing : await Location.requestForegroundPermissionsAsync();
+    if (!perm.granted) return null;
+    const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low });
+    return toCoarseLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+  } catch {
+    return null;
+  }
+};
+
+export type { GeoPoint, ProfileLocation };
@@ -0,0 +1,27 @@
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '@/lib/firebase';
+
+type GroupPresenceParticipant = {
+  id: string;
+  name: string;
+  photo: string;
+  // Millisecondi dell'ultimo battito
+  activeAt: number;
+};
+
+type GroupPresence = {
+  participants: GroupPresenceParticipant[];
+  liveHostIds: string[];
+};
+
+const getGroupPresenceCallable = httpsCallable<{ groupId: string }, GroupPresence>(
+  functions,
+  'getGroupPresence'
+);
+
+// Presenti attivi e host in live, già senza gli utenti bloccati in una delle due direzioni
+export const getGroupPresence = async (groupId: string) =>
+  (await getGroupPresenceCallable({ groupId })).data;
+
+export type { GroupPresence, GroupPresenceParticipant };
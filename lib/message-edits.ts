@@ -0,0 +1,90 @@
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '@/lib/firebase';
+
+type MessageRef = {
+  chatId: string;
+  messageId: string;
+};
+
+type MessageEditResult = {
+  ok: boolean;
+};
+
+type EditableMessage = {
+  senderId: string;
+  text?: string;
+  image?: string;
+  audio?: string;
+  location?: unknown;
+  unsent?: boolean;
+  createdAt?: any;
+  deliveryState?: string;
+};
+
+type MessageEditErrorAlert = {
+  title: string;
+  message: string;
+};
+
+// Deve coincidere con MESSAGE_EDIT_WINDOW_MS in functions/index.js
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export const UNSENT_MESSAGE_LABEL = 'Messaggio eliminato';
+
+const editMessageCallable = httpsCallable<MessageRef & { text: string }, MessageEditResult>(
+  functions,
+  'editMessage'
+);
+const unsendMessageCallable = httpsCallable<MessageRef, MessageEditResult>(
+  functions,
+  'unsendMessage'
+);
+
+export const editMessage = async (chatId: string, messageId: string, text: string) =>
+  (await editMessageCallable({ chatId, messageId, text })).data;
+
+export const unsendMessage = async (chatId: string, messageId: string) =>
+  (await unsendMessageCallable({ chatId, messageId })).data;
+
+const getCreatedAtMs = (createdAt: any) => {
+  if (!createdAt) return 0;
+  if (createdAt instanceof Date) return createdAt.getTime();
+  if (typeof createdAt.toMillis === 'function') return createdAt.toMillis();
+  return 0;
+};
+
+// Solo testo proprio, già consegnato al server e dentro la finestra di modifica
+export const canEditMessage = (message: EditableMessage, userId?: string | null) =>
+  !!userId &&
+  message.senderId === userId &&
+  !message.deliveryState &&
+  !message.unsent &&
+  !!message.text &&
+  !message.image &&
+  !message.audio &&
+  !message.location &&
+  Date.now() - getCreatedAtMs(message.createdAt) <= MESSAGE_EDIT_WINDOW_MS;
+
+export const canUnsendMessage = (message: EditableMessage, userId?: string | null) =>
+  !!userId && message.senderId === userId && !message.deliveryState && !message.unsent;
+
+export const getMessageEditErrorAlert = (error: any, fallback: string): MessageEditErrorAlert => {
+  const code = error?.code || '';
+  const reason = error?.message || '';
+  if (reason.includes('edit-window-expired')) {
+    return {
+      title: 'Tempo scaduto',
+      message: 'I messaggi si possono modificare solo nei primi 15 minuti.',
+    };
+  }
+  if (reason.includes('message-unsent') || code === 'functions/not-found') {
+    return { title: 'Non disponibile', message: 'Il messaggio non esiste più.' };
+  }
+  if (code === 'functions/unauthenticated') {
+    return { title: 'Errore', message: 'Devi essere loggato per continuare.' };
+  }
+  return { title: 'Errore', message: fallback };
+};
+
+export type { EditableMessage };
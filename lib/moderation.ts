@@ -0,0 +1,251 @@
+import type { User } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+
+import type { AccountState } from '@/lib/account-status';
+import { functions } from '@/lib/firebase';
+import { REPORT_REASONS, type ReportReason } from '@/lib/reports';
+
+type ModerationAction = 'approve' | 'remove' | 'warn' | 'suspend' | 'ban';
+
+// Nel registro finiscono anche le decisioni sugli account prese fuori dalla coda
+type ModerationAuditAction = ModerationAction | 'reinstate' | 'rejectAppeal';
+
+type ModerationTargetType =
+  | 'profile'
+  | 'chatMessage'
+  | 'groupMessage'
+  | 'live'
+  | 'profilePhoto'
+  | 'chatImage'
+  | 'account';
+
+// Filtri della coda: segnalazioni degli utenti oppure immagini bloccate da Vision
+type ModerationFilter = 'reports' | 'profilePhoto' | 'chatImage';
+
+type ModerationQueueEntry = {
+  id: string;
+  targetType: ModerationTargetType;
+  targetPath: string;
+  reportedUserId: string | null;
+  source: 'reports' | 'vision';
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  hidden: boolean;
+  photoIndex: number | null;
+  preview: string;
+  image: string;
+  updatedAt: number;
+};
+
+type ModerationAuditEntry = {
+  id: string;
+  actorId: string;
+  action: ModerationAuditAction;
+  queueId: string;
+  targetType: ModerationTargetType | null;
+  targetUserId: string | null;
+  note: string;
+  days: number | null;
+  createdAt: number;
+};
+
+type ModerationErrorAlert = {
+  title: string;
+  message: string;
+};
+
+export const MODERATION_FILTERS: { key: ModerationFilter; label: string }[] = [
+  { key: 'reports', label: 'Segnalazioni' },
+  { key: 'profilePhoto', label: 'Foto profilo' },
+  { key: 'chatImage', label: 'Immagini chat' },
+];
+
+export const MODERATION_ACTIONS: {
+  key: ModerationAction;
+  label: string;
+  confirm: string;
+  destructive?: boolean;
+}[] = [
+  { key: 'approve', label: 'Approva', confirm: 'Il contenuto torna visibile a tutti.' },
+  {
+    key: 'remove',
+    label: 'Rimuovi contenuto',
+    confirm: 'Il contenuto viene eliminato definitivamente.',
+    destructive: true,
+  },
+  { key: 'warn', label: 'Avvisa utente', confirm: "L'utente riceve un avviso sul profilo." },
+  {
+    key: 'suspend',
+    label: 'Sospendi',
+    confirm: "L'account resta bloccato per il periodo scelto.",
+    destructive: true,
+  },
+  {
+    key: 'ban',
+    label: 'Banna',
+    confirm: "L'account viene bloccato a tempo indeterminato.",
+    destructive: true,
+  },
+];
+
+export const SUSPENSION_DAYS = [1, 7, 30];
+
+// Deve coincidere con MODERATION_NOTE_MAX_LENGTH in functions/index.js
+export const MODERATION_NOTE_MAX_LENGTH = 500;
+
+const TARGET_LABELS: Record<ModerationTargetType, string> = {
+  profile: 'Profilo',
+  chatMessage: 'Messaggio in chat',
+  groupMessage: 'Messaggio nel gruppo',
+  live: 'Live',
+  profilePhoto: 'Foto profilo',
+  chatImage: 'Immagine in chat',
+  account: 'Account',
+};
+
+const AUDIT_ONLY_LABELS: Record<Exclude<ModerationAuditAction, ModerationAction>, string> = {
+  reinstate: 'Account riattivato',
+  rejectAppeal: 'Ricorso respinto',
+};
+
+export const getModerationTargetLabel = (type: ModerationTargetType | null) =>
+  type ? TARGET_LABELS[type] || 'Contenuto' : 'Contenuto';
+
+export const getModerationActionLabel = (action: ModerationAuditAction) =>
+  MODERATION_ACTIONS.find((item) => item.key === action)?.label ||
+  AUDIT_ONLY_LABELS[action as keyof typeof AUDIT_ONLY_LABELS] ||
+  action;
+
+export const getReportReasonLabel = (reason: string) =>
+  REPORT_REASONS.find((item) => item.key === reason)?.label || reason;
+
+export const matchesModerationFilter = (entry: ModerationQueueEntry, filter: ModerationFilter) =>
+  filter === 'reports' ? entry.source !== 'vision' : entry.targetType === filter;
+
+const toMillis = (value: any) => (value?.toMillis ? value.toMillis() : 0);
+
+export const parseModerationQueueEntry = (id: string, data: any): ModerationQueueEntry => {
+  const snapshot = data?.snapshot || {};
+  return {
+    id,
+    targetType: data?.targetType,
+    targetPath: data?.targetPath || '',
+    reportedUserId: data?.reportedUserId || null,
+    source: data?.source === 'vision' ? 'vision' : 'reports',
+    reportCount: typeof data?.reportCount === 'number' ? data.reportCount : 0,
+    reasons: data?.reasons && typeof data.reasons === 'object' ? data.reasons : {},
+    hidden: !!data?.hidden,
+    photoIndex: typeof data?.photoIndex === 'number' ? data.photoIndex : null,
+    preview: snapshot.text || snapshot.name || snapshot.hostName || snapshot.bio || '',
+    image: snapshot.image || snapshot.photo || snapshot.hostPhoto || '',
+    updatedAt: toMillis(data?.updatedAt),
+  };
+};
+
+export const parseModerationAuditEntry = (id: string, data: any): ModerationAuditEntry => ({
+  id,
+  actorId: data?.actorId || '',
+  action: data?.action,
+  queueId: data?.queueId || '',
+  targetType: data?.targetType || null,
+  targetUserId: data?.targetUserId || null,
+  note: data?.note || '',
+  days: typeof data?.days === 'number' ? data.days : null,
+  createdAt: toMillis(data?.createdAt),
+});
+
+// Il claim arriva con il token: dopo setCustomUserClaims serve un refresh
+export const getIsAdmin = async (user: User | null, forceRefresh = false) => {
+  if (!user) return false;
+  try {
+    const { claims } = await user.getIdTokenResult(forceRefresh);
+    return claims.admin === true;
+  } catch {
+    return false;
+  }
+};
+
+const moderateContentCallable = httpsCallable<
+  { queueId: string; action: ModerationAction; note: string; days?: number },
+  { ok: boolean }
+>(functions, 'moderateContent');
+
+export const moderateContent = async (
+  queueId: string,
+  action: ModerationAction,
+  note = '',
+  days?: number
+) =>
+  (
+    await moderateContentCallable({
+      queueId,
+      action,
+      note: note.trim(),
+      ...(action === 'suspend' ? { days } : {}),
+    })
+  ).data;
+
+const setAccountStatusCallable = httpsCallable<
+  { userId: string; state: AccountState; reason: string; days?: number },
+  { ok: boolean }
+>(functions, 'setAccountStatus');
+
+const reviewAccountAppealCallable = httpsCallable<
+  { userId: string; accept: boolean; note: string },
+  { ok: boolean }
+>(functions, 'reviewAccountAppeal');
+
+export const setAccountStatus = async (
+  userId: string,
+  state: AccountState,
+  reason = '',
+  days?: number
+) =>
+  (
+    await setAccountStatusCallable({
+      userId,
+      state,
+      reason: reason.trim(),
+      ...(state === 'suspended' ? { days } : {}),
+    })
+  ).data;
+
+export const reviewAccountAppeal = async (userId: string, accept: boolean, note = '') =>
+  (await reviewAccountAppealCallable({ userId, accept, note: note.trim() })).data;
+
+export const getModerationErrorAlert = (error: any, fallback: string): ModerationErrorAlert => {
+  const code = error?.code || '';
+  const reason = error?.message || '';
+  if (reason.includes('admin-only')) {
+    return { title: 'Non autorizzato', message: 'Serve un account da moderatore.' };
+  }
+  if (
+    code === 'functions/not-found' ||
+    reason.includes('queue-entry-not-found') ||
+    reason.includes('queue-entry-not-pending')
+  ) {
+    return { title: 'Non disponibile', message: 'La segnalazione è già stata gestita.' };
+  }
+  if (reason.includes('no-target-user')) {
+    return { title: 'Non disponibile', message: "Non è possibile risalire all'autore." };
+  }
+  if (reason.includes('appeal-not-pending')) {
+    return { title: 'Non disponibile', message: 'Il ricorso è già stato valutato.' };
+  }
+  if (reason.includes('self-sanction')) {
+    return { title: 'Non disponibile', message: 'Non puoi sanzionare il tuo account.' };
+  }
+  if (code === 'functions/unauthenticated') {
+    return { title: 'Errore', message: 'Devi essere loggato per continuare.' };
+  }
+  return { title: 'Errore', message: fallback };
+};
+
+export type {
+  ModerationAction,
+  ModerationAuditAction,
+  ModerationAuditEntry,
+  ModerationFilter,
+  ModerationQueueEntry,
+  ModerationTargetType,
+};
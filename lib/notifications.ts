@@ -0,0 +1,98 @@
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { arrayRemove, arrayUnion, doc, setDoc } from 'firebase/firestore';
+import { Platform } from 'react-native';
+
+import { db } from '@/lib/firebase';
+
+type NotificationCategory = 'messages' | 'taps' | 'matches';
+
+type NotificationPrefs = Record<NotificationCategory, boolean>;
+
+const ANDROID_CHANNEL_ID = 'default';
+
+export const NOTIFICATION_CATEGORIES: { key: NotificationCategory; label: string; hint: string }[] = [
+  { key: 'messages', label: 'Messaggi', hint: 'Nuovi messaggi nelle chat' },
+  { key: 'taps', label: 'Tap', hint: 'Quando qualcuno ti manda un tap' },
+  { key: 'matches', label: 'Match', hint: 'Quando un tap diventa match' },
+];
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  messages: true,
+  taps: true,
+  matches: true,
+};
+
+// Le categorie mancanti restano attive: si disattiva solo con un false esplicito
+export const parseNotificationPrefs = (value: any): NotificationPrefs => {
+  const raw = value && typeof value === 'object' ? value : {};
+  return {
+    messages: raw.messages !== false,
+    taps: raw.taps !== false,
+    matches: raw.matches !== false,
+  };
+};
+
+if (Platform.OS !== 'web') {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+      shouldShowBanner: true,
+      shouldShowList: true,
+    }),
+  });
+}
+
+const getProjectId = () =>
+  Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId ?? undefined;
+
+export const getPushToken = async (requestPermission = true): Promise<string | null> => {
+  if (Platform.OS === 'web' || !Device.isDevice) return null;
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Notifiche',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+    const existing = await Notifications.getPermissionsAsync();
+    const perm =
+      existing.granted || !requestPermission
+        ? existing
+        : await Notifications.requestPermissionsAsync();
+    if (!perm.granted) return null;
+    const { data } = await Notifications.getExpoPushTokenAsync({ projectId: getProjectId() });
+    return data || null;
+  } catch {
+    return null;
+  }
+};
+
+// Token e preferenze stanno in privateProfiles/{uid}: il profilo lo legge chiunque
+export const getPrivateProfileRef = (userId: string) => doc(db, 'privateProfiles', userId);
+
+export const registerPushToken = async (userId: string) => {
+  const token = await getPushToken();
+  if (!token) return null;
+  await setDoc(getPrivateProfileRef(userId), { pushTokens: arrayUnion(token) }, { merge: true });
+  return token;
+};
+
+// Da chiamare prima del logout, altrimenti il dispositivo continua a ricevere notifiche
+export const unregisterPushToken = async (userId: string) => {
+  const token = await getPushToken(false);
+  if (!token) return;
+  await setDoc(getPrivateProfileRef(userId), { pushTokens: arrayRemove(token) }, { merge: true });
+};
+
+export const saveNotificationPref = (userId: string, key: NotificationCategory, value: boolean) =>
+  setDoc(getPrivateProfileRef(userId), { notificationPrefs: { [key]: value } }, { merge: true });
+
+export const getNotificationUrl = (response: Notifications.NotificationResponse | null) => {
+  const url = response?.notification.request.content.data?.url;
+  return typeof url === 'string' && url.startsWith('/') ? url : null;
+};
+
+export type { NotificationCategory, NotificationPrefs };
@@ -0,0 +1,287 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { collection, doc, runTransaction, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import type { ReplyTo } from '@/lib/replies';
+import { isRemoteMediaUri, isUploadCanceled, uploadChatMedia } from '@/lib/storage';
+
+type OutboxState = 'queued' | 'sending' | 'failed';
+
+type OutboxMessage = {
+  text?: string;
+  image?: string;
+  imagePath?: string;
+  sensitive?: boolean;
+  audio?: string;
+  audioPath?: string;
+  audioDuration?: number;
+  location?: {
+    lat: number;
+    lng: number;
+  };
+  replyTo?: ReplyTo;
+};
+
+type OutboxEntry = {
+  // Id del documento Firestore, generato sul dispositivo: rende idempotenti i nuovi tentativi
+  id: string;
+  chatId: string;
+  senderId: string;
+  senderName?: string;
+  otherId: string;
+  otherName?: string;
+  otherPhoto?: string;
+  message: OutboxMessage;
+  isSecret: boolean;
+  audioMime?: string;
+  createdAt: number;
+  state: OutboxState;
+  attempts: number;
+};
+
+type EnqueueInput = Omit<OutboxEntry, 'id' | 'createdAt' | 'state' | 'attempts'>;
+
+type OutboxSnapshot = {
+  entries: OutboxEntry[];
+  // Avanzamento (0-1) del caricamento di foto e vocali, per id messaggio
+  uploadProgress: Record<string, number>;
+};
+
+const STORAGE_KEY_PREFIX = 'chatOutbox:';
+
+let ownerId: string | null = null;
+let snapshot: OutboxSnapshot = { entries: [], uploadProgress: {} };
+let online = true;
+const listeners = new Set<() => void>();
+const inFlight = new Map<string, AbortController>();
+
+const storageKey = (userId: string) => `${STORAGE_KEY_PREFIX}${userId}`;
+
+const emit = (next: Partial<OutboxSnapshot>) => {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener());
+};
+
+const persist = async () => {
+  if (!ownerId) return;
+  try {
+    await AsyncStorage.setItem(storageKey(ownerId), JSON.stringify(snapshot.entries));
+  } catch {
+    // best effort: la coda resta comunque in memoria
+  }
+};
+
+const updateEntry = (id: string, patch: Partial<OutboxEntry>) => {
+  emit({
+    entries: snapshot.entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+  });
+  persist();
+};
+
+const removeEntry = (id: string) => {
+  const uploadProgress = { ...snapshot.uploadProgress };
+  delete uploadProgress[id];
+  emit({ entries: snapshot.entries.filter((entry) => entry.id !== id), uploadProgress });
+  persist();
+};
+
+const setUploadProgress = (id: string, progress: number) => {
+  emit({ uploadProgress: { ...snapshot.uploadProgress, [id]: progress } });
+};
+
+const describeLastMessage = (message: OutboxMessage) => {
+  if (message.location) return '[Posizione]';
+  if (message.audio) return '[Audio]';
+  if (message.image) return '[Foto]';
+  return message.text || '[Messaggio]';
+};
+
+const isOffline = async () => {
+  try {
+    const state = await NetInfo.fetch();
+    return state.isConnected === false;
+  } catch {
+    return false;
+  }
+};
+
+const deliver = async (id: string) => {
+  const entry = snapshot.entries.find((item) => item.id === id);
+  if (!entry || inFlight.has(id) || entry.state === 'failed') return;
+  if (!online) return;
+
+  const controller = new AbortController();
+  inFlight.set(id, controller);
+  updateEntry(id, { state: 'sending', attempts: entry.attempts + 1 });
+
+  try {
+    // Foto e vocali vanno su Storage: nel documento restano solo URL e path
+    const message = { ...entry.message };
+    if (message.image && !isRemoteMediaUri(message.image)) {
+      const { url, path } = await uploadChatMedia({
+        chatId: entry.chatId,
+        userId: entry.senderId,
+        messageId: entry.id,
+        uri: message.image,
+        kind: 'image',
+        signal: controller.signal,
+        onProgress: ({ progress }) => setUploadProgress(id, progress),
+      });
+      message.image = url;
+      message.imagePath = path;
+      updateEntry(id, { message });
+    }
+    if (message.audio && !isRemoteMediaUri(message.audio)) {
+      const { url, path } = await uploadChatMedia({
+        chatId: entry.chatId,
+        userId: entry.senderId,
+        messageId: entry.id,
+        uri: message.audio,
+        kind: 'audio',
+        mime: entry.audioMime,
+        signal: controller.signal,
+        onProgress: ({ progress }) => setUploadProgress(id, progress),
+      });
+      message.audio = url;
+      message.audioPath = path;
+      updateEntry(id, { message });
+    }
+
+    await setDoc(
+      doc(db, 'chats', entry.chatId),
+      {
+        participants: [entry.senderId, entry.otherId],
+        updatedAt: serverTimestamp(),
+        lastMessage: describeLastMessage(message),
+        lastSender: entry.senderId,
+        names: {
+          ...(entry.otherName ? { [entry.otherId]: entry.otherName } : {}),
+          ...(entry.senderName ? { [entry.senderId]: entry.senderName } : {}),
+        },
+        photos: {
+          ...(entry.otherPhoto ? { [entry.otherId]: entry.otherPhoto } : {}),
+        },
+      },
+      { merge: true }
+    );
+
+    // Se un tentativo precedente è già arrivato non si riscrive: conferme e data restano intatte
+    const messageRef = doc(db, 'chats', entry.chatId, 'messages', entry.id);
+    await runTransaction(db, async (tx) => {
+      const existing = await tx.get(messageRef);
+      if (existing.exists()) return;
+      tx.set(messageRef, {
+        ...message,
+        senderId: entry.senderId,
+        createdAt: serverTimestamp(),
+        expiresAfterView: entry.isSecret,
+        deliveredAt: null,
+        readAt: null,
+      });
+    });
+
+    removeEntry(id);
+  } catch (error) {
+    if (isUploadCanceled(error)) {
+      removeEntry(id);
+    } else if (await isOffline()) {
+      // Senza rete resta in coda: riparte al ritorno della connessione
+      updateEntry(id, { state: 'queued' });
+    } else {
+      console.error('Outbox delivery failed', error);
+      updateEntry(id, { state: 'failed' });
+    }
+  } finally {
+    inFlight.delete(id);
+  }
+};
+
+export const flushOutbox = async () => {
+  const queued = snapshot.entries.filter((entry) => entry.state === 'queued');
+  // In ordine di invio, così la chat non si rimescola
+  for (const entry of queued) {
+    await deliver(entry.id);
+  }
+};
+
+// Carica la coda salvata per l'utente e la svuota ogni volta che torna la rete
+export const startOutbox = (userId: string) => {
+  ownerId = userId;
+  emit({ entries: [], uploadProgress: {} });
+
+  let active = true;
+  AsyncStorage.getItem(storageKey(userId))
+    .then((raw) => {
+      if (!active || !raw) return;
+      const saved = JSON.parse(raw) as OutboxEntry[];
+      // Un invio interrotto dalla chiusura dell'app torna in coda
+      emit({
+        entries: saved.map((entry) =>
+          entry.state === 'sending' ? { ...entry, state: 'queued' } : entry
+        ),
+      });
+      flushOutbox();
+    })
+    .catch(() => {});
+
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const wasOnline = online;
+    online = state.isConnected !== false;
+    if (online && !wasOnline) flushOutbox();
+  });
+
+  return () => {
+    active = false;
+    unsubscribe();
+    inFlight.forEach((controller) => controller.abort());
+    if (ownerId === userId) {
+      ownerId = null;
+      emit({ entries: [], uploadProgress: {} });
+    }
+  };
+};
+
+export const enqueueMessage = (input: EnqueueInput) => {
+  const entry: OutboxEntry = {
+    ...input,
+    // Firestore rifiuta i campi undefined
+    message: Object.fromEntries(
+      Object.entries(input.message).filter(([, value]) => value !== undefined)
+    ) as OutboxMessage,
+    id: doc(collection(db, 'chats', input.chatId, 'messages')).id,
+    createdAt: Date.now(),
+    state: 'queued',
+    attempts: 0,
+  };
+  emit({ entries: [...snapshot.entries, entry] });
+  persist();
+  deliver(entry.id);
+  return entry.id;
+};
+
+export const retryOutboxMessage = (id: string) => {
+  updateEntry(id, { state: 'queued' });
+  deliver(id);
+};
+
+// Annulla il caricamento in corso oppure toglie il messaggio dalla coda
+export const cancelOutboxMessage = (id: string) => {
+  const controller = inFlight.get(id);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+  removeEntry(id);
+};
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getOutboxSnapshot = () => snapshot;
+
+export type { OutboxEntry, OutboxMessage, OutboxSnapshot, OutboxState };
@@ -0,0 +1,22 @@
+type PrivacyPrefs = {
+  // Conferme di lettura reciproche: chi le disattiva non le invia e non vede quelle altrui
+  readReceipts: boolean;
+  // Stessa regola per online e ultimo accesso
+  hideLastSeen: boolean;
+};
+
+export const DEFAULT_PRIVACY_PREFS: PrivacyPrefs = {
+  readReceipts: true,
+  hideLastSeen: false,
+};
+
+// Valori mancanti = impostazione predefinita: serve un valore esplicito per cambiarla
+export const parsePrivacyPrefs = (value: any): PrivacyPrefs => {
+  const raw = value && typeof value === 'object' ? value : {};
+  return {
+    readReceipts: raw.readReceipts !== false,
+    hideLastSeen: raw.hideLastSeen === true,
+  };
+};
+
+export type { PrivacyPrefs };
@@ -0,0 +1,49 @@
+import { deleteField, FieldPath, updateDoc, type DocumentReference } from 'firebase/firestore';
+
+// Una reazione per utente: reactions.{uid} = emoji
+type ReactionMap = Record<string, string>;
+
+type ReactionSummary = {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  mine: boolean;
+};
+
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+
+// Conteggi e autori per emoji, dalla più usata
+export const summarizeReactions = (
+  reactions: ReactionMap | undefined,
+  myId?: string | null
+): ReactionSummary[] => {
+  if (!reactions) return [];
+  const byEmoji = new Map<string, string[]>();
+  Object.entries(reactions).forEach(([userId, emoji]) => {
+    if (typeof emoji !== 'string' || !emoji) return;
+    byEmoji.set(emoji, [...(byEmoji.get(emoji) ?? []), userId]);
+  });
+  return Array.from(byEmoji.entries())
+    .map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      userIds,
+      mine: !!myId && userIds.includes(myId),
+    }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// Stessa emoji = toglie la reazione, altrimenti la sostituisce
+export const toggleReaction = (
+  messageRef: DocumentReference,
+  userId: string,
+  emoji: string,
+  current?: ReactionMap
+) =>
+  updateDoc(
+    messageRef,
+    new FieldPath('reactions', userId),
+    current?.[userId] === emoji ? deleteField() : emoji
+  );
+
+export type { ReactionMap, ReactionSummary };
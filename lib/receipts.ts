@@ -0,0 +1,46 @@
+import {
+  collection,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+
+type ReceiptField = 'deliveredAt' | 'readAt';
+
+// I messaggi nascono con deliveredAt/readAt a null: la query trova quelli ancora da confermare
+const BATCH_LIMIT = 450;
+
+const acknowledge = async (chatId: string, otherId: string, field: ReceiptField) => {
+  const snap = await getDocs(
+    query(
+      collection(db, 'chats', chatId, 'messages'),
+      where('senderId', '==', otherId),
+      where(field, '==', null)
+    )
+  );
+  if (snap.empty) return 0;
+
+  for (let i = 0; i < snap.docs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    snap.docs.slice(i, i + BATCH_LIMIT).forEach((d) => {
+      const data = d.data();
+      batch.update(d.ref, {
+        [field]: serverTimestamp(),
+        // Un messaggio letto è anche consegnato
+        ...(field === 'readAt' && data.deliveredAt === null ? { deliveredAt: serverTimestamp() } : {}),
+      });
+    });
+    await batch.commit();
+  }
+  return snap.size;
+};
+
+export const markMessagesDelivered = (chatId: string, otherId: string) =>
+  acknowledge(chatId, otherId, 'deliveredAt');
+
+export const markMessagesRead = (chatId: string, otherId: string) =>
+  acknowledge(chatId, otherId, 'readAt');
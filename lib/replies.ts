@@ -0,0 +1,61 @@
+type ReplyKind = 'text' | 'image' | 'audio' | 'location';
+
+// Copia del messaggio citato al momento della risposta: resta leggibile anche se l'originale sparisce
+type ReplyTo = {
+  id: string;
+  senderId: string;
+  kind: ReplyKind;
+  text?: string;
+};
+
+type ReplySource = {
+  id: string;
+  senderId: string;
+  text?: string;
+  image?: string;
+  audio?: string;
+  location?: unknown;
+};
+
+const REPLY_PREVIEW_MAX_LENGTH = 120;
+
+export const buildReplySnapshot = (message: ReplySource): ReplyTo => {
+  const kind: ReplyKind = message.location
+    ? 'location'
+    : message.audio
+    ? 'audio'
+    : message.image
+    ? 'image'
+    : 'text';
+  const text = message.text?.trim();
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    kind,
+    ...(text
+      ? {
+          text:
+            text.length > REPLY_PREVIEW_MAX_LENGTH
+              ? `${text.slice(0, REPLY_PREVIEW_MAX_LENGTH - 1)}…`
+              : text,
+        }
+      : {}),
+  };
+};
+
+export const describeReply = (replyTo: ReplyTo) => {
+  if (replyTo.text) return replyTo.text;
+  if (replyTo.kind === 'image') return 'Foto';
+  if (replyTo.kind === 'audio') return 'Messaggio vocale';
+  if (replyTo.kind === 'location') return 'Posizione';
+  return 'Messaggio';
+};
+
+export const REPLY_KIND_ICONS: Record<ReplyKind, 'image-outline' | 'mic-outline' | 'location-outline' | null> = {
+  text: null,
+  image: 'image-outline',
+  audio: 'mic-outline',
+  location: 'location-outline',
+};
+
+export type { ReplyKind, ReplyTo };
@@ -0,0 +1,64 @@
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '@/lib/firebase';
+
+type ReportReason = 'spam' | 'harassment' | 'nudity' | 'hate' | 'scam' | 'minor' | 'other';
+
+// Cosa si segnala: il server ricava autore e copia del contenuto dal documento
+type ReportTarget =
+  | { targetType: 'profile'; userId: string }
+  | { targetType: 'chatMessage'; chatId: string; messageId: string }
+  | { targetType: 'groupMessage'; groupId: string; messageId: string }
+  | { targetType: 'live'; groupId: string; hostId: string };
+
+type ReportResult = {
+  ok: boolean;
+};
+
+type ReportErrorAlert = {
+  title: string;
+  message: string;
+};
+
+// Devono coincidere con REPORT_REASONS in functions/index.js
+export const REPORT_REASONS: { key: ReportReason; label: string }[] = [
+  { key: 'spam', label: 'Spam' },
+  { key: 'harassment', label: 'Molestie o bullismo' },
+  { key: 'nudity', label: 'Nudo o contenuti sessuali' },
+  { key: 'hate', label: "Incitamento all'odio" },
+  { key: 'scam', label: 'Truffa o profilo falso' },
+  { key: 'minor', label: 'Sembra minorenne' },
+  { key: 'other', label: 'Altro' },
+];
+
+export const REPORT_DETAILS_MAX_LENGTH = 1000;
+
+export const HIDDEN_CONTENT_LABEL = 'Contenuto nascosto in attesa di revisione';
+
+const reportContentCallable = httpsCallable<
+  ReportTarget & { reason: ReportReason; details: string },
+  ReportResult
+>(functions, 'reportContent');
+
+export const reportContent = async (target: ReportTarget, reason: ReportReason, details = '') =>
+  (await reportContentCallable({ ...target, reason, details: details.trim() })).data;
+
+export const getReportErrorAlert = (error: any, fallback: string): ReportErrorAlert => {
+  const code = error?.code || '';
+  const reason = error?.message || '';
+  if (code === 'functions/already-exists' || reason.includes('already-reported')) {
+    return { title: 'Già segnalato', message: 'Hai già segnalato questo contenuto.' };
+  }
+  if (code === 'functions/not-found' || reason.includes('target-not-found')) {
+    return { title: 'Non disponibile', message: 'Il contenuto non esiste più.' };
+  }
+  if (reason.includes('self-report')) {
+    return { title: 'Non disponibile', message: 'Non puoi segnalare i tuoi contenuti.' };
+  }
+  if (code === 'functions/unauthenticated') {
+    return { title: 'Errore', message: 'Devi essere loggato per continuare.' };
+  }
+  return { title: 'Errore', message: fallback };
+};
+
+export type { ReportReason, ReportTarget };
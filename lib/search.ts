@@ -0,0 +1,77 @@
+import {
+  collection,
+  getDocs,
+  limit as firestoreLimit,
+  orderBy,
+  query,
+  where,
+  type Timestamp,
+} from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+
+type MessageSearchHit = {
+  id: string;
+  chatId: string;
+  messageId: string;
+  senderId: string | null;
+  preview: string;
+  createdAt?: Timestamp;
+};
+
+const SEARCH_MIN_TERM_LENGTH = 2;
+const SEARCH_MAX_TERM_LENGTH = 15;
+const SEARCH_RESULTS_LIMIT = 50;
+
+// Minuscole, senza accenti, divisa in parole: deve coincidere con getSearchTerms in functions/index.js
+export const normalizeSearchText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= SEARCH_MIN_TERM_LENGTH)
+    .map((word) => word.slice(0, SEARCH_MAX_TERM_LENGTH));
+
+export const matchesSearch = (value: string, words: string[]) => {
+  const normalized = normalizeSearchText(value);
+  return words.every((word) => normalized.some((part) => part.startsWith(word)));
+};
+
+// Una sola parola va in query (la più lunga, la più selettiva); le altre si filtrano qui
+export const searchMessages = async (
+  userId: string,
+  text: string,
+  chatId?: string | null
+): Promise<MessageSearchHit[]> => {
+  const words = normalizeSearchText(text);
+  if (!words.length) return [];
+  const term = words.reduce((longest, word) => (word.length > longest.length ? word : longest));
+  const constraints = [
+    ...(chatId ? [where('chatId', '==', chatId)] : []),
+    where('terms', 'array-contains', term),
+    orderBy('createdAt', 'desc'),
+    firestoreLimit(SEARCH_RESULTS_LIMIT),
+  ];
+  const snap = await getDocs(
+    query(collection(db, 'messageSearch', userId, 'entries'), ...constraints)
+  );
+  return snap.docs
+    .filter((d) => {
+      const terms: string[] = d.data().terms ?? [];
+      return words.every((word) => terms.includes(word));
+    })
+    .map((d) => {
+      const data = d.data();
+      return {
+        id: d.id,
+        chatId: data.chatId,
+        messageId: data.messageId,
+        senderId: data.senderId ?? null,
+        preview: data.preview ?? '',
+        createdAt: data.createdAt,
+      };
+    });
+};
+
+export type { MessageSearchHit };
@@ -0,0 +1,293 @@
+// Classificatori on-device per le immagini sensibili. Niente import di React Native o Expo:
+// lo stesso file gira nell'app (lib/sensitivity.ts) e nell'harness Node (tests/sensitivity.test.mjs)
+
+type PixelImage = {
+  // RGBA, 4 byte per pixel
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+};
+
+type ScoreCalibration = {
+  // Platt scaling: p = 1 / (1 + e^-(a * punteggio + b))
+  a: number;
+  b: number;
+};
+
+type SensitivityClassifier = {
+  name: string;
+  // Punteggio grezzo del backend; null se l'immagine non basta per decidere
+  score: (image: PixelImage) => number | null;
+  calibration: ScoreCalibration;
+  // Soglia sulla probabilità calibrata
+  threshold: number;
+};
+
+type SensitivityFeature = (typeof SENSITIVITY_FEATURES)[number];
+
+type SensitivityFeatures = Record<SensitivityFeature, number>;
+
+// Formato di assets/models/*.json, generato da tests/train-sensitivity-model.mjs
+type SensitivityModelSpec = {
+  name: string;
+  features: string[];
+  mean: number[];
+  std: number[];
+  weights: number[];
+  bias: number;
+  calibration: ScoreCalibration;
+  threshold: number;
+};
+
+type SensitivityPrediction = {
+  sensitive: boolean;
+  // Probabilità calibrata, confrontabile tra backend diversi
+  score: number;
+  backend: string;
+};
+
+export const SENSITIVITY_FEATURES = [
+  'skinRatio',
+  'largestRegion',
+  'skinTexture',
+  'skinSaturation',
+  'regionHoles',
+  'centerSkin',
+  'backgroundBlueGreen',
+] as const;
+
+const MIN_SAMPLED_PIXELS = 120;
+const MIN_ALPHA = 20;
+
+// Il vecchio euristico: sensibile oltre il 35% di pixel color pelle
+const SKIN_RATIO_THRESHOLD = 0.35;
+const HEURISTIC_CALIBRATION: ScoreCalibration = { a: 20, b: -20 * SKIN_RATIO_THRESHOLD };
+
+export const isSkinTone = (r: number, g: number, b: number) => {
+  if (r < 60 || g < 40 || b < 20) return false;
+  if (r <= g || r <= b) return false;
+  const cb = 128 - 0.168736 * r - 0.331364 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Cielo, mare e vegetazione: contesto tipico delle foto di spiaggia e paesaggio
+const isBlueGreen = (r: number, g: number, b: number) =>
+  (b > r + 10 && b > 90) || (g > r + 10 && g >= b);
+
+export const calibrateScore = (score: number, calibration: ScoreCalibration) =>
+  1 / (1 + Math.exp(-(calibration.a * score + calibration.b)));
+
+// Regione di pelle più grande (4-connessa): restituisce la sua maschera e la dimensione
+const findLargestRegion = (mask: Uint8Array, width: number) => {
+  const labels = new Int32Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let label = 0;
+  let bestLabel = 0;
+  let bestSize = 0;
+
+  for (let start = 0; start < mask.length; start += 1) {
+    if (!mask[start] || labels[start]) continue;
+    label += 1;
+    let top = 0;
+    let size = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      size += 1;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width < mask.length ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !labels[next]) {
+          labels[next] = label;
+          stack[top++] = next;
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+
+  const region = new Uint8Array(mask.length);
+  for (let index = 0; index < mask.length; index += 1) {
+    if (bestLabel && labels[index] === bestLabel) region[index] = 1;
+  }
+  return { region, size: bestSize };
+};
+
+// Pixel non di pelle chiusi dalla regione su riga e colonna: occhi, bocca e sopracciglia di un volto
+const countEnclosedHoles = (region: Uint8Array, width: number, height: number) => {
+  const rowMin = new Int32Array(height).fill(width);
+  const rowMax = new Int32Array(height).fill(-1);
+  const colMin = new Int32Array(width).fill(height);
+  const colMax = new Int32Array(width).fill(-1);
+  for (let index = 0; index < region.length; index += 1) {
+    if (!region[index]) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+    rowMin[y] = Math.min(rowMin[y], x);
+    rowMax[y] = Math.max(rowMax[y], x);
+    colMin[x] = Math.min(colMin[x], y);
+    colMax[x] = Math.max(colMax[x], y);
+  }
+  let holes = 0;
+  for (let index = 0; index < region.length; index += 1) {
+    if (region[index]) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x > rowMin[y] && x < rowMax[y] && y > colMin[x] && y < colMax[x]) holes += 1;
+  }
+  return holes;
+};
+
+export const extractSensitivityFeatures = (image: PixelImage): SensitivityFeatures | null => {
+  const { data, width, height } = image;
+  const pixels = width * height;
+  if (!pixels || data.length < pixels * 4) return null;
+
+  const mask = new Uint8Array(pixels);
+  const lumas = new Float32Array(pixels);
+  let opaque = 0;
+  let skin = 0;
+  let blueGreen = 0;
+  let saturation = 0;
+  let centerOpaque = 0;
+  let centerSkin = 0;
+
+  for (let index = 0; index < pixels; index += 1) {
+    const offset = index * 4;
+    const r = data[offset];
+    const g = data[offset + 1];
+    const b = data[offset + 2];
+    if (data[offset + 3] < MIN_ALPHA) continue;
+    opaque += 1;
+    lumas[index] = luma(r, g, b);
+    const x = index % width;
+    const y = (index - x) / width;
+    const inCenter = x >= width / 4 && x < (width * 3) / 4 && y >= height / 4 && y < (height * 3) / 4;
+    if (inCenter) centerOpaque += 1;
+    if (isSkinTone(r, g, b)) {
+      mask[index] = 1;
+      skin += 1;
+      saturation += (r - Math.min(g, b)) / r;
+      if (inCenter) centerSkin += 1;
+    } else if (isBlueGreen(r, g, b)) {
+      blueGreen += 1;
+    }
+  }
+  if (opaque < MIN_SAMPLED_PIXELS) return null;
+
+  // Variazione di luminosità tra pixel di pelle adiacenti: bassa sulla pelle, alta su legno e sabbia
+  let texture = 0;
+  let texturePairs = 0;
+  for (let index = 0; index < pixels; index += 1) {
+    if (!mask[index]) continue;
+    const x = index % width;
+    if (x < width - 1 && mask[index + 1]) {
+      texture += Math.abs(lumas[index] - lumas[index + 1]);
+      texturePairs += 1;
+    }
+    if (index + width < pixels && mask[index + width]) {
+      texture += Math.abs(lumas[index] - lumas[index + width]);
+      texturePairs += 1;
+    }
+  }
+
+  const { region, size: regionSize } = findLargestRegion(mask, width);
+  const holes = countEnclosedHoles(region, width, height);
+
+  return {
+    skinRatio: skin / opaque,
+    largestRegion: regionSize / opaque,
+    skinTexture: texturePairs ? texture / texturePairs / 255 : 0,
+    skinSaturation: skin ? saturation / skin : 0,
+    regionHoles: regionSize ? holes / regionSize : 0,
+    centerSkin: centerOpaque ? centerSkin / centerOpaque : 0,
+    backgroundBlueGreen: blueGreen / opaque,
+  };
+};
+
+// Fallback: un pixel ogni due, come il controllo storico su SKIN_RATIO_THRESHOLD
+export const createHeuristicClassifier = (): SensitivityClassifier => ({
+  name: 'heuristic',
+  calibration: HEURISTIC_CALIBRATION,
+  threshold: 0.5,
+  score: ({ data }) => {
+    let skinPixels = 0;
+    let sampledPixels = 0;
+    for (let i = 0; i < data.length; i += 8) {
+      if (data[i + 3] < MIN_ALPHA) continue;
+      sampledPixels += 1;
+      if (isSkinTone(data[i], data[i + 1], data[i + 2])) skinPixels += 1;
+    }
+    return sampledPixels >= MIN_SAMPLED_PIXELS ? skinPixels / sampledPixels : null;
+  },
+});
+
+// Regressione logistica sulle feature di extractSensitivityFeatures, pesi dal file del modello.
+// Sperimentale e non attivo nell'app: sensitivity-v1.json è addestrato su fixture sintetiche,
+// non su foto reali. Un modello vero va registrato con registerSensitivityClassifier (lib/sensitivity.ts)
+export const createLinearModelClassifier = (spec: SensitivityModelSpec): SensitivityClassifier => {
+  const size = SENSITIVITY_FEATURES.length;
+  const valid =
+    spec.features.length === size &&
+    spec.features.every((feature, i) => feature === SENSITIVITY_FEATURES[i]) &&
+    [spec.mean, spec.std, spec.weights].every((values) => values.length === size) &&
+    spec.std.every((value) => value > 0);
+  if (!valid) {
+    throw new Error('sensitivity-model-invalid');
+  }
+  return {
+    name: spec.name,
+    calibration: spec.calibration,
+    threshold: spec.threshold,
+    score: (image) => {
+      const features = extractSensitivityFeatures(image);
+      if (!features) return null;
+      return SENSITIVITY_FEATURES.reduce(
+        (sum, feature, i) =>
+          sum + spec.weights[i] * ((features[feature] - spec.mean[i]) / spec.std[i]),
+        spec.bias
+      );
+    },
+  };
+};
+
+// Il primo backend che restituisce un punteggio decide; gli altri fanno da fallback
+export const classifyImage = (
+  image: PixelImage,
+  classifiers: SensitivityClassifier[]
+): SensitivityPrediction | null => {
+  for (const classifier of classifiers) {
+    let raw: number | null = null;
+    try {
+      raw = classifier.score(image);
+    } catch {
+      raw = null;
+    }
+    if (raw === null || !Number.isFinite(raw)) continue;
+    const score = calibrateScore(raw, classifier.calibration);
+    return { sensitive: score >= classifier.threshold, score, backend: classifier.name };
+  }
+  return null;
+};
+
+export type {
+  PixelImage,
+  ScoreCalibration,
+  SensitivityClassifier,
+  SensitivityFeature,
+  SensitivityFeatures,
+  SensitivityModelSpec,
+  SensitivityPrediction,
+};
@@ -3,45 +3,46 @@ import { Platform } from 'react-native';
 import { Buffer } from 'buffer';
 import jpeg from 'jpeg-js';
 
+import {
+  classifyImage,
+  createHeuristicClassifier,
+  type PixelImage,
+  type SensitivityClassifier,
+} from '@/lib/sensitivity-classifiers';
+
 type SensitivityResult = {
   sensitive: boolean;
+  // Probabilità calibrata del backend che ha deciso
   score: number;
+  backend: string;
 };
 
 const SAMPLE_SIZE = 64;
-const SKIN_RATIO_THRESHOLD = 0.35;
-const MIN_SAMPLED_PIXELS = 120;
+const NOT_SENSITIVE: SensitivityResult = { sensitive: false, score: 0, backend: 'none' };
 
 const buildDataUrl = (base64: string, mime: string) => `data:${mime};base64,${base64}`;
 
-const isSkinTone = (r: number, g: number, b: number) => {
-  if (r < 60 || g < 40 || b < 20) return false;
-  if (r <= g || r <= b) return false;
-  const cb = 128 - 0.168736 * r - 0.331364 * g + 0.5 * b;
-  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
-  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
-};
-
-const analyzePixels = (data: Uint8Array | Uint8ClampedArray) => {
-  let skinPixels = 0;
-  let sampledPixels = 0;
+const registeredClassifiers: SensitivityClassifier[] = [];
+let classifiers: SensitivityClassifier[] | null = null;
 
-  for (let i = 0; i < data.length; i += 8) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-    const a = data[i + 3];
-    if (a < 20) continue;
-    sampledPixels += 1;
-    if (isSkinTone(r, g, b)) {
-      skinPixels += 1;
-    }
-  }
+// Un backend nativo (es. TFLite o ONNX) registrato qui ha la precedenza sull'euristico.
+// L'app non ne include ancora nessuno: senza registrazione decide l'euristico
+export const registerSensitivityClassifier = (classifier: SensitivityClassifier) => {
+  registeredClassifiers.unshift(classifier);
+  classifiers = null;
+};
 
-  const ratio = sampledPixels ? skinPixels / sampledPixels : 0;
-  return { ratio, sampledPixels };
+// Ordine: backend registrati, poi l'euristico. Il modello lineare di assets/models non è attivo:
+// è addestrato solo su fixture sintetiche
+const getClassifiers = () => {
+  if (classifiers) return classifiers;
+  classifiers = [...registeredClassifiers, createHeuristicClassifier()];
+  return classifiers;
 };
 
+const analyzePixels = (image: PixelImage): SensitivityResult =>
+  classifyImage(image, getClassifiers()) ?? NOT_SENSITIVE;
+
 const analyzeNativeImage = async (uri: string): Promise<SensitivityResult> => {
   const result = await ImageManipulator.manipulateAsync(
     uri,
@@ -49,15 +50,13 @@ const analyzeNativeImage = async (uri: string): Promise<SensitivityResult> => {
     { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG, base64: true }
   );
   if (!result.base64) {
-    return { sensitive: false, score: 0 };
+    return NOT_SENSITIVE;
   }
   const decoded = jpeg.decode(Buffer.from(result.base64, 'base64'), { useTArray: true });
   if (!decoded?.data) {
-    return { sensitive: false, score: 0 };
+    return NOT_SENSITIVE;
   }
-  const { ratio, sampledPixels } = analyzePixels(decoded.data);
-  const sensitive = sampledPixels >= MIN_SAMPLED_PIXELS && ratio >= SKIN_RATIO_THRESHOLD;
-  return { sensitive, score: ratio };
+  return analyzePixels(decoded);
 };
 
 const analyzeWebImage = async (dataUrl: string): Promise<SensitivityResult> =>
@@ -65,7 +64,7 @@ const analyzeWebImage = async (dataUrl: string): Promise<SensitivityResult> =>
     const doc = (globalThis as any)?.document;
     const ImageCtor = (globalThis as any)?.Image;
     if (!doc || !ImageCtor) {
-      resolve({ sensitive: false, score: 0 });
+      resolve(NOT_SENSITIVE);
       return;
     }
     const img = new ImageCtor();
@@ -78,16 +77,14 @@ const analyzeWebImage = async (dataUrl: string): Promise<SensitivityResult> =>
       canvas.height = height;
       const ctx = canvas.getContext('2d');
       if (!ctx) {
-        resolve({ sensitive: false, score: 0 });
+        resolve(NOT_SENSITIVE);
         return;
       }
       ctx.drawImage(img, 0, 0, width, height);
       const { data } = ctx.getImageData(0, 0, width, height);
-      const { ratio, sampledPixels } = analyzePixels(data);
-      const sensitive = sampledPixels >= MIN_SAMPLED_PIXELS && ratio >= SKIN_RATIO_THRESHOLD;
-      resolve({ sensitive, score: ratio });
+      resolve(analyzePixels({ data, width, height }));
     };
-    img.onerror = () => resolve({ sensitive: false, score: 0 });
+    img.onerror = () => resolve(NOT_SENSITIVE);
     img.src = dataUrl;
   });
 
@@ -106,15 +103,15 @@ export const analyzeImageSensitivity = async (params: {
         !dataUrl.startsWith('http') &&
         !dataUrl.startsWith('blob:')
       ) {
-        return { sensitive: false, score: 0 };
+        return NOT_SENSITIVE;
       }
       return await analyzeWebImage(dataUrl);
     }
     if (!params.uri) {
-      return { sensitive: false, score: 0 };
+      return NOT_SENSITIVE;
     }
     return await analyzeNativeImage(params.uri);
   } catch (e) {
-    return { sensitive: false, score: 0 };
+    return NOT_SENSITIVE;
   }
 };
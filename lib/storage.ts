@@ -1,6 +1,7 @@
+import { Buffer } from 'buffer';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as ImageManipulator from 'expo-image-manipulator';
-import { getDownloadURL, ref, uploadBytes, uploadString } from 'firebase/storage';
+import { getDownloadURL, ref, uploadBytesResumable } from 'firebase/storage';
 import { Platform } from 'react-native';
 
 import { auth, storage } from '@/lib/firebase';
@@ -21,6 +22,47 @@ type UploadResult = {
   path: string;
 };
 
+type UploadProgress = {
+  bytesTransferred: number;
+  totalBytes: number;
+  // Da 0 a 1
+  progress: number;
+};
+
+type UploadTaskOptions = UploadOptions & {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  maxRetries?: number;
+};
+
+type UploadHandle = {
+  promise: Promise<UploadResult>;
+  cancel: () => void;
+};
+
+type ResumableSession = {
+  bucket: string;
+  uploadUrl: string;
+  size: number;
+};
+
+type StorageObjectPayload = {
+  name?: string;
+  bucket?: string;
+  downloadTokens?: string;
+  metadata?: { firebaseStorageDownloadTokens?: string };
+};
+
+// Multiplo di 256 KB come richiesto dal protocollo resumable
+const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15_000;
+const UPLOAD_CANCELED_CODE = 'upload/canceled';
+
+// Sessioni aperte per path: un nuovo tentativo sullo stesso path riprende da dove si era fermato
+const resumableSessions = new Map<string, ResumableSession>();
+
 const inferMimeFromDataUrl = (dataUrl: string) => {
   const match = dataUrl.match(/^data:([^;]+);base64,/i);
   const mime = match?.[1];
@@ -35,20 +77,28 @@ const inferMimeFromUri = (uri: string) => {
   if (clean.endsWith('.jpg') || clean.endsWith('.jpeg')) return 'image/jpeg';
   if (clean.endsWith('.webp')) return 'image/webp';
   if (clean.endsWith('.heic') || clean.endsWith('.heif')) return 'image/heic';
+  if (clean.endsWith('.m4a') || clean.endsWith('.mp4')) return 'audio/mp4';
+  if (clean.endsWith('.aac')) return 'audio/aac';
+  if (clean.endsWith('.caf')) return 'audio/x-caf';
+  if (clean.endsWith('.mp3')) return 'audio/mpeg';
+  if (clean.endsWith('.3gp')) return 'audio/3gpp';
+  if (clean.endsWith('.webm')) return 'audio/webm';
   return undefined;
 };
 
-const buildDataUrl = async (uri: string, mime?: string) => {
-  if (uri.startsWith('data:')) {
-    const resolvedMime = mime ?? inferMimeFromDataUrl(uri) ?? 'image/jpeg';
-    return { dataUrl: uri, mime: resolvedMime };
-  }
-
-  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: base64Encoding });
-  const safeMime = mime ?? inferMimeFromUri(uri) ?? 'image/jpeg';
-  return { dataUrl: `data:${safeMime};base64,${base64}`, mime: safeMime };
+// Estensione da usare nel path di Storage per un certo mime
+export const extensionForMime = (mime: string) => {
+  const subtype = mime.split('/')[1]?.split(';')[0] || 'bin';
+  if (subtype === 'jpeg') return 'jpg';
+  if (subtype === 'mp4' && mime.startsWith('audio/')) return 'm4a';
+  if (subtype === 'x-caf') return 'caf';
+  if (subtype === 'mpeg') return 'mp3';
+  return subtype;
 };
 
+export const inferMime = (uri: string, fallback = 'image/jpeg') =>
+  (uri.startsWith('data:') ? inferMimeFromDataUrl(uri) : inferMimeFromUri(uri)) ?? fallback;
+
 const writeDataUrlToCache = async (dataUrl: string, mime?: string) => {
   const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/i);
   if (!match) {
@@ -56,7 +106,7 @@ const writeDataUrlToCache = async (dataUrl: string, mime?: string) => {
   }
   const resolvedMime = mime ?? match[1] ?? 'image/jpeg';
   const base64Payload = match[2];
-  const extension = resolvedMime.split('/')[1] || 'jpg';
+  const extension = extensionForMime(resolvedMime);
   const baseDir = FileSystem.cacheDirectory ?? FileSystem.documentDirectory;
   if (!baseDir) {
     throw new Error('No cache directory available for image upload.');
@@ -70,6 +120,10 @@ const writeImageToCache = async (uri: string, mime?: string) => {
   if (uri.startsWith('file://')) {
     return { uri, cleanup: false };
   }
+  // Audio e altri file non passano dal manipolatore di immagini
+  if (mime && !mime.startsWith('image/')) {
+    return { uri, cleanup: false };
+  }
   const baseDir = FileSystem.cacheDirectory ?? FileSystem.documentDirectory;
   if (!baseDir) {
     return { uri, cleanup: false };
@@ -100,102 +154,370 @@ const writeImageToCache = async (uri: string, mime?: string) => {
   return { uri, cleanup: false };
 };
 
-export async function uploadImageToStorage(options: UploadOptions): Promise<UploadResult> {
-  const { uri, path, mime, metadata } = options;
-  const storageRef = ref(storage, path);
-  const isDataUrl = uri.startsWith('data:');
-
-  if (Platform.OS === 'web') {
-    if (isDataUrl) {
-      const { dataUrl, mime: resolvedMime } = await buildDataUrl(uri, mime);
-      await uploadString(storageRef, dataUrl, 'data_url', {
-        contentType: resolvedMime,
-        customMetadata: metadata,
-      });
-    } else {
-      const response = await fetch(uri);
-      const blob = await response.blob();
-      const contentType =
-        mime ?? (blob as any).type ?? inferMimeFromUri(uri) ?? 'image/jpeg';
-      await uploadBytes(storageRef, blob, {
-        contentType,
-        customMetadata: metadata,
-      });
-    }
-  } else {
-    const { uri: uploadUri, cleanup } = isDataUrl
-      ? await writeDataUrlToCache(uri, mime)
-      : await writeImageToCache(uri, mime);
-    const contentType = mime ?? inferMimeFromUri(uploadUri) ?? 'image/jpeg';
-    const bucketFromConfig = storage.app.options.storageBucket;
-    const projectId = storage.app.options.projectId;
-    const candidates = [
-      bucketFromConfig,
-      projectId ? `${projectId}.appspot.com` : null,
-      projectId ? `${projectId}.firebasestorage.app` : null,
-    ].filter(Boolean) as string[];
-    const bucketSet = new Set<string>(candidates);
-    const bucketList = Array.from(bucketSet);
-    if (!bucketList.length) {
-      throw new Error('Storage bucket not configured.');
-    }
-    const token = await auth.currentUser?.getIdToken();
-    if (!token) {
-      throw new Error('User not authenticated for storage upload.');
+const getBucketCandidates = () => {
+  const bucketFromConfig = storage.app.options.storageBucket;
+  const projectId = storage.app.options.projectId;
+  const candidates = [
+    bucketFromConfig,
+    projectId ? `${projectId}.appspot.com` : null,
+    projectId ? `${projectId}.firebasestorage.app` : null,
+  ].filter(Boolean) as string[];
+  return Array.from(new Set<string>(candidates));
+};
+
+const createUploadError = (message: string, code: string, status?: number) => {
+  const err = new Error(message);
+  (err as any).code = code;
+  if (status !== undefined) (err as any).status = status;
+  return err;
+};
+
+export const isUploadCanceled = (error: any) => error?.code === UPLOAD_CANCELED_CODE;
+
+// Rete assente, timeout, rate limit o errori 5xx: vale la pena riprovare
+const isTransientUploadError = (error: any) => {
+  if (isUploadCanceled(error)) return false;
+  const status = typeof error?.status === 'number' ? error.status : 0;
+  // Senza status è un errore di rete del fetch; i nostri codici upload/* sono definitivi
+  if (!status) return !String(error?.code ?? '').startsWith('upload/');
+  return status === 408 || status === 429 || status >= 500;
+};
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createUploadError('Upload canceled.', UPLOAD_CANCELED_CODE));
+      return;
     }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(createUploadError('Upload canceled.', UPLOAD_CANCELED_CODE));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const backoffDelay = (attempt: number) =>
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+
+const buildDownloadUrl = (bucket: string, payload: StorageObjectPayload, path: string) => {
+  const objectName = payload.name ?? path;
+  const tokenValue =
+    payload.downloadTokens ?? payload.metadata?.firebaseStorageDownloadTokens ?? '';
+  const downloadToken = tokenValue ? tokenValue.split(',')[0] : '';
+  const baseUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodeURIComponent(objectName)}?alt=media`;
+  return {
+    url: downloadToken ? `${baseUrl}&token=${downloadToken}` : baseUrl,
+    path: objectName,
+  };
+};
 
-    const uploadType =
-      (FileSystem as any).FileSystemUploadType?.BINARY_CONTENT ??
-      (FileSystem as any).UploadType?.BINARY_CONTENT;
+const parseObjectPayload = (body: string): StorageObjectPayload | null => {
+  try {
+    return JSON.parse(body || '{}') as StorageObjectPayload;
+  } catch {
+    return null;
+  }
+};
 
-    let lastError: Error | null = null;
-    for (const bucket of bucketList) {
-      const uploadUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket}/o?uploadType=media&name=${encodeURIComponent(path)}`;
-      const result = await FileSystem.uploadAsync(uploadUrl, uploadUri, {
-        httpMethod: 'POST',
+const startResumableSession = async (
+  path: string,
+  size: number,
+  contentType: string,
+  metadata: UploadMetadata | undefined,
+  token: string,
+  signal: AbortSignal
+): Promise<ResumableSession> => {
+  const bucketList = getBucketCandidates();
+  if (!bucketList.length) {
+    throw new Error('Storage bucket not configured.');
+  }
+  let lastError: Error | null = null;
+  for (const bucket of bucketList) {
+    const res = await fetch(
+      `https://firebasestorage.googleapis.com/v0/b/${bucket}/o?name=${encodeURIComponent(path)}`,
+      {
+        method: 'POST',
+        signal,
         headers: {
-          'Content-Type': contentType,
           Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json; charset=utf-8',
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': String(size),
+          'X-Goog-Upload-Header-Content-Type': contentType,
         },
-        uploadType,
-      });
-      if (result.status >= 200 && result.status < 300) {
-        if (cleanup) {
-          await FileSystem.deleteAsync(uploadUri, { idempotent: true });
+        // Con il protocollo resumable le customMetadata arrivano anche dal nativo
+        body: JSON.stringify({ name: path, contentType, metadata: metadata ?? {} }),
+      }
+    );
+    const uploadUrl = res.headers.get('X-Goog-Upload-URL');
+    if (res.ok && uploadUrl) {
+      return { bucket, uploadUrl, size };
+    }
+    const body = await res.text().catch(() => '');
+    lastError = createUploadError(
+      `Storage upload failed (${res.status}): ${body}`,
+      res.status === 404 ? 'upload/not-found' : 'upload/failed',
+      res.status
+    );
+    if (res.status !== 404) break;
+  }
+  throw lastError ?? new Error('Storage upload failed.');
+};
+
+// Quanti byte ha già ricevuto il server per questa sessione
+const queryResumableSession = async (session: ResumableSession, signal: AbortSignal) => {
+  const res = await fetch(session.uploadUrl, {
+    method: 'POST',
+    signal,
+    headers: { 'X-Goog-Upload-Command': 'query' },
+  });
+  if (!res.ok) {
+    throw createUploadError(
+      `Storage upload status failed (${res.status})`,
+      res.status === 404 ? 'upload/session-expired' : 'upload/failed',
+      res.status
+    );
+  }
+  const status = res.headers.get('X-Goog-Upload-Status');
+  const received = Number(res.headers.get('X-Goog-Upload-Size-Received') ?? 0);
+  const body = status === 'final' ? await res.text() : '';
+  return { final: status === 'final', received: Number.isFinite(received) ? received : 0, body };
+};
+
+const uploadChunk = async (
+  session: ResumableSession,
+  fileUri: string,
+  offset: number,
+  signal: AbortSignal
+) => {
+  const length = Math.min(UPLOAD_CHUNK_SIZE, session.size - offset);
+  const base64 = await FileSystem.readAsStringAsync(fileUri, {
+    encoding: base64Encoding,
+    position: offset,
+    length,
+  });
+  const isLast = offset + length >= session.size;
+  const res = await fetch(session.uploadUrl, {
+    method: 'POST',
+    signal,
+    headers: {
+      'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+      'X-Goog-Upload-Offset': String(offset),
+    },
+    body: Buffer.from(base64, 'base64') as any,
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => '');
+    throw createUploadError(`Storage upload failed (${res.status}): ${body}`, 'upload/failed', res.status);
+  }
+  return { next: offset + length, body: isLast ? await res.text() : '' };
+};
+
+const cancelResumableSession = (session: ResumableSession) => {
+  fetch(session.uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'cancel' },
+  }).catch(() => {});
+};
+
+const uploadNative = async (
+  options: UploadTaskOptions,
+  signal: AbortSignal,
+  report: (bytesTransferred: number, totalBytes: number) => void
+): Promise<UploadResult> => {
+  const { uri, path, mime, metadata } = options;
+  const { uri: uploadUri, cleanup } = uri.startsWith('data:')
+    ? await writeDataUrlToCache(uri, mime)
+    : await writeImageToCache(uri, mime);
+  const contentType = mime ?? inferMimeFromUri(uploadUri) ?? 'image/jpeg';
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  try {
+    const info = await FileSystem.getInfoAsync(uploadUri);
+    const size = info.exists && typeof (info as any).size === 'number' ? (info as any).size : 0;
+    if (!size) {
+      throw createUploadError('File to upload is empty or missing.', 'upload/invalid-file');
+    }
+
+    let session = resumableSessions.get(path);
+    if (session && session.size !== size) {
+      resumableSessions.delete(path);
+      session = undefined;
+    }
+    let offset = 0;
+    let attempt = 0;
+    let resumed = !!session;
+
+    while (true) {
+      try {
+        if (!session) {
+          const token = await auth.currentUser?.getIdToken();
+          if (!token) {
+            throw createUploadError('User not authenticated for storage upload.', 'upload/unauthenticated');
+          }
+          session = await startResumableSession(path, size, contentType, metadata, token, signal);
+          resumableSessions.set(path, session);
+          offset = 0;
+          resumed = false;
+        }
+        if (resumed) {
+          // Dopo un'interruzione riprendiamo dal punto confermato dal server
+          const status = await queryResumableSession(session, signal);
+          if (status.final) {
+            const payload = parseObjectPayload(status.body) ?? {};
+            resumableSessions.delete(path);
+            report(size, size);
+            return buildDownloadUrl(session.bucket, payload, path);
+          }
+          offset = status.received;
+          resumed = false;
+        }
+        report(offset, size);
+        while (offset < size) {
+          const chunk = await uploadChunk(session, uploadUri, offset, signal);
+          offset = chunk.next;
+          attempt = 0;
+          report(offset, size);
+          if (offset >= size) {
+            const payload = parseObjectPayload(chunk.body);
+            resumableSessions.delete(path);
+            if (payload) return buildDownloadUrl(session.bucket, payload, path);
+            const url = await getDownloadURL(ref(storage, `gs://${session.bucket}/${path}`));
+            return { url, path };
+          }
         }
-        try {
-          const payload = JSON.parse(result.body ?? '{}') as {
-            name?: string;
-            bucket?: string;
-            downloadTokens?: string;
-            metadata?: { firebaseStorageDownloadTokens?: string };
-          };
-          const objectName = payload.name ?? path;
-          const tokenValue =
-            payload.downloadTokens ??
-            payload.metadata?.firebaseStorageDownloadTokens ??
-            '';
-          const downloadToken = tokenValue ? tokenValue.split(',')[0] : '';
-          const encodedName = encodeURIComponent(objectName);
-          const baseUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodedName}?alt=media`;
-          const url = downloadToken ? `${baseUrl}&token=${downloadToken}` : baseUrl;
-          return { url, path: objectName };
-        } catch (e) {
-          const url = await getDownloadURL(ref(storage, `gs://${bucket}/${path}`));
-          return { url, path };
+      } catch (error: any) {
+        if (signal.aborted) {
+          throw createUploadError('Upload canceled.', UPLOAD_CANCELED_CODE);
         }
+        if (error?.code === 'upload/session-expired') {
+          resumableSessions.delete(path);
+          session = undefined;
+        } else if (!isTransientUploadError(error) || attempt >= maxRetries) {
+          throw error;
+        }
+        await wait(backoffDelay(attempt), signal);
+        attempt += 1;
+        resumed = !!session;
       }
-      const err = new Error(`Storage upload failed (${result.status}): ${result.body}`);
-      (err as any).status = result.status;
-      lastError = err;
-      if (result.status !== 404) break;
+    }
+  } finally {
+    if (signal.aborted) {
+      const session = resumableSessions.get(path);
+      if (session) cancelResumableSession(session);
+      resumableSessions.delete(path);
     }
     if (cleanup) {
-      await FileSystem.deleteAsync(uploadUri, { idempotent: true });
+      await FileSystem.deleteAsync(uploadUri, { idempotent: true }).catch(() => {});
     }
-    throw lastError ?? new Error('Storage upload failed.');
   }
+};
 
+const uploadWeb = async (
+  options: UploadTaskOptions,
+  signal: AbortSignal,
+  report: (bytesTransferred: number, totalBytes: number) => void
+): Promise<UploadResult> => {
+  const { uri, path, mime, metadata } = options;
+  const storageRef = ref(storage, path);
+  const response = await fetch(uri);
+  const blob = await response.blob();
+  const contentType = mime ?? (blob.type || undefined) ?? inferMime(uri);
+
+  // Su web ci pensa l'SDK: sessione resumable e retry interni
+  const task = uploadBytesResumable(storageRef, blob, {
+    contentType,
+    customMetadata: metadata,
+  });
+  const onAbort = () => task.cancel();
+  signal.addEventListener('abort', onAbort, { once: true });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      task.on(
+        'state_changed',
+        (snap) => report(snap.bytesTransferred, snap.totalBytes),
+        (error) =>
+          reject(
+            error.code === 'storage/canceled'
+              ? createUploadError('Upload canceled.', UPLOAD_CANCELED_CODE)
+              : error
+          ),
+        () => resolve()
+      );
+    });
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
   const url = await getDownloadURL(storageRef);
   return { url, path };
+};
+
+// Avvia un upload con progresso e annullamento; su nativo usa il protocollo resumable
+// di Storage e riprende dal punto interrotto dopo errori di rete
+export function startUpload(options: UploadTaskOptions): UploadHandle {
+  const controller = new AbortController();
+  const report = (bytesTransferred: number, totalBytes: number) => {
+    options.onProgress?.({
+      bytesTransferred,
+      totalBytes,
+      progress: totalBytes ? Math.min(1, bytesTransferred / totalBytes) : 0,
+    });
+  };
+  const promise =
+    Platform.OS === 'web'
+      ? uploadWeb(options, controller.signal, report)
+      : uploadNative(options, controller.signal, report);
+  return {
+    promise,
+    cancel: () => controller.abort(),
+  };
+}
+
+// Nonostante il nome carica qualsiasi file (foto, vocali): il mime arriva da `mime` o dall'uri
+export async function uploadImageToStorage(options: UploadTaskOptions): Promise<UploadResult> {
+  const handle = startUpload(options);
+  if (options.signal) {
+    if (options.signal.aborted) handle.cancel();
+    options.signal.addEventListener('abort', handle.cancel, { once: true });
+  }
+  return handle.promise;
+}
+
+type ChatMediaKind = 'image' | 'audio';
+
+type ChatMediaUploadOptions = Pick<UploadTaskOptions, 'onProgress' | 'signal'> & {
+  chatId: string;
+  userId: string;
+  messageId: string;
+  uri: string;
+  kind: ChatMediaKind;
+  mime?: string;
+};
+
+export const isRemoteMediaUri = (uri: string) => /^https?:\/\//i.test(uri);
+
+// Foto e vocali delle chat: chat-images/{chatId}/{userId}/{messageId}.{ext}
+// Il path permette a moderateImage e cleanupChatImageOnDelete di risalire al messaggio
+export async function uploadChatMedia(options: ChatMediaUploadOptions): Promise<UploadResult> {
+  const { chatId, userId, messageId, uri, kind, onProgress, signal } = options;
+  const mime = options.mime ?? inferMime(uri, kind === 'audio' ? 'audio/mp4' : 'image/jpeg');
+  return uploadImageToStorage({
+    uri,
+    mime,
+    onProgress,
+    signal,
+    path: `chat-images/${chatId}/${userId}/${messageId}.${extensionForMime(mime)}`,
+    metadata: {
+      kind: kind === 'audio' ? 'chat-audio' : 'chat',
+      chatId,
+      messageId,
+    },
+  });
 }
+
+export type { ChatMediaKind, UploadHandle, UploadProgress, UploadResult };
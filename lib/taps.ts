@@ -0,0 +1,57 @@
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '@/lib/firebase';
+
+type TapResponse = 'no' | 'match' | 'maybe';
+
+type SendTapResult = {
+  ok: boolean;
+  cooldownUntil: number;
+};
+
+type RespondToTapResult = {
+  ok: boolean;
+  chatId: string | null;
+};
+
+type TapErrorAlert = {
+  title: string;
+  message: string;
+};
+
+const sendTapCallable = httpsCallable<{ targetId: string }, SendTapResult>(functions, 'sendTap');
+const respondToTapCallable = httpsCallable<
+  { targetId: string; response: TapResponse },
+  RespondToTapResult
+>(functions, 'respondToTap');
+
+export const sendTap = async (targetId: string) => (await sendTapCallable({ targetId })).data;
+
+export const respondToTap = async (targetId: string, response: TapResponse) =>
+  (await respondToTapCallable({ targetId, response })).data;
+
+// Traduce gli errori di sendTap/respondToTap negli avvisi mostrati all'utente
+export const getTapErrorAlert = (error: any, fallback: string): TapErrorAlert => {
+  const code = error?.code || '';
+  const reason = error?.message || '';
+  if (code === 'functions/resource-exhausted' || reason.includes('tap-cooldown')) {
+    const retryAfterMs = Number(error?.details?.retryAfterMs) || 0;
+    const hours = Math.max(1, Math.ceil(retryAfterMs / (60 * 60 * 1000)));
+    return { title: 'Attendi', message: `Puoi inviare un altro tap tra ${hours}h.` };
+  }
+  if (code === 'functions/already-exists' || reason.includes('tap-already-sent')) {
+    return { title: 'Tap già inviato', message: 'Hai già inviato un tap a questo profilo.' };
+  }
+  if (code === 'functions/permission-denied' || reason.includes('blocked')) {
+    return { title: 'Non disponibile', message: 'Non puoi interagire con questo profilo.' };
+  }
+  if (code === 'functions/failed-precondition' || reason.includes('tap-not-found')) {
+    return { title: 'Tap non più valido', message: 'Questo tap è già stato gestito.' };
+  }
+  if (code === 'functions/unauthenticated') {
+    return { title: 'Errore', message: 'Devi essere loggato per continuare.' };
+  }
+  return { title: 'Errore', message: fallback };
+};
+
+export type { TapResponse };
@@ -0,0 +1,121 @@
+import { doc, setDoc, updateDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+
+import { db, functions } from '@/lib/firebase';
+
+type TranslationLanguage = {
+  code: string;
+  label: string;
+};
+
+type TranslationPrefs = {
+  autoTranslate: boolean;
+  // Lingua in cui mostrare i messaggi ricevuti
+  incoming: string;
+  // Lingua in cui tradurre quello che si scrive
+  outgoing: string;
+};
+
+type TranslateMessageInput = {
+  target: string;
+  source?: string;
+  chatId?: string;
+  messageId?: string;
+  text?: string;
+};
+
+// Cache scritta da translateMessage sul documento del messaggio, per lingua di destinazione
+type CachedTranslation = {
+  text: string;
+  detectedSource: string | null;
+  sourceText: string;
+};
+
+type TranslationResult = {
+  text: string;
+  // Lingua rilevata del testo originale (codice ISO 639-1), se il provider la conosce
+  detectedSource: string | null;
+  cached: boolean;
+};
+
+// Deve coincidere con SUPPORTED_LANGUAGES in functions/translation-providers.js
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'it', label: 'Italiano' },
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'pt', label: 'Português' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'ro', label: 'Română' },
+  { code: 'ru', label: 'Русский' },
+  { code: 'uk', label: 'Українська' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'zh', label: '中文' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'sv', label: 'Svenska' },
+  { code: 'el', label: 'Ελληνικά' },
+  { code: 'sq', label: 'Shqip' },
+];
+
+export const DEFAULT_TRANSLATION_PREFS: TranslationPrefs = {
+  autoTranslate: false,
+  incoming: 'it',
+  outgoing: 'en',
+};
+
+export const isSupportedLanguage = (code: any): code is string =>
+  typeof code === 'string' && TRANSLATION_LANGUAGES.some((lang) => lang.code === code);
+
+export const getLanguageLabel = (code?: string | null) =>
+  TRANSLATION_LANGUAGES.find((lang) => lang.code === code)?.label ?? code?.toUpperCase() ?? '';
+
+// Campi mancanti o lingue non più supportate: si usa il valore di riserva
+export const parseTranslationPrefs = (
+  value: any,
+  fallback: TranslationPrefs = DEFAULT_TRANSLATION_PREFS
+): TranslationPrefs => {
+  const raw = value && typeof value === 'object' ? value : {};
+  return {
+    autoTranslate:
+      typeof raw.autoTranslate === 'boolean' ? raw.autoTranslate : fallback.autoTranslate,
+    incoming: isSupportedLanguage(raw.incoming) ? raw.incoming : fallback.incoming,
+    outgoing: isSupportedLanguage(raw.outgoing) ? raw.outgoing : fallback.outgoing,
+  };
+};
+
+// Predefinito globale sul profilo, modificabile dalle Impostazioni
+export const saveDefaultTranslationPrefs = (userId: string, patch: Partial<TranslationPrefs>) =>
+  updateDoc(
+    doc(db, 'profiles', userId),
+    Object.fromEntries(
+      Object.entries(patch).map(([key, value]) => [`translationPrefs.${key}`, value])
+    )
+  );
+
+// Impostazioni della singola chat: si salva l'insieme completo, che prevale sul predefinito
+export const saveChatTranslationPrefs = (
+  chatId: string,
+  userId: string,
+  prefs: TranslationPrefs
+) =>
+  setDoc(doc(db, 'chats', chatId), { translationPrefs: { [userId]: prefs } }, { merge: true });
+
+const translateMessageCallable = httpsCallable<TranslateMessageInput, TranslationResult>(
+  functions,
+  'translateMessage'
+);
+
+// Messaggio già salvato: il server usa e aggiorna la cache sul documento
+export const translateChatMessage = async (chatId: string, messageId: string, target: string) =>
+  (await translateMessageCallable({ chatId, messageId, target })).data;
+
+// Testo non ancora inviato (traduzione in uscita): nessuna cache
+export const translatePlainText = async (text: string, target: string) =>
+  (await translateMessageCallable({ text, target })).data;
+
+export type { CachedTranslation, TranslationLanguage, TranslationPrefs, TranslationResult };
@@ -0,0 +1,766 @@
+// Test delle regole Firestore: da lanciare con `npm run test:rules` (avvia l'emulatore)
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, test } from 'node:test';
+
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+
+const ALICE = 'alice';
+const BOB = 'bob';
+const EVE = 'eve';
+const CHAT_ID = [ALICE, BOB].sort().join('_');
+
+let testEnv;
+
+const dbFor = (uid) =>
+  uid ? testEnv.authenticatedContext(uid).firestore() : testEnv.unauthenticatedContext().firestore();
+
+const seed = async (path, data) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), path), data);
+  });
+};
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-appincontri-rules',
+    firestore: {
+      rules: readFileSync(new URL('../firestore.rules', import.meta.url), 'utf8'),
+      host: '127.0.0.1',
+      port: 8080,
+    },
+  });
+});
+
+after(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(`profiles/${ALICE}`, { name: 'Alice', age: 30, interested: [], interestedBy: [] });
+  await seed(`profiles/${BOB}`, { name: 'Bob', age: 32, interested: [ALICE], interestedBy: [] });
+});
+
+describe('profiles', () => {
+  test('chi non è loggato non legge i profili', async () => {
+    await assertFails(getDoc(doc(dbFor(null), 'profiles', ALICE)));
+  });
+
+  test('un utente loggato legge i profili altrui', async () => {
+    await assertSucceeds(getDoc(doc(dbFor(EVE), 'profiles', ALICE)));
+  });
+
+  test('il proprietario modifica liberamente il proprio profilo', async () => {
+    await assertSucceeds(updateDoc(doc(dbFor(ALICE), 'profiles', ALICE), { name: 'Ali', bio: 'Ciao' }));
+  });
+
+  test('non si crea il profilo di qualcun altro', async () => {
+    await assertFails(setDoc(doc(dbFor(EVE), 'profiles', 'mallory'), { name: 'Finto' }));
+  });
+
+  test('non si modificano i campi anagrafici altrui', async () => {
+    await assertFails(updateDoc(doc(dbFor(EVE), 'profiles', ALICE), { name: 'Hacked' }));
+  });
+
+  test('tap, risposte e match non si scrivono dal client', async () => {
+    const db = dbFor(ALICE);
+    await assertFails(updateDoc(doc(db, 'profiles', BOB), { interestedBy: arrayUnion(ALICE) }));
+    await assertFails(
+      updateDoc(doc(db, 'profiles', BOB), {
+        interested: arrayRemove(ALICE),
+        [`tapResponses.${ALICE}`]: 'match',
+      })
+    );
+    await assertFails(updateDoc(doc(db, 'profiles', BOB), { matches: arrayUnion(ALICE) }));
+  });
+
+  test('il proprietario non azzera il cooldown né si aggiunge match', async () => {
+    const db = dbFor(BOB);
+    await assertFails(updateDoc(doc(db, 'profiles', BOB), { [`tapCooldowns.${ALICE}`]: null }));
+    await assertFails(updateDoc(doc(db, 'profiles', BOB), { matches: arrayUnion(ALICE) }));
+    await assertSucceeds(updateDoc(doc(db, 'profiles', BOB), { interestsSeen: [ALICE] }));
+  });
+
+  test('un nuovo profilo non nasce con tap o match', async () => {
+    await assertFails(
+      setDoc(doc(dbFor(EVE), 'profiles', EVE), { name: 'Eve', matches: [ALICE] })
+    );
+    await assertSucceeds(setDoc(doc(dbFor(EVE), 'profiles', EVE), { name: 'Eve', age: 25 }));
+  });
+
+  test('blocco e sblocco passano da blockUser/unblockUser', async () => {
+    const db = dbFor(ALICE);
+    await assertFails(updateDoc(doc(db, 'profiles', BOB), { blockedBy: arrayUnion(ALICE) }));
+    await assertFails(updateDoc(doc(db, 'profiles', ALICE), { blocked: arrayUnion(BOB) }));
+    await seed(`profiles/${ALICE}`, { name: 'Alice', blocked: [BOB] });
+    await assertFails(updateDoc(doc(db, 'profiles', ALICE), { blocked: arrayRemove(BOB) }));
+  });
+});
+
+describe('privateProfiles', () => {
+  test('token push e preferenze li legge e scrive solo il proprietario', async () => {
+    await assertSucceeds(
+      setDoc(doc(dbFor(ALICE), 'privateProfiles', ALICE), {
+        pushTokens: ['ExponentPushToken[alice]'],
+        notificationPrefs: { messages: false },
+      })
+    );
+    await assertSucceeds(getDoc(doc(dbFor(ALICE), 'privateProfiles', ALICE)));
+    await assertFails(getDoc(doc(dbFor(BOB), 'privateProfiles', ALICE)));
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'privateProfiles', ALICE), { pushTokens: ['ExponentPushToken[bob]'] })
+    );
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), 'privateProfiles', ALICE), { matches: [BOB] }, { merge: true })
+    );
+  });
+});
+
+describe('blocchi', () => {
+  const GROUP_ID = 'g1';
+
+  beforeEach(async () => {
+    await seed(`profiles/${ALICE}`, { name: 'Alice', blocked: [BOB] });
+    await seed(`profiles/${BOB}`, { name: 'Bob', blockedBy: [ALICE] });
+    await seed(`chats/${CHAT_ID}`, { participants: [ALICE, BOB], blockedBy: { [ALICE]: 1 } });
+    await seed(`groupRooms/${GROUP_ID}`, { title: 'Milano', owner: EVE });
+  });
+
+  test('tra utenti bloccati non partono messaggi in nessuna delle due direzioni', async () => {
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm1'), { text: 'Ciao', senderId: BOB })
+    );
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm2'), {
+        text: 'Ciao',
+        senderId: ALICE,
+      })
+    );
+    await assertFails(updateDoc(doc(dbFor(BOB), 'chats', CHAT_ID), { lastMessage: 'Ciao' }));
+  });
+
+  test('la chat bloccata si archivia ma il blocco non si toglie dal client', async () => {
+    await assertSucceeds(
+      updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID), {
+        listState: { [ALICE]: { archived: true } },
+      })
+    );
+    await assertFails(updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID), { blockedBy: {} }));
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), 'chats', CHAT_ID), { readBy: { [BOB]: serverTimestamp() } }, { merge: true })
+    );
+  });
+
+  test('niente thread privati nei gruppi tra utenti bloccati', async () => {
+    const threadId = CHAT_ID;
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'groupRooms', GROUP_ID, 'privateThreads', threadId), {
+        participants: [ALICE, BOB],
+      })
+    );
+    await seed(`groupRooms/${GROUP_ID}/privateThreads/${threadId}`, { participants: [ALICE, BOB] });
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'groupRooms', GROUP_ID, 'privateThreads', threadId, 'messages', 'm1'), {
+        text: 'Ciao',
+        senderId: BOB,
+      })
+    );
+  });
+
+  test('chi non è coinvolto nel blocco scrive normalmente', async () => {
+    const chatId = [ALICE, EVE].sort().join('_');
+    await assertSucceeds(
+      setDoc(doc(dbFor(ALICE), 'chats', chatId, 'messages', 'm1'), { text: 'Ciao', senderId: ALICE })
+    );
+  });
+});
+
+describe('chats', () => {
+  beforeEach(async () => {
+    await seed(`chats/${CHAT_ID}`, { participants: [ALICE, BOB], lastMessage: 'Ciao' });
+    await seed(`chats/${CHAT_ID}/messages/m1`, { text: 'Ciao', senderId: ALICE });
+  });
+
+  test('i partecipanti leggono la chat e i messaggi', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(getDoc(doc(db, 'chats', CHAT_ID)));
+    await assertSucceeds(getDocs(collection(db, 'chats', CHAT_ID, 'messages')));
+  });
+
+  test('chi non partecipa non legge la chat né i messaggi', async () => {
+    const db = dbFor(EVE);
+    await assertFails(getDoc(doc(db, 'chats', CHAT_ID)));
+    await assertFails(getDocs(collection(db, 'chats', CHAT_ID, 'messages')));
+  });
+
+  test('la lista chat filtra per partecipante', async () => {
+    await assertSucceeds(
+      getDocs(query(collection(dbFor(ALICE), 'chats'), where('participants', 'array-contains', ALICE)))
+    );
+    await assertFails(getDocs(collection(dbFor(EVE), 'chats')));
+  });
+
+  test('una nuova chat deve avere come partecipanti la coppia dell\'id', async () => {
+    const db = dbFor(ALICE);
+    const id = [ALICE, EVE].sort().join('_');
+    await assertSucceeds(
+      setDoc(doc(db, 'chats', id), { participants: [ALICE, EVE], updatedAt: serverTimestamp() })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', [ALICE, 'zed'].sort().join('_')), { participants: [ALICE, EVE] })
+    );
+  });
+
+  test('i messaggi effimeri accettano solo le durate previste', async () => {
+    const db = dbFor(BOB);
+    const timer = (disappearingAfter) =>
+      setDoc(
+        doc(db, 'chats', CHAT_ID),
+        { disappearingAfter, disappearingUpdatedBy: BOB },
+        { merge: true }
+      );
+    await assertSucceeds(timer(24 * 60 * 60 * 1000));
+    await assertSucceeds(timer(null));
+    await assertFails(timer(1000));
+  });
+
+  test('il cambio di durata dei messaggi effimeri lo firma chi lo fa', async () => {
+    const db = dbFor(BOB);
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID), { disappearingAfter: 24 * 60 * 60 * 1000 }, { merge: true })
+    );
+    await assertFails(
+      setDoc(
+        doc(db, 'chats', CHAT_ID),
+        { disappearingAfter: 24 * 60 * 60 * 1000, disappearingUpdatedBy: ALICE },
+        { merge: true }
+      )
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID), { disappearingUpdatedBy: BOB }, { merge: true })
+    );
+  });
+
+  test('la scadenza dei messaggi effimeri la fissa solo il server', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m16`, {
+      text: 'Effimero',
+      senderId: ALICE,
+      disappearAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm17'), {
+        text: 'Ciao',
+        senderId: BOB,
+        disappearAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm16'), {
+        disappearAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+      })
+    );
+  });
+
+  test('le preferenze di traduzione si salvano solo per sé', async () => {
+    const db = dbFor(BOB);
+    const prefs = { autoTranslate: true, incoming: 'it', outgoing: 'es' };
+    await assertSucceeds(
+      setDoc(doc(db, 'chats', CHAT_ID), { translationPrefs: { [BOB]: prefs } }, { merge: true })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID), { translationPrefs: { [ALICE]: prefs } }, { merge: true })
+    );
+  });
+
+  test('fissata, archiviata e silenziata valgono solo per la propria lista', async () => {
+    const db = dbFor(BOB);
+    const state = { pinned: true, archived: false, muted: true, mutedUntil: null };
+    await assertSucceeds(
+      setDoc(doc(db, 'chats', CHAT_ID), { listState: { [BOB]: state } }, { merge: true })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID), { listState: { [ALICE]: state } }, { merge: true })
+    );
+  });
+
+  test("la chat si elimina solo per sé: il documento resta all'altro partecipante", async () => {
+    const db = dbFor(BOB);
+    await assertFails(deleteDoc(doc(db, 'chats', CHAT_ID)));
+    await assertSucceeds(
+      setDoc(doc(db, 'chats', CHAT_ID), { listState: { [BOB]: { clearedAt: Date.now() } } }, { merge: true })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID), { listState: { [ALICE]: { clearedAt: Date.now() } } }, { merge: true })
+    );
+  });
+
+  test('ognuno segna come letta la chat solo per sé', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      setDoc(doc(db, 'chats', CHAT_ID), { readBy: { [BOB]: serverTimestamp() } }, { merge: true })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID), { readBy: { [ALICE]: serverTimestamp() } }, { merge: true })
+    );
+  });
+
+  test('non si crea una chat tra altri due utenti', async () => {
+    await assertFails(setDoc(doc(dbFor(EVE), 'chats', CHAT_ID), { participants: [ALICE, BOB] }));
+  });
+
+  test('i messaggi si inviano solo a proprio nome', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm2'), { text: 'Ehi', senderId: BOB })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm3'), { text: 'Finto', senderId: ALICE })
+    );
+  });
+
+  test("l'esito della moderazione non si scrive dal client", async () => {
+    await seed(`chats/${CHAT_ID}/messages/m18`, {
+      image: 'https://example.com/a.jpg',
+      senderId: BOB,
+      moderationStatus: 'flagged',
+      contentWarning: 'nudity',
+    });
+    const db = dbFor(BOB);
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm19'), {
+        image: 'data:image/jpeg;base64,AAAA',
+        senderId: BOB,
+        moderationStatus: 'ok',
+      })
+    );
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm20'), {
+        image: 'https://example.com/b.jpg',
+        senderId: BOB,
+        contentWarning: null,
+        moderation: { adult: 'VERY_UNLIKELY' },
+      })
+    );
+    await assertFails(
+      updateDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm18'), {
+        moderationStatus: 'ok',
+        contentWarning: null,
+      })
+    );
+  });
+
+  test('un documento senza mittente non diventa il proprio messaggio', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m8`, { moderationStatus: 'ok', contentWarning: null });
+    await assertFails(
+      setDoc(
+        doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm8'),
+        { image: 'https://example.com/a.jpg', senderId: BOB, createdAt: serverTimestamp() },
+        { merge: true }
+      )
+    );
+  });
+
+  test('il mittente di un messaggio non cambia', async () => {
+    const db = dbFor(BOB);
+    await assertFails(updateDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1'), { senderId: BOB }));
+  });
+
+  test('la scadenza si fissa solo sui messaggi segreti ricevuti', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m14`, { text: 'Segreto', senderId: ALICE, expiresAfterView: true });
+    await assertFails(
+      updateDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm1'), { expiresAt: serverTimestamp() })
+    );
+    await assertFails(
+      updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm14'), { expiresAt: serverTimestamp() })
+    );
+    await assertSucceeds(
+      updateDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm14'), { expiresAt: serverTimestamp() })
+    );
+  });
+
+  test('testo e contenuto non si modificano direttamente', async () => {
+    const db = dbFor(ALICE);
+    await assertFails(updateDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1'), { text: 'Modificato' }));
+    await assertFails(updateDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1'), { unsent: true }));
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm6'), {
+        text: 'Già modificato',
+        senderId: ALICE,
+        editedAt: serverTimestamp(),
+      })
+    );
+  });
+
+  test('la cronologia delle modifiche non è leggibile dai client', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m1/edits/e1`, { action: 'edit', text: 'Ciao' });
+    await assertFails(getDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm1', 'edits', 'e1')));
+    await assertFails(getDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm1', 'edits', 'e1')));
+  });
+
+  test('la scadenza di un messaggio segreto non si rimanda', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m7`, {
+      text: 'Segreto',
+      senderId: ALICE,
+      expiresAfterView: true,
+      expiresAt: new Date(Date.now() + 10_000),
+    });
+    await assertFails(
+      updateDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm7'), {
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      })
+    );
+  });
+
+  test('la scadenza di un messaggio segreto si fissa solo a pochi secondi', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m9`, { text: 'Segreto', senderId: ALICE, expiresAfterView: true });
+    const ref = doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm9');
+    await assertFails(updateDoc(ref, { expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) }));
+    await assertFails(updateDoc(ref, { expiresAfterView: false }));
+    await assertFails(
+      updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm9'), { expiresAfterView: false })
+    );
+    await assertSucceeds(updateDoc(ref, { expiresAt: new Date(Date.now() + 10_000) }));
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm10'), {
+        text: 'Segreto',
+        senderId: ALICE,
+        expiresAfterView: true,
+        expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+      })
+    );
+  });
+
+  test('consegna e lettura le conferma solo il destinatario', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m5`, {
+      text: 'Ci sei?',
+      senderId: ALICE,
+      deliveredAt: null,
+      readAt: null,
+    });
+    await assertFails(
+      updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm5'), { readAt: serverTimestamp() })
+    );
+    await assertSucceeds(
+      updateDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm5'), {
+        deliveredAt: serverTimestamp(),
+        readAt: serverTimestamp(),
+      })
+    );
+  });
+
+  test('ognuno reagisce solo a proprio nome', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      updateDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1'), { [`reactions.${BOB}`]: '❤️' })
+    );
+    await assertFails(
+      updateDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1'), { [`reactions.${ALICE}`]: '😂' })
+    );
+  });
+
+  test('"sta scrivendo" si segnala solo per sé e lo vedono solo i partecipanti', async () => {
+    await assertSucceeds(
+      setDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'typing', BOB), { typingAt: serverTimestamp() })
+    );
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'typing', ALICE), { typingAt: serverTimestamp() })
+    );
+    await assertSucceeds(getDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'typing', BOB)));
+    await assertFails(getDoc(doc(dbFor(EVE), 'chats', CHAT_ID, 'typing', BOB)));
+  });
+
+  test('si cancellano solo i propri messaggi e i segreti scaduti', async () => {
+    await seed(`chats/${CHAT_ID}/messages/m13`, {
+      text: 'Segreto',
+      senderId: ALICE,
+      expiresAfterView: true,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    await seed(`chats/${CHAT_ID}/messages/m15`, {
+      text: 'Normale',
+      senderId: ALICE,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    await assertFails(deleteDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm1')));
+    await assertFails(deleteDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm15')));
+    await assertSucceeds(deleteDoc(doc(dbFor(BOB), 'chats', CHAT_ID, 'messages', 'm13')));
+    await assertSucceeds(deleteDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm1')));
+  });
+
+  test('chi non partecipa non scrive né cancella messaggi', async () => {
+    const db = dbFor(EVE);
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm4'), { text: 'Spam', senderId: EVE })
+    );
+    await assertFails(deleteDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1')));
+  });
+});
+
+describe('presence', () => {
+  test('ognuno aggiorna solo la propria presenza', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(BOB), 'presence', BOB), { activeAt: serverTimestamp() }));
+    await assertFails(setDoc(doc(dbFor(BOB), 'presence', ALICE), { activeAt: serverTimestamp() }));
+    await assertSucceeds(deleteDoc(doc(dbFor(BOB), 'presence', BOB)));
+  });
+
+  test('la presenza la leggono solo gli utenti loggati', async () => {
+    await seed(`presence/${ALICE}`, { activeAt: new Date() });
+    await assertSucceeds(getDoc(doc(dbFor(BOB), 'presence', ALICE)));
+    await assertFails(getDoc(doc(dbFor(null), 'presence', ALICE)));
+  });
+});
+
+describe('messageSearch', () => {
+  test('ognuno legge solo il proprio indice e nessuno lo scrive', async () => {
+    await seed(`messageSearch/${BOB}/entries/${CHAT_ID}_m1`, {
+      chatId: CHAT_ID,
+      terms: ['ci', 'cia', 'ciao'],
+    });
+    await assertSucceeds(
+      getDocs(
+        query(
+          collection(dbFor(BOB), 'messageSearch', BOB, 'entries'),
+          where('terms', 'array-contains', 'cia')
+        )
+      )
+    );
+    await assertFails(getDocs(collection(dbFor(EVE), 'messageSearch', BOB, 'entries')));
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'messageSearch', BOB, 'entries', 'finto'), { terms: ['spam'] })
+    );
+  });
+});
+
+describe('moderazione', () => {
+  test('segnalazioni e coda di moderazione non si leggono né si scrivono dal client', async () => {
+    await seed(`reports/profiles:${ALICE}:${BOB}`, { reporterId: BOB, reason: 'spam' });
+    await assertFails(getDoc(doc(dbFor(BOB), 'reports', `profiles:${ALICE}:${BOB}`)));
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'reports', `profiles:${ALICE}:${BOB}`), { reporterId: BOB })
+    );
+    await assertFails(getDocs(collection(dbFor(ALICE), 'moderationQueue')));
+  });
+
+  test('i moderatori leggono coda, segnalazioni e registro ma non li scrivono', async () => {
+    const mod = testEnv.authenticatedContext('mod', { admin: true }).firestore();
+    await seed(`reports/profiles:${ALICE}:${BOB}`, { reporterId: BOB, reason: 'spam' });
+    await seed(`moderationQueue/profiles:${ALICE}`, { status: 'pending', reportCount: 1 });
+    await seed('moderationAudit/a1', { actorId: 'mod', action: 'warn' });
+    await assertSucceeds(getDoc(doc(mod, 'reports', `profiles:${ALICE}:${BOB}`)));
+    await assertSucceeds(getDocs(collection(mod, 'moderationQueue')));
+    await assertSucceeds(getDocs(collection(mod, 'moderationAudit')));
+    await assertFails(getDocs(collection(dbFor(ALICE), 'moderationAudit')));
+    await assertFails(
+      updateDoc(doc(mod, 'moderationQueue', `profiles:${ALICE}`), { status: 'resolved' })
+    );
+    await assertFails(setDoc(doc(mod, 'moderationAudit', 'a2'), { actorId: 'mod' }));
+  });
+
+  test('lo stato dell\'account lo legge solo il diretto interessato', async () => {
+    await seed(`accountStatus/${EVE}`, { state: 'suspended', reason: 'Spam' });
+    await assertSucceeds(getDoc(doc(dbFor(EVE), 'accountStatus', EVE)));
+    await assertFails(getDoc(doc(dbFor(ALICE), 'accountStatus', EVE)));
+    await assertFails(setDoc(doc(dbFor(EVE), 'accountStatus', EVE), { state: 'active' }));
+  });
+
+  test('nessuno si toglie da solo il blocco per segnalazioni', async () => {
+    await seed(`profiles/${EVE}`, { name: 'Eve', moderationHidden: true });
+    await assertFails(updateDoc(doc(dbFor(EVE), 'profiles', EVE), { moderationHidden: false }));
+    await seed(`chats/${CHAT_ID}`, { participants: [ALICE, BOB] });
+    await seed(`chats/${CHAT_ID}/messages/m1`, {
+      text: 'Spam',
+      senderId: ALICE,
+      moderationHidden: true,
+    });
+    await assertFails(
+      updateDoc(doc(dbFor(ALICE), 'chats', CHAT_ID, 'messages', 'm1'), { moderationHidden: false })
+    );
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), 'groupRooms', 'g1', 'messages', 'm2'), {
+        text: 'Ciao',
+        senderId: ALICE,
+        moderationHidden: false,
+      })
+    );
+  });
+});
+
+describe('sospensioni', () => {
+  beforeEach(async () => {
+    await seed(`chats/${CHAT_ID}`, { participants: [ALICE, BOB] });
+  });
+
+  test('un account sospeso non legge né scrive nulla', async () => {
+    await seed(`accountStatus/${BOB}`, {
+      state: 'suspended',
+      reason: 'Spam',
+      until: Timestamp.fromMillis(Date.now() + 24 * 60 * 60 * 1000),
+    });
+    const db = dbFor(BOB);
+    await assertFails(getDoc(doc(db, 'profiles', ALICE)));
+    await assertFails(getDoc(doc(db, 'chats', CHAT_ID)));
+    await assertFails(
+      setDoc(doc(db, 'chats', CHAT_ID, 'messages', 'm1'), { text: 'Ciao', senderId: BOB })
+    );
+    await assertFails(setDoc(doc(db, 'presence', BOB), { activeAt: serverTimestamp() }));
+    await assertFails(setDoc(doc(db, 'groupRooms', 'g2'), { title: 'Roma', owner: BOB }));
+  });
+
+  test('un account bannato resta bloccato senza scadenza', async () => {
+    await seed(`accountStatus/${BOB}`, { state: 'banned', reason: 'Truffa', until: null });
+    await assertFails(getDoc(doc(dbFor(BOB), 'profiles', ALICE)));
+  });
+
+  test('a sospensione scaduta si torna a usare l\'app', async () => {
+    await seed(`accountStatus/${BOB}`, {
+      state: 'suspended',
+      reason: 'Spam',
+      until: Timestamp.fromMillis(Date.now() - 60 * 1000),
+    });
+    await assertSucceeds(getDoc(doc(dbFor(BOB), 'profiles', ALICE)));
+  });
+
+  test('il sospeso legge stato e ricorso ma non li modifica', async () => {
+    await seed(`accountStatus/${BOB}`, { state: 'banned', reason: 'Truffa', until: null });
+    await seed(`accountAppeals/${BOB}`, { userId: BOB, text: 'Errore', status: 'pending' });
+    const db = dbFor(BOB);
+    await assertSucceeds(getDoc(doc(db, 'accountStatus', BOB)));
+    await assertSucceeds(getDoc(doc(db, 'accountAppeals', BOB)));
+    await assertFails(setDoc(doc(db, 'accountAppeals', BOB), { status: 'accepted' }));
+    await assertFails(getDoc(doc(dbFor(ALICE), 'accountAppeals', BOB)));
+  });
+});
+
+describe('groupRooms', () => {
+  const GROUP_ID = 'g1';
+  const THREAD_ID = [ALICE, BOB].sort().join('_');
+
+  beforeEach(async () => {
+    await seed(`groupRooms/${GROUP_ID}`, { title: 'Milano', owner: ALICE, membersCount: 1 });
+    await seed(`groupRooms/${GROUP_ID}/privateThreads/${THREAD_ID}`, {
+      participants: [ALICE, BOB],
+      lastMessage: 'Ciao',
+    });
+  });
+
+  test('si crea un gruppo solo come proprietario', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(setDoc(doc(db, 'groupRooms', 'g2'), { title: 'Roma', owner: BOB }));
+    await assertFails(setDoc(doc(db, 'groupRooms', 'g3'), { title: 'Roma', owner: ALICE }));
+  });
+
+  test('i membri aggiornano l\'ultimo messaggio ma non titolo o proprietario', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      updateDoc(doc(db, 'groupRooms', GROUP_ID), { lastMessage: 'Ciao', lastSender: BOB })
+    );
+    await assertFails(updateDoc(doc(db, 'groupRooms', GROUP_ID), { title: 'Rinominato' }));
+    await assertFails(updateDoc(doc(db, 'groupRooms', GROUP_ID), { owner: BOB }));
+  });
+
+  test('solo il proprietario elimina il gruppo', async () => {
+    await assertFails(deleteDoc(doc(dbFor(BOB), 'groupRooms', GROUP_ID)));
+    await assertSucceeds(deleteDoc(doc(dbFor(ALICE), 'groupRooms', GROUP_ID)));
+  });
+
+  test('i messaggi di gruppo si inviano solo a proprio nome', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      setDoc(doc(db, 'groupRooms', GROUP_ID, 'messages', 'm1'), { text: 'Ciao', senderId: BOB })
+    );
+    await assertFails(
+      setDoc(doc(db, 'groupRooms', GROUP_ID, 'messages', 'm2'), { text: 'Finto', senderId: ALICE })
+    );
+  });
+
+  test('sui messaggi di gruppo si cambia solo la propria reazione', async () => {
+    await seed(`groupRooms/${GROUP_ID}/messages/m1`, { text: 'Ciao', senderId: ALICE });
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      updateDoc(doc(db, 'groupRooms', GROUP_ID, 'messages', 'm1'), { [`reactions.${BOB}`]: '👍' })
+    );
+    await assertFails(
+      updateDoc(doc(db, 'groupRooms', GROUP_ID, 'messages', 'm1'), { [`reactions.${ALICE}`]: '👍' })
+    );
+    await assertFails(updateDoc(doc(db, 'groupRooms', GROUP_ID, 'messages', 'm1'), { text: 'Modificato' }));
+  });
+
+  test('la presenza si scrive solo per se stessi', async () => {
+    const db = dbFor(BOB);
+    await assertSucceeds(
+      setDoc(doc(db, 'groupRooms', GROUP_ID, 'presence', BOB), { activeAt: serverTimestamp() })
+    );
+    await assertFails(
+      setDoc(doc(db, 'groupRooms', GROUP_ID, 'presence', ALICE), { activeAt: serverTimestamp() })
+    );
+  });
+
+  test('la presenza del gruppo non si legge dal client, neanche da chi è bloccato', async () => {
+    await seed(`groupRooms/${GROUP_ID}/presence/${ALICE}`, { activeAt: new Date(), name: 'Alice' });
+    await seed(`groupRooms/${GROUP_ID}/livePresence/${ALICE}`, { activeAt: new Date(), role: 'host' });
+    await seed(`groupRooms/${GROUP_ID}/presence/${BOB}`, { activeAt: new Date(), name: 'Bob' });
+    const db = dbFor(BOB);
+    await assertSucceeds(getDoc(doc(db, 'groupRooms', GROUP_ID, 'presence', BOB)));
+    await assertFails(getDoc(doc(db, 'groupRooms', GROUP_ID, 'presence', ALICE)));
+    await assertFails(getDocs(collection(db, 'groupRooms', GROUP_ID, 'presence')));
+    await assertFails(getDocs(collection(db, 'groupRooms', GROUP_ID, 'livePresence')));
+  });
+
+  test('il documento della live non si scrive dal client', async () => {
+    await assertFails(
+      setDoc(doc(dbFor(BOB), 'groupRooms', GROUP_ID, 'lives', BOB), { status: 'live' })
+    );
+  });
+
+  test('i thread privati sono visibili solo ai due partecipanti', async () => {
+    await assertSucceeds(
+      getDocs(collection(dbFor(BOB), 'groupRooms', GROUP_ID, 'privateThreads', THREAD_ID, 'messages'))
+    );
+    await assertFails(getDoc(doc(dbFor(EVE), 'groupRooms', GROUP_ID, 'privateThreads', THREAD_ID)));
+    await assertFails(
+      setDoc(
+        doc(dbFor(EVE), 'groupRooms', GROUP_ID, 'privateThreads', THREAD_ID, 'messages', 'm1'),
+        { text: 'Spam', senderId: EVE }
+      )
+    );
+  });
+
+  test('la query collectionGroup dei thread privati richiede il filtro sul partecipante', async () => {
+    await assertSucceeds(
+      getDocs(
+        query(collectionGroup(dbFor(BOB), 'privateThreads'), where('participants', 'array-contains', BOB))
+      )
+    );
+    await assertFails(getDocs(collectionGroup(dbFor(EVE), 'privateThreads')));
+  });
+
+  test('il proprietario del gruppo può eliminare i thread privati altrui', async () => {
+    const otherThreadId = [BOB, EVE].sort().join('_');
+    await seed(`groupRooms/${GROUP_ID}/privateThreads/${otherThreadId}`, {
+      participants: [BOB, EVE],
+    });
+    await assertSucceeds(
+      deleteDoc(doc(dbFor(ALICE), 'groupRooms', GROUP_ID, 'privateThreads', otherThreadId))
+    );
+  });
+});
@@ -0,0 +1,232 @@
+// Rigenera le fixture sintetiche di tests/sensitivity.test.mjs: `node tests/fixtures/sensitivity/generate.mjs`
+// Immagini astratte 64px (forme color pelle, volti stilizzati, spiagge, legno, paesaggi):
+// niente foto reali nel repo. Il seme è fisso, quindi il risultato è sempre lo stesso.
+// Servono a evitare regressioni, non a misurare il modello: per quello vedi SENSITIVITY_REAL_FIXTURES.
+import { Buffer } from 'node:buffer';
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import jpeg from 'jpeg-js';
+
+const DIR = dirname(fileURLToPath(import.meta.url));
+const SIZE = 64;
+
+// mulberry32
+let seed = 0x5e451;
+const random = () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const between = (min, max) => min + random() * (max - min);
+const pick = (values) => values[Math.floor(random() * values.length)];
+const clamp = (value) => Math.max(0, Math.min(255, Math.round(value)));
+
+const SKIN = [
+  [236, 196, 168],
+  [224, 172, 140],
+  [198, 140, 105],
+  [170, 115, 80],
+  [128, 86, 62],
+  [96, 64, 48],
+];
+const SAND = [
+  [222, 196, 152],
+  [236, 208, 166],
+  [204, 172, 132],
+];
+const WOOD = [
+  [170, 110, 65],
+  [190, 132, 82],
+  [150, 96, 56],
+  [206, 152, 104],
+];
+const BACKGROUNDS = [
+  [128, 128, 132],
+  [238, 238, 240],
+  [40, 40, 48],
+  [70, 96, 150],
+  [80, 130, 90],
+  [120, 80, 140],
+  [222, 212, 192],
+];
+const CLOTHES = [
+  [30, 50, 120],
+  [200, 30, 40],
+  [240, 240, 240],
+  [30, 30, 30],
+  [60, 140, 80],
+];
+
+const createImage = (height = SIZE) => ({
+  width: SIZE,
+  height,
+  data: Buffer.alloc(SIZE * height * 4, 255),
+});
+
+const setPixel = (image, x, y, [r, g, b]) => {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  const offset = (y * image.width + x) * 4;
+  image.data[offset] = clamp(r);
+  image.data[offset + 1] = clamp(g);
+  image.data[offset + 2] = clamp(b);
+};
+
+const fill = (image, color) => {
+  for (let y = 0; y < image.height; y += 1) {
+    for (let x = 0; x < image.width; x += 1) setPixel(image, x, y, color);
+  }
+};
+
+const scale = ([r, g, b], factor) => [r * factor, g * factor, b * factor];
+
+// Ellisse con ombreggiatura morbida, luce dall'alto a sinistra
+const ellipse = (image, cx, cy, rx, ry, color, shading = 0) => {
+  for (let y = Math.floor(cy - ry); y <= cy + ry; y += 1) {
+    for (let x = Math.floor(cx - rx); x <= cx + rx; x += 1) {
+      const dx = (x - cx) / rx;
+      const dy = (y - cy) / ry;
+      if (dx * dx + dy * dy > 1) continue;
+      setPixel(image, x, y, scale(color, 1 - shading * ((dx + dy) / 2 + 0.3)));
+    }
+  }
+};
+
+const rect = (image, x0, y0, x1, y1, color) => {
+  for (let y = y0; y < y1; y += 1) {
+    for (let x = x0; x < x1; x += 1) setPixel(image, x, y, color);
+  }
+};
+
+const addNoise = (image, amount) => {
+  for (let i = 0; i < image.data.length; i += 4) {
+    const delta = (random() - 0.5) * 2 * amount;
+    for (let c = 0; c < 3; c += 1) image.data[i + c] = clamp(image.data[i + c] + delta);
+  }
+};
+
+const drawBody = (image, coverage) => {
+  fill(image, pick(BACKGROUNDS));
+  const skin = pick(SKIN);
+  const cx = between(24, 40);
+  const cy = image.height / 2 + between(-6, 6);
+  ellipse(image, cx, cy, 16 * coverage, 24 * coverage, skin, 0.25);
+  ellipse(image, cx + between(-10, 10), cy - between(10, 18), 12 * coverage, 10 * coverage, skin, 0.2);
+  for (let i = 0; i < 2; i += 1) {
+    ellipse(
+      image,
+      cx + between(-22, 22) * coverage,
+      cy + between(-8, 14),
+      between(5, 9) * coverage,
+      between(14, 22) * coverage,
+      scale(skin, between(0.92, 1.05)),
+      0.2
+    );
+  }
+  if (random() < 0.4) {
+    rect(image, 0, Math.round(image.height - between(4, 12)), image.width, image.height, pick(CLOTHES));
+  }
+};
+
+const drawFace = (image) => {
+  fill(image, pick(BACKGROUNDS));
+  const skin = pick(SKIN);
+  const hair = pick([[30, 20, 15], [70, 45, 25], [20, 20, 20], [110, 80, 40]]);
+  const rx = between(13, 21);
+  const ry = rx * between(1.2, 1.4);
+  const cx = 32 + between(-4, 4);
+  const cy = 30 + between(-3, 3);
+  rect(image, Math.round(cx - rx * 0.45), Math.round(cy + ry * 0.6), Math.round(cx + rx * 0.45), image.height, skin);
+  rect(image, 0, Math.round(cy + ry + 4), image.width, image.height, pick(CLOTHES));
+  ellipse(image, cx, cy - ry * 0.25, rx * 1.12, ry * 0.95, hair);
+  ellipse(image, cx, cy + ry * 0.08, rx, ry * 0.92, skin, 0.2);
+  const eyeY = cy - ry * 0.05;
+  for (const side of [-1, 1]) {
+    ellipse(image, cx + side * rx * 0.4, eyeY, rx * 0.16, ry * 0.07, [35, 30, 30]);
+    rect(
+      image,
+      Math.round(cx + side * rx * 0.4 - rx * 0.22),
+      Math.round(eyeY - ry * 0.2),
+      Math.round(cx + side * rx * 0.4 + rx * 0.22),
+      Math.round(eyeY - ry * 0.14),
+      hair
+    );
+  }
+  ellipse(image, cx, cy + ry * 0.5, rx * 0.3, ry * 0.07, [150, 50, 55]);
+};
+
+const drawBeach = (image) => {
+  const horizon = Math.round(image.height * between(0.3, 0.45));
+  const sea = horizon + Math.round(between(6, 14));
+  const sand = pick(SAND);
+  for (let y = 0; y < image.height; y += 1) {
+    for (let x = 0; x < image.width; x += 1) {
+      if (y < horizon) {
+        setPixel(image, x, y, [110 + y, 170 + y, 235]);
+      } else if (y < sea) {
+        setPixel(image, x, y, [40, 110 + (y - horizon) * 4, 170]);
+      } else {
+        const ripple = 1 + 0.06 * Math.sin(y * 1.3 + Math.sin(x * 0.4) * 2);
+        setPixel(image, x, y, scale(sand, ripple + (random() - 0.5) * 0.16));
+      }
+    }
+  }
+  if (random() < 0.5) {
+    const skin = pick(SKIN);
+    ellipse(image, between(10, 54), sea + between(6, 14), between(2, 4), between(5, 8), skin, 0.2);
+  }
+};
+
+const drawWood = (image) => {
+  const wood = pick(WOOD);
+  const frequency = between(0.5, 0.9);
+  const phase = between(0, Math.PI * 2);
+  for (let y = 0; y < image.height; y += 1) {
+    for (let x = 0; x < image.width; x += 1) {
+      const grain = Math.sin(x * frequency + 3 * Math.sin(y * 0.12 + phase));
+      setPixel(image, x, y, scale(wood, 1 + 0.18 * grain + (random() - 0.5) * 0.1));
+    }
+  }
+  if (random() < 0.6) {
+    ellipse(image, between(12, 52), between(12, 52), between(3, 6), between(2, 4), scale(wood, 0.55));
+  }
+};
+
+const drawLandscape = (image) => {
+  const horizon = Math.round(image.height * between(0.35, 0.6));
+  const ground = random() < 0.5 ? [70, 130, 60] : [120, 120, 118];
+  for (let y = 0; y < image.height; y += 1) {
+    for (let x = 0; x < image.width; x += 1) {
+      const hill = horizon + 6 * Math.sin(x * 0.12 + horizon);
+      setPixel(image, x, y, y < hill ? [120 + y, 175 + y / 2, 230] : scale(ground, between(0.85, 1.1)));
+    }
+  }
+};
+
+const CATEGORIES = [
+  { category: 'body', label: 'sensitive', count: 18, draw: (image) => drawBody(image, between(1.1, 1.5)) },
+  { category: 'body-partial', label: 'sensitive', count: 12, draw: (image) => drawBody(image, between(0.8, 1.05)) },
+  { category: 'face', label: 'safe', count: 15, draw: drawFace },
+  { category: 'beach', label: 'safe', count: 12, draw: drawBeach },
+  { category: 'wood', label: 'safe', count: 12, draw: drawWood },
+  { category: 'landscape', label: 'safe', count: 9, draw: drawLandscape },
+];
+
+const images = [];
+for (const { category, label, count, draw } of CATEGORIES) {
+  for (let i = 0; i < count; i += 1) {
+    const image = createImage(random() < 0.3 ? 80 : SIZE);
+    draw(image);
+    addNoise(image, 4);
+    const file = `${category}-${String(i + 1).padStart(2, '0')}.jpg`;
+    writeFileSync(join(DIR, file), jpeg.encode(image, 85).data);
+    // Un'immagine su tre resta fuori dall'addestramento
+    images.push({ file, label, category, split: i % 3 === 2 ? 'test' : 'train' });
+  }
+}
+
+writeFileSync(join(DIR, 'labels.json'), `${JSON.stringify({ images }, null, 2)}\n`);
+console.log(`${images.length} fixture scritte in ${DIR}`);
@@ -0,0 +1,64 @@
+// Supporto comune a tests/sensitivity.test.mjs e tests/train-sensitivity-model.mjs
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import process from 'node:process';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+import jpeg from 'jpeg-js';
+import ts from 'typescript';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const FIXTURES_DIR = join(ROOT, 'tests/fixtures/sensitivity');
+
+// Foto reali etichettate, fuori dal repo: cartella con labels.json nello stesso formato e immagini JPEG
+export const REAL_FIXTURES_DIR = process.env.SENSITIVITY_REAL_FIXTURES || null;
+
+export const MODEL_PATH = join(ROOT, 'assets/models/sensitivity-v1.json');
+
+// Node non esegue TypeScript: lib/sensitivity-classifiers.ts non ha import, basta transpilarlo
+export const loadClassifiers = async () => {
+  const source = readFileSync(join(ROOT, 'lib/sensitivity-classifiers.ts'), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  const dir = mkdtempSync(join(tmpdir(), 'sensitivity-'));
+  const file = join(dir, 'sensitivity-classifiers.mjs');
+  writeFileSync(file, outputText);
+  try {
+    return await import(pathToFileURL(file).href);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+export const loadModelSpec = () => JSON.parse(readFileSync(MODEL_PATH, 'utf8'));
+
+export const loadFixtures = (split, dir = FIXTURES_DIR) => {
+  const { images } = JSON.parse(readFileSync(join(dir, 'labels.json'), 'utf8'));
+  return images
+    .filter((entry) => !split || entry.split === split)
+    .map((entry) => {
+      const { data, width, height } = jpeg.decode(readFileSync(join(dir, entry.file)), {
+        useTArray: true,
+      });
+      return { ...entry, sensitive: entry.label === 'sensitive', image: { data, width, height } };
+    });
+};
+
+export const computeMetrics = (predictions) => {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  let tn = 0;
+  for (const { predicted, actual } of predictions) {
+    if (predicted && actual) tp += 1;
+    else if (predicted) fp += 1;
+    else if (actual) fn += 1;
+    else tn += 1;
+  }
+  const precision = tp + fp ? tp / (tp + fp) : 0;
+  const recall = tp + fn ? tp / (tp + fn) : 0;
+  const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  return { tp, fp, fn, tn, precision, recall, f1 };
+};
@@ -0,0 +1,119 @@
+// Precisione e recall dei backend di lib/sensitivity-classifiers.ts sulle fixture etichettate:
+// `npm run test:sensitivity`. Le metriche sono calcolate sullo split di test, escluso dall'addestramento.
+// Nell'app decide l'euristico; linear-v1 è sperimentale e non attivo. Le fixture del repo sono
+// sintetiche: i numeri dicono solo che il modello non regredisce, non quanto funziona sulle foto vere.
+// Per quelle: SENSITIVITY_REAL_FIXTURES=<cartella> npm run test:sensitivity
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+
+import {
+  REAL_FIXTURES_DIR,
+  computeMetrics,
+  loadClassifiers,
+  loadFixtures,
+  loadModelSpec,
+} from './sensitivity-helpers.mjs';
+
+const percent = (value) => `${(value * 100).toFixed(1)}%`;
+
+let classifiers;
+let fixtures;
+let backends;
+
+const evaluate = (backend, images = fixtures) => {
+  const predictions = images.map((fixture) => {
+    const prediction = classifiers.classifyImage(fixture.image, [backend]);
+    return { fixture, predicted: !!prediction?.sensitive, actual: fixture.sensitive };
+  });
+  return { predictions, metrics: computeMetrics(predictions) };
+};
+
+before(async () => {
+  classifiers = await loadClassifiers();
+  fixtures = loadFixtures('test');
+  backends = [
+    classifiers.createLinearModelClassifier(loadModelSpec()),
+    classifiers.createHeuristicClassifier(),
+  ];
+});
+
+const report = (t, label, images) => {
+  for (const backend of backends) {
+    const { predictions, metrics } = evaluate(backend, images);
+    t.diagnostic(
+      `${backend.name} (${label}): precisione ${percent(metrics.precision)}, recall ${percent(metrics.recall)}, ` +
+        `F1 ${percent(metrics.f1)} (tp ${metrics.tp}, fp ${metrics.fp}, fn ${metrics.fn}, tn ${metrics.tn})`
+    );
+    const errors = predictions
+      .filter(({ predicted, actual }) => predicted !== actual)
+      .map(({ fixture }) => fixture.file);
+    if (errors.length) t.diagnostic(`${backend.name} sbaglia: ${errors.join(', ')}`);
+  }
+};
+
+describe('classificatori di sensibilità', () => {
+  test('riporta precisione e recall per ogni backend sulle fixture sintetiche', (t) => {
+    report(t, 'sintetiche', fixtures);
+  });
+
+  // Solo misura: il modello incluso è addestrato sulle fixture sintetiche e non ha soglie garantite sulle foto vere
+  test(
+    'riporta precisione e recall sulle foto reali etichettate',
+    { skip: !REAL_FIXTURES_DIR && 'SENSITIVITY_REAL_FIXTURES non impostata' },
+    (t) => {
+      report(t, 'reali', loadFixtures(null, REAL_FIXTURES_DIR));
+    }
+  );
+
+  test('sulle fixture sintetiche il modello sperimentale non fa peggio del vecchio euristico', () => {
+    const [model, heuristic] = backends.map((backend) => evaluate(backend).metrics);
+    assert.ok(model.f1 >= heuristic.f1, `F1 modello ${model.f1} < euristico ${heuristic.f1}`);
+    assert.ok(model.precision >= 0.8, `precisione del modello troppo bassa: ${model.precision}`);
+    assert.ok(model.recall >= 0.8, `recall del modello troppo basso: ${model.recall}`);
+  });
+
+  test("l'euristico segnala ancora oltre il 35% di pixel color pelle", () => {
+    const width = 16;
+    const height = 16;
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      data.set([224, 172, 140, 255], i);
+    }
+    const prediction = classifiers.classifyImage({ data, width, height }, [
+      classifiers.createHeuristicClassifier(),
+    ]);
+    assert.equal(prediction?.sensitive, true);
+    assert.equal(prediction?.backend, 'heuristic');
+  });
+
+  test('se il primo backend fallisce decide il fallback', () => {
+    const failing = {
+      name: 'failing',
+      calibration: { a: 1, b: 0 },
+      threshold: 0.5,
+      score: () => {
+        throw new Error('model-unavailable');
+      },
+    };
+    const [fixture] = fixtures;
+    const prediction = classifiers.classifyImage(fixture.image, [
+      failing,
+      classifiers.createHeuristicClassifier(),
+    ]);
+    assert.equal(prediction?.backend, 'heuristic');
+  });
+
+  test('la calibrazione restituisce probabilità in [0, 1]', () => {
+    for (const backend of backends) {
+      for (const fixture of fixtures) {
+        const prediction = classifiers.classifyImage(fixture.image, [backend]);
+        assert.ok(prediction && prediction.score >= 0 && prediction.score <= 1);
+      }
+    }
+  });
+
+  test('un modello con feature diverse viene rifiutato', () => {
+    const spec = { ...loadModelSpec(), features: ['skinRatio'] };
+    assert.throws(() => classifiers.createLinearModelClassifier(spec), /sensitivity-model-invalid/);
+  });
+});
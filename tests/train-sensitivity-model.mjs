@@ -0,0 +1,77 @@
+// Riaddestra assets/models/sensitivity-v1.json sulle fixture di train: `npm run train:sensitivity`
+// Regressione logistica sulle feature standardizzate, poi Platt scaling dei punteggi ottenuti.
+// Con SENSITIVITY_REAL_FIXTURES usa anche lo split di train delle foto reali etichettate.
+import { writeFileSync } from 'node:fs';
+
+import { MODEL_PATH, REAL_FIXTURES_DIR, loadClassifiers, loadFixtures } from './sensitivity-helpers.mjs';
+
+const EPOCHS = 4000;
+const LEARNING_RATE = 0.1;
+const L2 = 0.01;
+
+const sigmoid = (value) => 1 / (1 + Math.exp(-value));
+const round = (value) => Number(value.toFixed(4));
+
+// Discesa del gradiente su log-loss; x: righe di feature, y: 0/1
+const fitLogistic = (x, y, l2) => {
+  const size = x[0].length;
+  const weights = new Array(size).fill(0);
+  let bias = 0;
+  for (let epoch = 0; epoch < EPOCHS; epoch += 1) {
+    const gradient = new Array(size).fill(0);
+    let biasGradient = 0;
+    x.forEach((row, i) => {
+      const error = sigmoid(row.reduce((sum, value, j) => sum + value * weights[j], bias)) - y[i];
+      row.forEach((value, j) => {
+        gradient[j] += error * value;
+      });
+      biasGradient += error;
+    });
+    for (let j = 0; j < size; j += 1) {
+      weights[j] -= LEARNING_RATE * (gradient[j] / x.length + l2 * weights[j]);
+    }
+    bias -= (LEARNING_RATE * biasGradient) / x.length;
+  }
+  return { weights, bias };
+};
+
+const { SENSITIVITY_FEATURES, createLinearModelClassifier, extractSensitivityFeatures } =
+  await loadClassifiers();
+
+const trainFixtures = [
+  ...loadFixtures('train'),
+  ...(REAL_FIXTURES_DIR ? loadFixtures('train', REAL_FIXTURES_DIR) : []),
+];
+const samples = trainFixtures
+  .map((fixture) => ({ fixture, features: extractSensitivityFeatures(fixture.image) }))
+  .filter(({ features }) => features);
+const rows = samples.map(({ features }) => SENSITIVITY_FEATURES.map((name) => features[name]));
+const labels = samples.map(({ fixture }) => (fixture.sensitive ? 1 : 0));
+
+const mean = SENSITIVITY_FEATURES.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / rows.length);
+const std = SENSITIVITY_FEATURES.map((_, j) => {
+  const variance = rows.reduce((sum, row) => sum + (row[j] - mean[j]) ** 2, 0) / rows.length;
+  return Math.sqrt(variance) || 1;
+});
+const standardized = rows.map((row) => row.map((value, j) => (value - mean[j]) / std[j]));
+const { weights, bias } = fitLogistic(standardized, labels, L2);
+
+const spec = {
+  name: 'linear-v1',
+  features: [...SENSITIVITY_FEATURES],
+  mean: mean.map(round),
+  std: std.map(round),
+  weights: weights.map(round),
+  bias: round(bias),
+  calibration: { a: 1, b: 0 },
+  threshold: 0.5,
+};
+
+// Platt scaling sui punteggi grezzi del modello: un solo ingresso, nessuna regolarizzazione
+const model = createLinearModelClassifier(spec);
+const scores = samples.map(({ fixture }) => [model.score(fixture.image)]);
+const platt = fitLogistic(scores, labels, 0);
+spec.calibration = { a: round(platt.weights[0]), b: round(platt.bias) };
+
+writeFileSync(MODEL_PATH, `${JSON.stringify(spec, null, 2)}\n`);
+console.log(`Modello addestrato su ${samples.length} immagini: ${MODEL_PATH}`);